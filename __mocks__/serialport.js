@@ -1,9 +1,33 @@
 class SerialPort {
-  constructor() {}
+  constructor(options) {
+    this.options = options;
+    this.isOpen = true;
+  }
+
+  static list() {
+    return Promise.resolve([]);
+  }
 
   on() {}
   write() {}
   drain() {}
+  set(signals, cb) {
+    this.signals = signals;
+    if (cb) {
+      cb(null);
+    }
+  }
+  open(cb) {
+    this.isOpen = true;
+    if (cb) {
+      cb(null);
+    }
+  }
+  close(cb) {
+    if (cb) {
+      cb(null);
+    }
+  }
 }
 
-module.exports = SerialPort;
+module.exports = { SerialPort };
@@ -11,6 +11,33 @@ const commands = {
   })),
 };
 
+const ConfigurationTarget = {
+  Global: 1,
+  Workspace: 2,
+  WorkspaceFolder: 3,
+};
+
+class DataTransferItem {
+  constructor(value) {
+    this.value = value;
+  }
+  asString() {
+    return Promise.resolve(typeof this.value === 'string' ? this.value : JSON.stringify(this.value));
+  }
+}
+
+class DataTransfer {
+  constructor() {
+    this.items = new Map();
+  }
+  get(mimeType) {
+    return this.items.get(mimeType);
+  }
+  set(mimeType, item) {
+    this.items.set(mimeType, item);
+  }
+}
+
 const debug = {
   onDidTerminateDebugSession: jest.fn(),
   startDebugging: jest.fn(),
@@ -23,11 +50,55 @@ const EndOfLine = {
   LF: 1,
 };
 class EventEmitter {
-  constructor() {}
+  constructor() {
+    this.listeners = [];
+    this.event = (listener) => {
+      this.listeners.push(listener);
+      return { dispose: jest.fn() };
+    };
+  }
+  fire(data) {
+    this.listeners.forEach((listener) => listener(data));
+  }
+}
+
+const FileChangeType = {
+  Changed: 1,
+  Created: 2,
+  Deleted: 3,
+};
+
+class FileSystemError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.code = code;
+  }
+  static FileExists(uri) {
+    return new FileSystemError(`${uri && uri.path} exists`, 'FileExists');
+  }
+  static FileIsADirectory(uri) {
+    return new FileSystemError(`${uri && uri.path} is a directory`, 'FileIsADirectory');
+  }
+  static FileNotFound(uri) {
+    return new FileSystemError(`${uri && uri.path} not found`, 'FileNotFound');
+  }
+  static NoPermissions(message) {
+    return new FileSystemError(message, 'NoPermissions');
+  }
+  static Unavailable(message) {
+    return new FileSystemError(message, 'Unavailable');
+  }
 }
 
 const FileSystemProvider = {};
 
+const FileType = {
+  Unknown: 0,
+  File: 1,
+  Directory: 2,
+  SymbolicLink: 64,
+};
+
 const languages = {
   createDiagnosticCollection: jest.fn(),
 };
@@ -47,6 +118,11 @@ const StatusBarItem = {
   dispose: jest.fn(),
 };
 
+const ThemeIcon = {
+  File: { id: 'file' },
+  Folder: { id: 'folder' },
+};
+
 class TreeItem {
   constructor(label, collapsibleState) {}
 }
@@ -72,6 +148,10 @@ const WebviewPanel = {};
 
 const window = {
   activeTextEditor: {},
+  createOutputChannel: jest.fn(() => ({
+    appendLine: jest.fn(),
+    dispose: jest.fn(),
+  })),
   createStatusBarItem: jest.fn(() => ({
     show: jest.fn(),
     dispose: jest.fn(),
@@ -89,34 +169,59 @@ const window = {
   showInputBox: jest.fn(),
   showOpenDialog: jest.fn(),
   showQuickPick: jest.fn(),
+  showSaveDialog: jest.fn(),
   showTextDocument: jest.fn(),
   showWarningMessage: jest.fn(),
   withProgress: jest.fn(),
 };
 
 const workspace = {
-  getConfiguration: jest.fn(),
+  applyEdit: jest.fn(() => Promise.resolve(true)),
+  getConfiguration: jest.fn(() => ({
+    get: jest.fn((key, defaultValue) => defaultValue),
+    update: jest.fn(),
+  })),
+  onDidChangeConfiguration: jest.fn(() => ({
+    dispose: jest.fn(),
+  })),
   onDidOpenTextDocument: jest.fn(),
   onDidSaveTextDocument: jest.fn(),
   onWillSaveTextDocument: jest.fn(),
   openTextDocument: jest.fn(),
+  updateWorkspaceFolders: jest.fn(),
   workspaceFolders: [],
 };
 
+class WorkspaceEdit {
+  constructor() {
+    this.renames = [];
+  }
+  renameFile(oldUri, newUri, options) {
+    this.renames.push({ oldUri, newUri, options });
+  }
+}
+
 const vscode = {
   commands,
+  ConfigurationTarget,
+  DataTransfer,
+  DataTransferItem,
   debug,
   Diagnostic,
   DiagnosticSeverity,
   EndOfLine,
   EventEmitter,
+  FileChangeType,
+  FileSystemError,
   FileSystemProvider,
+  FileType,
   languages,
   OverviewRulerLane,
   ProgressLocation,
   Range,
   StatusBarItem,
   StatusBarAlignment,
+  ThemeIcon,
   TreeItem,
   TreeItemCollapsibleState,
   Uri,
@@ -124,6 +229,7 @@ const vscode = {
   WebviewPanel,
   window,
   workspace,
+  WorkspaceEdit,
 };
 
 module.exports = vscode;
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { SerialDisconnectedError, SerialError, SerialTimeoutError } from '../serial/errors';
+import { SerialBackend } from '../serial/SerialBackend';
+import SerialManager from '../serial/SerialManager';
+import { COMMAND_PRIORITY, ConnectionState } from '../serial/types';
+import SerialClientAdapter from './SerialClientAdapter';
+
+export type BackendKind = 'legacy' | 'mpy-sdk';
+
+const BACKEND_SETTING = 'backend';
+
+// ms to wait for machine.reset(), which restarts the device before it can answer
+const RESET_TIMEOUT = 1000;
+
+/**
+ * Picks the backend devices are driven through: the one a device is connected with, the one
+ * of the m5stack.serial.backend setting for devices not connected yet
+ */
+class Backend {
+  private readonly backends: SerialBackend[] = [SerialManager, SerialClientAdapter];
+
+  get(com?: string): SerialBackend {
+    const selected = this.selected();
+    // devices connected before the setting changed keep their backend until they disconnect
+    const other = com ? this.backends.find((backend) => backend !== selected && backend.has(com)) : undefined;
+    return other ?? selected;
+  }
+
+  selected(): SerialBackend {
+    const config = vscode.workspace.getConfiguration('m5stack.serial');
+    return config.get<BackendKind>(BACKEND_SETTING, 'legacy') === 'mpy-sdk'
+      ? SerialClientAdapter
+      : SerialManager;
+  }
+
+  /**
+   * Restart a device. It usually never answers, so a timeout or a lost connection mean the reset
+   * went through.
+   */
+  async reset(com: string): Promise<void> {
+    let r: Buffer;
+    try {
+      r = await this.get(com).exec(com, 'machine.reset()', {
+        priority: COMMAND_PRIORITY.high,
+        timeout: RESET_TIMEOUT,
+      });
+    } catch (e) {
+      if (e instanceof SerialTimeoutError || e instanceof SerialDisconnectedError) {
+        return;
+      }
+      throw e;
+    }
+    if (r?.toString().indexOf('done') < 0) {
+      throw new SerialError(r.toString().trim());
+    }
+  }
+
+  onStateChange(listener: (com: string, state: ConnectionState) => void): { dispose(): void } {
+    return this.subscribeAll((backend) => backend.onStateChange(listener));
+  }
+
+  onQueueChange(listener: (com: string, depth: number) => void): { dispose(): void } {
+    return this.subscribeAll((backend) => backend.onQueueChange(listener));
+  }
+
+  private subscribeAll(subscribe: (backend: SerialBackend) => { dispose(): void }): { dispose(): void } {
+    const subscriptions = this.backends.map(subscribe);
+    return {
+      dispose: () => subscriptions.forEach((subscription) => subscription.dispose()),
+    };
+  }
+}
+
+export default new Backend();
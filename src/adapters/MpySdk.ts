@@ -0,0 +1,101 @@
+import { SerialError } from '../serial/errors';
+import { SerialSettings } from '../serial/types';
+
+// Part of the mpy-sdk API used by SerialClientAdapter, as docs/LIBRARY_SEPARATION_DESIGN.md defines it
+
+export interface SdkPortInfo {
+  path: string;
+  manufacturer?: string;
+  serialNumber?: string;
+  vendorId?: string;
+  productId?: string;
+}
+
+export interface SdkDirectoryEntry {
+  name: string;
+  type: 'file' | 'directory';
+  size?: number;
+  lastModified?: Date;
+}
+
+export interface SdkExecutionResult {
+  output: string;
+  error?: string;
+  exitCode: number;
+  executionTime: number;
+}
+
+export interface SdkDeviceInfo {
+  platform: string;
+  version: string;
+  chipId: string;
+  flashSize: number;
+  ramSize: number;
+}
+
+export interface SdkWriteOptions {
+  overwrite?: boolean;
+  createDirectories?: boolean;
+  encoding?: 'utf8' | 'binary';
+  // from the large file example of the design
+  onProgress?: (bytesWritten: number, totalBytes: number) => void;
+}
+
+export interface SdkConnection {
+  readonly port: string;
+  readonly isConnected: boolean;
+  readonly isBusy: boolean;
+  listDirectory(path: string): Promise<SdkDirectoryEntry[]>;
+  readFile(path: string): Promise<Buffer>;
+  writeFile(path: string, content: Buffer | string, options?: SdkWriteOptions): Promise<void>;
+  deleteFile(path: string): Promise<void>;
+  executeCode(code: string): Promise<SdkExecutionResult>;
+  getDeviceInfo(): Promise<SdkDeviceInfo>;
+  isOnline(): Promise<boolean>;
+  setWifiConfig(ssid: string, password: string): Promise<void>;
+  on(event: 'disconnect', listener: () => void): this;
+  on(event: 'busy', listener: (busy: boolean) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+export interface SdkClient {
+  connect(port: string): Promise<SdkConnection>;
+  disconnect(port: string): Promise<void>;
+  listPorts(): Promise<SdkPortInfo[]>;
+  getConnection(port: string): SdkConnection | null;
+}
+
+interface SdkClientOptions {
+  timeout?: number;
+  autoReconnect?: boolean;
+  maxRetries?: number;
+}
+
+// mpy-sdk opens every port with these settings, connect takes none
+export const SDK_SERIAL_SETTINGS: SerialSettings = {
+  baudRate: 115200,
+  dataBits: 8,
+  parity: 'none',
+  rtscts: false,
+};
+
+interface SdkModule {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  M5StackClient: new (options?: SdkClientOptions) => SdkClient;
+}
+
+/**
+ * mpy-sdk is the packages/mpy-sdk git submodule, only loaded once the backend is used
+ */
+export const loadSdkClient = (): SdkClient => {
+  let sdk: SdkModule;
+  try {
+    sdk = require('../../packages/mpy-sdk/src');
+  } catch (e) {
+    throw new SerialError(
+      'The mpy-sdk backend needs the packages/mpy-sdk submodule, run "git submodule update --init".'
+    );
+  }
+  // the legacy backend reconnects to devices coming back as well
+  return new sdk.M5StackClient({ autoReconnect: true });
+};
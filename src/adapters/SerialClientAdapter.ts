@@ -1,73 +1,234 @@
 /**
  * Adapter for integrating @hirossan4049/mpy-sdk with VS Code extension
- * 
+ *
  * Provides backward compatibility with existing SerialManager interface
  * while using the new unified library underneath.
  */
 
-// TODO: Enable when SDK is ready
-// import { M5StackClient, Connection } from '../../packages/mpy-sdk/src';
-import { PortInfo } from '@serialport/bindings-interface';
+import { parseStat, statCode } from '../serial/DirectoryEntry';
+import { SerialCancelledError, SerialError, SerialUploadError } from '../serial/errors';
+import { checkOutput, hashDirCode, mkdirCode, parseHashes, renameCode, rmdirCode } from '../serial/FileHash';
+import { fileSizeCode, parseFileSize, parseStorageUsage, statvfsCode } from '../serial/FileSize';
+import { writeFileCode } from '../serial/RawRepl';
+import { SerialBackend } from '../serial/SerialBackend';
+import { MAX_CHUNK_LENGTH } from '../serial/SerialManager';
+import {
+  CancellationToken,
+  COMMAND_CODES,
+  ConnectionState,
+  DEFAULT_UPLOAD_RETRIES,
+  defaultOpts,
+  DeviceInfo,
+  DirectoryEntry,
+  ExecResult,
+  SerialSettings,
+  StorageUsage,
+  UploadOptions,
+  UploadProgress,
+  WifiNetwork,
+} from '../serial/types';
+import { parseWifiScan, WIFI_SCAN_CODE } from '../serial/Wifi';
+import { errorMessage } from '../utils/errors';
+import { loadSdkClient, SDK_SERIAL_SETTINGS, SdkClient, SdkConnection } from './MpySdk';
+
+type Listener<T> = (com: string, value: T) => void;
 
 /**
  * Legacy-compatible Serial Manager using the new library
  */
-class SerialClientAdapter {
-  // TODO: Enable when SDK is ready
-  // private client: M5StackClient;
-  // private connections: Map<string, Connection> = new Map();
+class SerialClientAdapter implements SerialBackend {
+  private client: SdkClient | undefined;
+  private connections: Map<string, SdkConnection> = new Map();
+  private states: Map<string, ConnectionState> = new Map();
+  private infos: Map<string, DeviceInfo> = new Map();
+  private stateListeners: Listener<ConnectionState>[] = [];
+  private queueListeners: Listener<number>[] = [];
+
+  /**
+   * @param createClient Client of mpy-sdk, tests give one driving simulated devices
+   */
+  constructor(private readonly createClient: () => SdkClient = loadSdkClient) {}
+
+  /**
+   * Connect to device (legacy interface), mpy-sdk splits uploads itself so the pipeline depth is ignored.
+   * mpy-sdk opens ports with its own serial settings, other ones are refused rather than ignored.
+   */
+  connect(com: string, openedCb: (err: unknown) => void, settings?: SerialSettings): void {
+    this._connect(com, settings).then(
+      () => openedCb(null),
+      (err) => openedCb(err)
+    );
+  }
+
+  async _connect(com: string, settings: SerialSettings = defaultOpts) {
+    if (settings.transport === 'rawRepl') {
+      throw new SerialError('The raw REPL needs the legacy backend.');
+    }
+    const { baudRate, dataBits, parity, rtscts, dtr, rts } = settings;
+    if (
+      baudRate !== SDK_SERIAL_SETTINGS.baudRate ||
+      dataBits !== SDK_SERIAL_SETTINGS.dataBits ||
+      parity !== SDK_SERIAL_SETTINGS.parity ||
+      rtscts !== SDK_SERIAL_SETTINGS.rtscts ||
+      dtr !== undefined ||
+      rts !== undefined
+    ) {
+      throw new SerialError(
+        `mpy-sdk opens ports at ${SDK_SERIAL_SETTINGS.baudRate} baud 8N1, other serial settings need the legacy backend.`
+      );
+    }
+    this.client = this.client ?? this.createClient();
+    const connection = await this.client.connect(com);
+    this.connections.set(com, connection);
+    connection.on('disconnect', () => this.setState(com, 'disconnected'));
+    connection.on('busy', (busy) => this.queueListeners.forEach((listener) => listener(com, busy ? 1 : 0)));
+    connection.on('error', (error) => console.log(`[SerialClientAdapter] ${com}`, error.message));
+    this.setState(com, 'connected');
+  }
+
+  connectWebRepl(id: string, password: string, openedCb: (err: unknown) => void): void {
+    openedCb(new SerialError('WebREPL devices need the legacy backend.'));
+  }
+
+  has(com: string): boolean {
+    return this.connections.has(com);
+  }
+
+  onStateChange(listener: Listener<ConnectionState>): { dispose(): void } {
+    this.stateListeners.push(listener);
+    return {
+      dispose: () => {
+        this.stateListeners = this.stateListeners.filter((l) => l !== listener);
+      },
+    };
+  }
 
-  constructor() {
-    // TODO: Enable when SDK is ready
-    console.log('[SerialClientAdapter] Placeholder - SDK integration pending');
+  state(com: string): ConnectionState {
+    return this.states.get(com) ?? 'disconnected';
+  }
+
+  private setState(com: string, state: ConnectionState) {
+    if (this.states.get(com) === state) {
+      return;
+    }
+    this.states.set(com, state);
+    this.stateListeners.forEach((listener) => listener(com, state));
+  }
+
+  /**
+   * mpy-sdk queues commands internally and only tells whether the device is busy
+   */
+  onQueueChange(listener: Listener<number>): { dispose(): void } {
+    this.queueListeners.push(listener);
+    return {
+      dispose: () => {
+        this.queueListeners = this.queueListeners.filter((l) => l !== listener);
+      },
+    };
+  }
+
+  queueDepth(com: string): number {
+    return this.isBusy(com) ? 1 : 0;
   }
 
   /**
-   * Connect to device (legacy interface)
+   * Check if device is busy (legacy interface)
    */
-  connect(com: string, openedCb: (err: unknown) => void): void {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] Connect to ${com} - placeholder`);
-    openedCb(new Error('SDK integration pending'));
+  isBusy(com: string): boolean {
+    return this.connections.get(com)?.isBusy ?? false;
+  }
+
+  async ping(com: string): Promise<boolean> {
+    try {
+      return await this.connection(com).isOnline();
+    } catch (e) {
+      return false;
+    }
+  }
+
+  async getInfo(com: string): Promise<DeviceInfo> {
+    const { version, platform } = await this.connection(com).getDeviceInfo();
+    const info = { firmware: version, board: platform, raw: `${version},${platform}` };
+    this.infos.set(com, info);
+    return info;
+  }
+
+  deviceInfo(com: string): DeviceInfo | undefined {
+    return this.infos.get(com);
   }
 
   /**
-   * Execute Python code (legacy interface)
+   * Execute Python code (legacy interface), output and traceback as the exec command answers.
+   * Only for the snippets of the extension, whose output is parsed, Run goes through execute.
    */
   async exec(com: string, code: string): Promise<Buffer> {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] Execute code on ${com} - placeholder`);
-    throw new Error('SDK integration pending');
+    const { output, error } = await this.connection(com).executeCode(code);
+    const answer = `${output}${error ?? ''}`;
+    return Buffer.from(answer || 'done');
+  }
+
+  async execute(com: string, code: string): Promise<ExecResult> {
+    const { output, error, exitCode } = await this.connection(com).executeCode(code);
+    return {
+      output: Buffer.from(output),
+      error: error?.trim() || (exitCode ? `The code exited with ${exitCode}.` : ''),
+    };
   }
 
   /**
    * List directory contents (legacy interface)
    */
-  async listDir(com: string, dirname: string): Promise<Buffer> {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] List directory ${dirname} on ${com} - placeholder`);
-    throw new Error('SDK integration pending');
+  async listDir(com: string, dirname: string): Promise<DirectoryEntry[]> {
+    const entries = await this.connection(com).listDirectory(dirname);
+    return entries.map(({ name, type, size, lastModified }) => ({
+      name,
+      type,
+      size: size ?? 0,
+      mtime: lastModified ? lastModified.getTime() : 0,
+    }));
+  }
+
+  async stat(com: string, filepath: string): Promise<DirectoryEntry | null | undefined> {
+    const name = filepath.split('/').slice(-1)[0];
+    return parseStat(name, await this.exec(com, statCode(filepath)));
   }
 
   /**
-   * Check if device is busy (legacy interface)
+   * mpy-sdk has no checksums, files are hashed by python code as SerialManager does
    */
-  isBusy(com: string): boolean {
-    // TODO: Implement with SDK when ready
-    return false;
+  async hashDir(com: string, dirname: string): Promise<Map<string, string>> {
+    const hashes = parseHashes(await this.exec(com, hashDirCode(dirname)));
+    if (!hashes) {
+      throw new SerialError(`The firmware of ${com} does not return the output of python code.`);
+    }
+    return hashes;
+  }
+
+  async mkdir(com: string, dirname: string): Promise<void> {
+    checkOutput(await this.exec(com, mkdirCode(dirname)));
+  }
+
+  async rename(com: string, from: string, to: string): Promise<void> {
+    checkOutput(await this.exec(com, renameCode(from, to)));
+  }
+
+  async rmdir(com: string, dirname: string): Promise<void> {
+    checkOutput(await this.exec(com, rmdirCode(dirname)));
+  }
+
+  async statvfs(com: string, mountpoint: string): Promise<StorageUsage | undefined> {
+    return parseStorageUsage(await this.exec(com, statvfsCode(mountpoint)));
   }
 
   /**
    * Read file from device (legacy interface)
    */
   async readFile(com: string, filename: string): Promise<Buffer> {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] Read file ${filename} from ${com} - placeholder`);
-    throw new Error('SDK integration pending');
+    return this.connection(com).readFile(filename);
   }
 
   /**
-   * Upload file using legacy download interface
+   * Upload file using legacy download interface, flag 0x01 overwrites the file and 0x00 appends to it
    */
   async download(
     com: string,
@@ -76,50 +237,156 @@ class SerialClientAdapter {
     flag: number,
     isBinary?: boolean
   ): Promise<Buffer> {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] Download ${filename} to ${com} - placeholder`);
-    throw new Error('SDK integration pending');
+    const data = isBinary ? (content as Buffer) : Buffer.from(content);
+    if (flag === 0x00) {
+      // mpy-sdk only writes whole files
+      const output = await this.exec(com, writeFileCode(filename, data, flag));
+      if (output.toString() !== 'done') {
+        throw new SerialError(`An error occurred while saving ${filename}: ${output.toString()}`);
+      }
+    } else {
+      await this.connection(com).writeFile(filename, data, { encoding: 'binary' });
+    }
+    return Buffer.from('done');
   }
 
   /**
-   * Bulk download with progress (legacy interface)
+   * Bulk download with progress (legacy interface), mpy-sdk splits the transfer. Like SerialManager,
+   * a failed transfer resumes from the size of the file on the device up to `options.retries`
+   * times, and a failed or cancelled upload is rejected with a SerialUploadError.
    */
   async bulkDownload(
     com: string,
     filename: string,
     content: string | Buffer,
     isBinary: boolean,
-    progressCb: (chunkIndex: number) => void
+    progressCb: (progress: UploadProgress) => void,
+    token?: CancellationToken,
+    options: UploadOptions = {}
   ): Promise<Buffer> {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] Bulk download ${filename} to ${com} - placeholder`);
-    throw new Error('SDK integration pending');
+    const data = isBinary ? (content as Buffer) : Buffer.from(content);
+    const retries = options.retries ?? DEFAULT_UPLOAD_RETRIES;
+    const startedAt = Date.now();
+    let written = 0;
+    let transferred = 0;
+    const onWritten = (offset: number) => {
+      transferred += offset - written;
+      written = offset;
+      const elapsed = (Date.now() - startedAt) / 1000;
+      progressCb({
+        sent: written,
+        total: data.length,
+        bytesPerSecond: elapsed > 0 ? transferred / elapsed : 0,
+      });
+      // mpy-sdk has no cancellation, stop the transfer on its next progress
+      if (token?.isCancellationRequested) {
+        throw new SerialCancelledError(COMMAND_CODES.downloadFile);
+      }
+    };
+
+    if (options.resumeFrom) {
+      written = (await this.resumeOffset(com, filename, options.resumeFrom)) ?? 0;
+    }
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (token?.isCancellationRequested) {
+          throw new SerialCancelledError(COMMAND_CODES.downloadFile);
+        }
+        await this.transfer(com, filename, data, written, onWritten);
+        return Buffer.from('done');
+      } catch (e) {
+        if (token?.isCancellationRequested) {
+          throw new SerialUploadError(
+            filename,
+            written,
+            data.length,
+            new SerialCancelledError(COMMAND_CODES.downloadFile)
+          );
+        }
+        // nothing written means the previous file may still be there, start over
+        const offset = written > 0 ? await this.resumeOffset(com, filename, written) : 0;
+        if (attempt >= retries || offset === undefined) {
+          throw new SerialUploadError(filename, offset ?? written, data.length, e);
+        }
+        console.log(`retrying upload of ${filename} from ${offset}`, errorMessage(e));
+        written = offset;
+      }
+    }
+  }
+
+  /**
+   * Write the whole file with mpy-sdk, or append the content from `offset` with python code
+   */
+  private async transfer(
+    com: string,
+    filename: string,
+    data: Buffer,
+    offset: number,
+    onWritten: (offset: number) => void
+  ) {
+    if (offset === 0) {
+      await this.connection(com).writeFile(filename, data, {
+        encoding: 'binary',
+        onProgress: (bytesWritten) => onWritten(bytesWritten),
+      });
+      return;
+    }
+    for (let start = offset; start < data.length; start += MAX_CHUNK_LENGTH) {
+      const chunk = data.slice(start, start + MAX_CHUNK_LENGTH);
+      await this.download(com, filename, chunk, 0x00, true);
+      onWritten(start + chunk.length);
+    }
+  }
+
+  /**
+   * `written` when the file on the device has this size, 0 to start over when it has anything
+   * else, undefined when the device does not answer
+   */
+  private async resumeOffset(com: string, filename: string, written: number): Promise<number | undefined> {
+    try {
+      return parseFileSize(await this.exec(com, fileSizeCode(filename))) === written ? written : 0;
+    } catch (e) {
+      return undefined;
+    }
   }
 
   /**
    * Remove file (legacy interface)
    */
   async removeFile(com: string, filename: string): Promise<Buffer> {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] Remove file ${filename} from ${com} - placeholder`);
-    throw new Error('SDK integration pending');
+    await this.connection(com).deleteFile(filename);
+    return Buffer.from('done');
+  }
+
+  async setWifi(com: string, ssid: string, password: string): Promise<Buffer> {
+    await this.connection(com).setWifiConfig(ssid, password);
+    return Buffer.from('done');
+  }
+
+  async scanWifi(com: string): Promise<WifiNetwork[]> {
+    return parseWifiScan(await this.exec(com, WIFI_SCAN_CODE));
   }
 
   /**
    * Disconnect from device (legacy interface)
    */
   disconnect(com: string): void {
-    // TODO: Implement with SDK when ready
-    console.log(`[SerialClientAdapter] Disconnect from ${com} - placeholder`);
+    if (!this.connections.has(com)) {
+      return;
+    }
+    this.connections.delete(com);
+    this.infos.delete(com);
+    this.setState(com, 'disconnected');
+    this.states.delete(com);
+    this.client?.disconnect(com).catch((error) => console.log('Error while disconecting', error));
   }
 
-  /**
-   * Get available ports (static method for compatibility)
-   */
-  static async getCOMs(): Promise<PortInfo[]> {
-    // TODO: Implement with SDK when ready
-    console.log('[SerialClientAdapter] Get COMs - placeholder');
-    return [];
+  private connection(com: string): SdkConnection {
+    const connection = this.connections.get(com);
+    if (!connection) {
+      throw new SerialError(`${com} is not connected.`);
+    }
+    return connection;
   }
 }
 
@@ -127,4 +394,4 @@ class SerialClientAdapter {
 export default new SerialClientAdapter();
 
 // Also export the class for testing
-export { SerialClientAdapter };
\ No newline at end of file
+export { SerialClientAdapter };
@@ -2,7 +2,15 @@ import * as vscode from 'vscode';
 import { endProvider, startProvider } from './providers/completion/M5CompletionProvider';
 import { hoverProvider } from './providers/hover/M5HoverProvider';
 import M5FileSystemProvider, { DOCUMENT_URI_SCHEME } from './providers/M5FileSystemProvider';
+import deviceFolders from './ui/DeviceFolders';
+import deviceSelection from './ui/DeviceSelection';
+import fileDownload from './ui/FileDownload';
 import portList from './ui/PortList';
+import protocolTrace from './ui/ProtocolTraceChannel';
+import webReplDevices from './ui/WebReplDevices';
+import watchMode from './ui/WatchMode';
+import wifiConfig from './ui/WifiConfig';
+import workspaceSync from './ui/WorkspaceSync';
 
 // Extensions code samples
 // https://github.com/microsoft/vscode-extension-samples
@@ -10,14 +18,27 @@ import portList from './ui/PortList';
 export function activate(context: vscode.ExtensionContext) {
   console.log('Extension "vscode-m5stack-mpy" is now active!');
 
+  wifiConfig.init(context.secrets);
+  webReplDevices.init(context.secrets);
+
   const selectPorts = () => portList.selectPorts();
   const openFile = (port: string, filepath: string) => portList.readFile(port, filepath);
   const refreshTree = () => portList.refreshTree();
   const createFile = (ev: any) => portList.create(ev);
-  const removeFile = (ev: any) => portList.remove(ev);
+  const removeFile = (ev: any, selected?: any[]) => deviceSelection.remove(ev, selected);
+  const renameFile = (ev: any) => portList.rename(ev);
+  const createFolder = (ev: any) => deviceFolders.create(ev);
+  const deleteFolder = (ev: any, selected?: any[]) => deviceSelection.remove(ev, selected);
   const uploadFile = (ev: any) => portList.upload(ev);
+  const downloadFile = (ev: any, selected?: any[]) => fileDownload.download(ev, selected);
+  const addToWorkspace = (ev: any) => portList.addToWorkspace(ev);
   const resetDevice = (ev: any) => portList.reset();
-  const run = () => portList.run();
+  const run = (ev: any, selected?: any[]) => deviceSelection.run(ev, selected);
+  const configureWifi = (ev: any) => wifiConfig.configure(ev.com);
+  const pushWorkspace = (ev: any) => workspaceSync.push(ev);
+  const pullWorkspace = (ev: any) => workspaceSync.pull(ev);
+  const toggleWatch = (ev: any) => watchMode.toggle(ev);
+  const exportTrace = () => protocolTrace.exportSession();
 
   context.subscriptions.push(
     vscode.commands.registerCommand('vscode-m5stack-mpyreader.selectPorts', selectPorts, context),
@@ -26,8 +47,19 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('extension.reset.device', resetDevice, context),
     vscode.commands.registerCommand('m5stack.addEntry', createFile, context),
     vscode.commands.registerCommand('m5stack.deleteEntry', removeFile, context),
+    vscode.commands.registerCommand('m5stack.renameEntry', renameFile, context),
+    vscode.commands.registerCommand('m5stack.createFolder', createFolder, context),
+    vscode.commands.registerCommand('m5stack.deleteFolder', deleteFolder, context),
     vscode.commands.registerCommand('m5stack.itemUpload', uploadFile, context),
+    vscode.commands.registerCommand('m5stack.itemDownload', downloadFile, context),
+    vscode.commands.registerCommand('m5stack.addToWorkspace', addToWorkspace, context),
     vscode.commands.registerCommand('m5stack.itemRun', run, context),
+    vscode.commands.registerCommand('m5stack.configureWifi', configureWifi, context),
+    vscode.commands.registerCommand('m5stack.syncPush', pushWorkspace, context),
+    vscode.commands.registerCommand('m5stack.syncPull', pullWorkspace, context),
+    vscode.commands.registerCommand('m5stack.toggleWatch', toggleWatch, context),
+    vscode.commands.registerCommand('m5stack.exportTrace', exportTrace, context),
+    protocolTrace.init(),
     vscode.workspace.registerFileSystemProvider(DOCUMENT_URI_SCHEME, M5FileSystemProvider),
     startProvider,
     endProvider,
@@ -35,4 +67,6 @@ export function activate(context: vscode.ExtensionContext) {
   );
 }
 
-export function deactivate() {}
+export function deactivate() {
+  watchMode.stop();
+}
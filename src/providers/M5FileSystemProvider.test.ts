@@ -1,36 +1,280 @@
 import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
+import { DirectoryEntry } from '../serial/types';
 import M5FileSystemProvider from './M5FileSystemProvider';
 
 jest.mock('../serial/SerialManager', () => ({
-  readFile: () => Promise.resolve(Buffer.from('done')),
+  bulkDownload: jest.fn(() => Promise.resolve(Buffer.from('done'))),
+  listDir: jest.fn(),
+  mkdir: jest.fn(),
+  readFile: jest.fn(() => Promise.resolve(Buffer.from('done'))),
+  removeFile: jest.fn(() => Promise.resolve(Buffer.from('done'))),
+  rename: jest.fn(),
+  rmdir: jest.fn(),
+  stat: jest.fn(),
 }));
 
+const file = (name: string, size = 4): DirectoryEntry => ({ name, type: 'file', size, mtime: 0 });
+const directory = (name: string): DirectoryEntry => ({ name, type: 'directory', size: 0, mtime: 0 });
+
 describe('M5FileSystemProvider', () => {
+  let changes: vscode.FileChangeEvent[] = [];
+  M5FileSystemProvider.onDidChangeFile((events) => changes.push(...events));
+
   beforeEach(() => {
     jest.clearAllMocks();
+    changes = [];
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'withProgress').mockImplementation((options, task) =>
+      // @ts-ignore
+      task({ report: jest.fn() }, { isCancellationRequested: false })
+    );
+  });
+
+  describe('stat', () => {
+    test('should stat device files', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue({ ...file('main.py', 12), mtime: 1000 });
+
+      // ACT
+      const stat = await M5FileSystemProvider.stat(vscode.Uri.file('/device/flash/main.py'));
+
+      // ASSERT
+      expect(SerialManager.stat).toHaveBeenCalledWith('/dev/device', '/flash/main.py');
+      expect(stat).toStrictEqual({ type: vscode.FileType.File, ctime: 1000, mtime: 1000, size: 12 });
+    });
+
+    test('should report missing files', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(undefined);
+
+      // ACT
+      const error = await M5FileSystemProvider.stat(vscode.Uri.file('/device/flash/missing.py')).catch(
+        (e) => e
+      );
+
+      // ASSERT
+      expect(error.code).toBe('FileNotFound');
+    });
+  });
+
+  describe('readDirectory', () => {
+    test('should list the entries of a device folder', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'listDir').mockResolvedValue([file('main.py'), directory('lib')]);
+
+      // ACT
+      const entries = await M5FileSystemProvider.readDirectory(vscode.Uri.file('/device/flash'));
+
+      // ASSERT
+      expect(entries).toStrictEqual([
+        ['main.py', vscode.FileType.File],
+        ['lib', vscode.FileType.Directory],
+      ]);
+    });
+  });
+
+  describe('readFile', () => {
+    test('should read binary content byte for byte once', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(file('data.bin'));
+      jest.spyOn(SerialManager, 'readFile').mockResolvedValue(Buffer.from([0x89, 0xff, 0x00, 0xc3]));
+      const uri = vscode.Uri.file('/device/flash/data.bin');
+
+      // ACT
+      await M5FileSystemProvider.readFile(uri);
+      const content = await M5FileSystemProvider.readFile(uri);
+
+      // ASSERT
+      expect(content).toStrictEqual(Uint8Array.from([0x89, 0xff, 0x00, 0xc3]));
+      expect(SerialManager.readFile).toHaveBeenCalledTimes(1);
+    });
+
+    test('should read files changed on the device again', async () => {
+      // ARRANGE
+      jest
+        .spyOn(SerialManager, 'stat')
+        .mockResolvedValueOnce({ ...file('main.py', 5), mtime: 1000 })
+        .mockResolvedValue({ ...file('main.py', 5), mtime: 2000 });
+      jest
+        .spyOn(SerialManager, 'readFile')
+        .mockResolvedValueOnce(Buffer.from('x = 1'))
+        .mockResolvedValue(Buffer.from('x = 2'));
+      const uri = vscode.Uri.file('/device/flash/main.py');
+      M5FileSystemProvider.removeCache(uri.path);
+
+      // ACT
+      await M5FileSystemProvider.readFile(uri);
+      const content = await M5FileSystemProvider.readFile(uri);
+
+      // ASSERT
+      expect(content).toStrictEqual(Uint8Array.from(Buffer.from('x = 2')));
+      expect(SerialManager.readFile).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not read folders', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(directory('lib'));
+
+      // ACT
+      const error = await M5FileSystemProvider.readFile(vscode.Uri.file('/device/flash/lib')).catch((e) => e);
+
+      // ASSERT
+      expect(error.code).toBe('FileIsADirectory');
+    });
   });
 
   describe('writeFile', () => {
-    test('should handle caching file content', async () => {
+    test('should upload new files', async () => {
+      // ARRANGE
+      jest
+        .spyOn(SerialManager, 'stat')
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValue(file('python.py', 11));
+      const uri = vscode.Uri.file('/device/flash/python.py');
+
+      // ACT
+      await M5FileSystemProvider.writeFile(uri, Buffer.from('python code'), {
+        create: true,
+        overwrite: false,
+      });
+
+      // ASSERT
+      // @ts-ignore
+      const [port, filepath, content] = (SerialManager.bulkDownload as jest.Mock).mock.calls[0];
+      expect([port, filepath, content.toString()]).toStrictEqual([
+        '/dev/device',
+        '/flash/python.py',
+        'python code',
+      ]);
+      expect(changes).toStrictEqual([{ type: vscode.FileChangeType.Created, uri }]);
+      expect(await M5FileSystemProvider.readFile(uri)).toStrictEqual(
+        Uint8Array.from(Buffer.from('python code'))
+      );
+      expect(SerialManager.readFile).not.toHaveBeenCalled();
+    });
+
+    test('should not overwrite existing files unless asked to', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(file('main.py'));
+      const uri = vscode.Uri.file('/device/flash/main.py');
+
+      // ACT
+      const error = await M5FileSystemProvider.writeFile(uri, Buffer.from('x = 1'), {
+        create: true,
+        overwrite: false,
+      }).catch((e) => e);
+
+      // ASSERT
+      expect(error.code).toBe('FileExists');
+      expect(SerialManager.bulkDownload).not.toHaveBeenCalled();
+    });
+
+    test('should report failed uploads', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(file('main.py'));
+      jest
+        .spyOn(SerialManager, 'bulkDownload')
+        .mockImplementationOnce(() => Promise.reject(new Error('OSError: 28')));
+
+      // ACT
+      const error = await M5FileSystemProvider.writeFile(
+        vscode.Uri.file('/device/flash/main.py'),
+        Buffer.from(''),
+        {
+          create: true,
+          overwrite: true,
+        }
+      ).catch((e) => e);
+
+      // ASSERT
+      expect(error.code).toBe('Unavailable');
+      expect(changes).toStrictEqual([]);
+    });
+  });
+
+  describe('delete', () => {
+    test('should delete folders recursively', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(directory('lib'));
+      jest
+        .spyOn(SerialManager, 'listDir')
+        .mockResolvedValueOnce([file('a.py'), directory('sub')])
+        .mockResolvedValueOnce([file('b.py')]);
+      const uri = vscode.Uri.file('/device/flash/lib');
+
+      // ACT
+      await M5FileSystemProvider.delete(uri, { recursive: true });
+
+      // ASSERT
+      expect(SerialManager.removeFile).toHaveBeenCalledWith('/dev/device', '/flash/lib/a.py');
+      expect(SerialManager.removeFile).toHaveBeenCalledWith('/dev/device', '/flash/lib/sub/b.py');
+      // @ts-ignore
+      expect((SerialManager.rmdir as jest.Mock).mock.calls).toEqual([
+        ['/dev/device', '/flash/lib/sub'],
+        ['/dev/device', '/flash/lib'],
+      ]);
+      expect(changes).toStrictEqual([{ type: vscode.FileChangeType.Deleted, uri }]);
+    });
+
+    test('should not delete folders with content without recursive', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(directory('lib'));
+      jest.spyOn(SerialManager, 'listDir').mockResolvedValueOnce([file('a.py')]);
+
       // ACT
-      const uri = vscode.Uri.file('/dev/device/flash/python.py');
-      await M5FileSystemProvider.writeFile(uri);
-      const fileContent = M5FileSystemProvider.readFile(uri);
+      const error = await M5FileSystemProvider.delete(vscode.Uri.file('/device/flash/lib'), {
+        recursive: false,
+      }).catch((e) => e);
 
       // ASSERT
-      expect(fileContent).toStrictEqual(Uint8Array.from([100, 111, 110, 101]));
+      expect(error.code).toBe('NoPermissions');
+      expect(SerialManager.removeFile).not.toHaveBeenCalled();
     });
   });
 
-  describe('saveFile', () => {
-    test('should handle saving edited file', async () => {
+  describe('rename', () => {
+    test('should rename on the device and keep the cached content', async () => {
+      // ARRANGE
+      jest
+        .spyOn(SerialManager, 'stat')
+        .mockResolvedValueOnce(file('test.py'))
+        .mockResolvedValueOnce(file('test.py'))
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValue(file('main2.py'));
+      jest.spyOn(SerialManager, 'readFile').mockResolvedValue(Buffer.from('x = 1'));
+      const oldUri = vscode.Uri.file('/device/flash/test.py');
+      const newUri = vscode.Uri.file('/device/flash/main2.py');
+      M5FileSystemProvider.removeCache(oldUri.path);
+      await M5FileSystemProvider.readFile(oldUri);
+      changes = [];
+
+      // ACT
+      await M5FileSystemProvider.rename(oldUri, newUri, { overwrite: false });
+
+      // ASSERT
+      expect(SerialManager.rename).toHaveBeenCalledWith('/dev/device', '/flash/test.py', '/flash/main2.py');
+      expect(changes).toStrictEqual([
+        { type: vscode.FileChangeType.Deleted, uri: oldUri },
+        { type: vscode.FileChangeType.Created, uri: newUri },
+      ]);
+      expect(await M5FileSystemProvider.readFile(newUri)).toStrictEqual(
+        Uint8Array.from(Buffer.from('x = 1'))
+      );
+      expect(SerialManager.readFile).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not move files between devices', async () => {
       // ACT
-      const uri = vscode.Uri.file('/dev/device/flash/python.py');
-      await M5FileSystemProvider.saveFile(uri, 'python code');
-      const spyWithProgress = jest.spyOn(vscode.window, 'withProgress');
+      const error = await M5FileSystemProvider.rename(
+        vscode.Uri.file('/device/flash/main.py'),
+        vscode.Uri.file('/other/flash/main.py'),
+        { overwrite: false }
+      ).catch((e) => e);
 
       // ASSERT
-      expect(spyWithProgress).toHaveBeenCalled();
+      expect(error.code).toBe('NoPermissions');
+      expect(SerialManager.rename).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,11 +1,56 @@
 import * as vscode from 'vscode';
-import SerialManager, { MAX_CHUNK_LENGTH } from '../serial/SerialManager';
-import { getSerialPortAndFileFromUri } from '../utils/vscode';
+import { SerialUploadError } from '../serial/errors';
+import Backend from '../adapters/Backend';
+import { DirectoryEntry } from '../serial/types';
+import { errorMessage } from '../utils/errors';
+import { recoverUpload } from '../ui/UploadRecovery';
+import { getSerialPortAndFileFromUri, getUploadOptions, reportUpload } from '../utils/vscode';
 
 export const DOCUMENT_URI_SCHEME = 'm5stackfs';
 
+/**
+ * Uri of a file on the device `port`, the reverse of getSerialPortAndFileFromUri
+ */
+export const toDeviceUri = (port: string, filepath: string): vscode.Uri =>
+  vscode.Uri.parse(`${DOCUMENT_URI_SCHEME}:/${port}${filepath}`);
+
+/**
+ * FileSystemError matching a failed device operation, like the python errors of the firmware
+ */
+const toFileSystemError = (e: unknown, uri: vscode.Uri): vscode.FileSystemError => {
+  if (e instanceof vscode.FileSystemError) {
+    return e;
+  }
+  const message = errorMessage(e);
+  if (/\bENOENT\b|\[Errno 2\]/.test(message)) {
+    return vscode.FileSystemError.FileNotFound(uri);
+  }
+  if (/\bEEXIST\b|\[Errno 17\]/.test(message)) {
+    return vscode.FileSystemError.FileExists(uri);
+  }
+  return vscode.FileSystemError.Unavailable(`${uri.path}: ${message}`);
+};
+
+// content of a file with the entry of the device it was read or written as
+type CachedFile = {
+  content: Buffer;
+  entry: DirectoryEntry;
+};
+
+// whether a file is still the one cached, other uploads and runs write to the device as well
+const isUnchanged = (cached: DirectoryEntry, entry: DirectoryEntry) =>
+  cached.size === entry.size && cached.mtime === entry.mtime;
+
+const toFileType = (entry: DirectoryEntry) =>
+  entry.type === 'directory' ? vscode.FileType.Directory : vscode.FileType.File;
+
+/**
+ * Files of the connected devices under m5stackfs:/<port>/<path>, so device folders can be opened
+ * in the editor and added to the workspace
+ */
 class M5FileSystemProvider implements vscode.FileSystemProvider {
-  private files: any = {};
+  // content of the files read or written, by uri path
+  private files: Map<string, CachedFile> = new Map();
   private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
   constructor(private readonly platform: NodeJS.Platform) {
     this.platform = process.platform;
@@ -13,85 +58,264 @@ class M5FileSystemProvider implements vscode.FileSystemProvider {
 
   readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
 
-  readFile(uri: vscode.Uri) {
-    return new Uint8Array(this.files[uri.path]);
-  }
-
   watch(): vscode.Disposable {
-    // ignore, fires for all changes...
+    // devices do not notify changes, the ones made through the provider are fired by it
     return new vscode.Disposable(() => {});
   }
 
-  stat(uri: vscode.Uri): vscode.FileStat {
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
+    if (filepath === '/') {
+      return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+    }
+    const entry = await this._find(uri, port, filepath);
+    if (!entry) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
     return {
-      type: 0,
-      ctime: 0,
-      mtime: Date.now(),
-      size: 0,
+      type: toFileType(entry),
+      ctime: entry.mtime,
+      mtime: entry.mtime,
+      size: entry.size,
     };
   }
 
-  createDirectory(uri: vscode.Uri): void {}
-
-  readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
-    return [];
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
+    try {
+      const entries = await Backend.get(port).listDir(port, filepath);
+      return entries.map((entry) => [entry.name, toFileType(entry)]);
+    } catch (e) {
+      throw toFileSystemError(e, uri);
+    }
   }
 
-  async writeFile(uri: vscode.Uri) {
-    await this._writeFile(uri);
+  async createDirectory(uri: vscode.Uri) {
+    const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
+    if (await this._find(uri, port, filepath)) {
+      throw vscode.FileSystemError.FileExists(uri);
+    }
+    try {
+      await Backend.get(port).mkdir(port, filepath);
+    } catch (e) {
+      throw toFileSystemError(e, uri);
+    }
+    this._emitter.fire([{ type: vscode.FileChangeType.Created, uri }]);
   }
 
-  async _writeFile(uri: vscode.Uri) {
-    if (!this.files[uri.path]) {
-      const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
-      const text = (await SerialManager.readFile(port, filepath)).toString();
-      if (text === undefined) {
-        vscode.window.showErrorMessage(`Open ${filepath} failed.`);
-        return;
-      }
-      this.files[uri.path] = Buffer.from(text);
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
+    // read without checking it first when the firmware does not tell
+    const entry = await this._stat(uri, port, filepath);
+    if (entry === undefined) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    if (entry?.type === 'directory') {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
+    const cached = this.files.get(uri.path);
+    if (cached && entry && isUnchanged(cached.entry, entry)) {
+      return new Uint8Array(cached.content);
+    }
+    try {
+      // kept as read, decoding it would corrupt binary files
+      const content = await Backend.get(port).readFile(port, filepath);
+      this._cache(uri.path, content, entry);
+      return new Uint8Array(content);
+    } catch (e) {
+      throw toFileSystemError(e, uri);
     }
   }
 
-  rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): void {}
-
-  delete(uri: vscode.Uri): void {}
-
-  async saveFile(uri: vscode.Uri, text: string): Promise<number> {
+  async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }) {
+    const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
+    // written without checking it first when the firmware does not tell
+    const entry = await this._stat(uri, port, filepath);
+    if (entry?.type === 'directory') {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
+    if (entry === undefined && !options.create) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    if (entry && options.create && !options.overwrite) {
+      throw vscode.FileSystemError.FileExists(uri);
+    }
+    const data = Buffer.from(content);
+    await this._upload(uri, port, filepath, data);
+    // the device sets the modification time of the written file
+    let written: DirectoryEntry | null | undefined;
     try {
-      this.files[uri.path] = Buffer.from(text);
-      const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
-
-      const numChunks = Math.ceil(text.length / MAX_CHUNK_LENGTH);
-      const increment = +(100 / numChunks).toFixed(2);
+      written = await Backend.get(port).stat(port, filepath);
+    } catch (e) {
+      written = undefined;
+    }
+    this._cache(uri.path, data, written);
+    this._emitter.fire([
+      { type: entry === undefined ? vscode.FileChangeType.Created : vscode.FileChangeType.Changed, uri },
+    ]);
+  }
 
-      return await vscode.window.withProgress(
+  async _upload(uri: vscode.Uri, port: string, filepath: string, content: Buffer, resumeFrom?: number) {
+    const filename = filepath.split('/').slice(-1)[0];
+    try {
+      await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          cancellable: false,
-          title: 'Saving code',
+          cancellable: true,
+          title: `Saving '${filename}'`,
         },
-        async (progress) => {
+        async (progress, token) => {
           progress.report({ increment: 0 });
+          await Backend.get(port).bulkDownload(
+            port,
+            filepath,
+            content,
+            true,
+            reportUpload(progress),
+            token,
+            getUploadOptions(resumeFrom)
+          );
+        }
+      );
+    } catch (e) {
+      console.log('Error while saving', errorMessage(e));
+      if (e instanceof SerialUploadError) {
+        let resumed = false;
+        await recoverUpload(port, e, async (offset) => {
+          await this._upload(uri, port, filepath, content, offset);
+          resumed = true;
+        });
+        if (resumed) {
+          return;
+        }
+      }
+      throw toFileSystemError(e, uri);
+    }
+  }
 
-          let r = await SerialManager.bulkDownload(port, filepath, text, false, () => {
-            progress.report({ increment });
-          });
+  async delete(uri: vscode.Uri, options: { recursive: boolean }) {
+    const { port, filepath } = getSerialPortAndFileFromUri(uri, this.platform);
+    const entry = await this._find(uri, port, filepath);
+    if (!entry) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    try {
+      if (entry.type === 'directory') {
+        await this._deleteDirectory(port, filepath, options.recursive);
+      } else {
+        await Backend.get(port).removeFile(port, filepath);
+      }
+    } catch (e) {
+      throw toFileSystemError(e, uri);
+    }
+    this._forget(uri.path);
+    this._emitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+  }
 
-          if (r.toString().indexOf('done') >= 0) {
-            progress.report({ increment: 100 });
-          }
+  async _deleteDirectory(port: string, dirname: string, recursive: boolean) {
+    const backend = Backend.get(port);
+    const entries = await backend.listDir(port, dirname);
+    if (entries.length && !recursive) {
+      throw vscode.FileSystemError.NoPermissions(`${dirname} is not empty`);
+    }
+    for (const entry of entries) {
+      const entryPath = `${dirname.replace(/\/$/, '')}/${entry.name}`;
+      if (entry.type === 'directory') {
+        await this._deleteDirectory(port, entryPath, recursive);
+      } else {
+        await backend.removeFile(port, entryPath);
+      }
+    }
+    await backend.rmdir(port, dirname);
+  }
 
-          return 1;
-        }
-      );
-    } catch (e: any) {
-      console.log('Error while saving', e.toString());
-      return 0;
+  async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }) {
+    const from = getSerialPortAndFileFromUri(oldUri, this.platform);
+    const to = getSerialPortAndFileFromUri(newUri, this.platform);
+    if (from.port !== to.port) {
+      throw vscode.FileSystemError.NoPermissions('Files cannot be moved between devices');
+    }
+    if (!(await this._find(oldUri, from.port, from.filepath))) {
+      throw vscode.FileSystemError.FileNotFound(oldUri);
+    }
+    if (await this._find(newUri, to.port, to.filepath)) {
+      if (!options.overwrite) {
+        throw vscode.FileSystemError.FileExists(newUri);
+      }
+      await this.delete(newUri, { recursive: true });
+    }
+    try {
+      await Backend.get(from.port).rename(from.port, from.filepath, to.filepath);
+    } catch (e) {
+      throw toFileSystemError(e, oldUri);
     }
+    this._move(oldUri.path, newUri.path);
+    this._emitter.fire([
+      { type: vscode.FileChangeType.Deleted, uri: oldUri },
+      { type: vscode.FileChangeType.Created, uri: newUri },
+    ]);
   }
+
+  async _stat(uri: vscode.Uri, port: string, filepath: string): Promise<DirectoryEntry | null | undefined> {
+    try {
+      return await Backend.get(port).stat(port, filepath);
+    } catch (e) {
+      throw toFileSystemError(e, uri);
+    }
+  }
+
+  /**
+   * Entry of a file, from the listing of its parent when the firmware does not return the output
+   * of python code: the type is then guessed from the name, without size nor modification time
+   */
+  async _find(uri: vscode.Uri, port: string, filepath: string): Promise<DirectoryEntry | undefined> {
+    const entry = await this._stat(uri, port, filepath);
+    if (entry !== null) {
+      return entry;
+    }
+    const index = filepath.lastIndexOf('/');
+    const name = filepath.slice(index + 1);
+    // the mount points are not listed
+    if (index <= 0) {
+      return { name, type: 'directory', size: 0, mtime: 0 };
+    }
+    try {
+      const entries = await Backend.get(port).listDir(port, filepath.slice(0, index));
+      return entries.find((listed) => listed.name === name);
+    } catch (e) {
+      throw toFileSystemError(e, uri);
+    }
+  }
+
+  // content cached as long as the device tells its entry, read again otherwise
+  _cache(uriPath: string, content: Buffer, entry: DirectoryEntry | null | undefined) {
+    if (entry) {
+      this.files.set(uriPath, { content, entry });
+    } else {
+      this.files.delete(uriPath);
+    }
+  }
+
+  // drop the cached content of a file or of the files of a directory
+  _forget(uriPath: string) {
+    Array.from(this.files.keys())
+      .filter((key) => key === uriPath || key.startsWith(`${uriPath}/`))
+      .forEach((key) => this.files.delete(key));
+  }
+
+  // keep the cached content of moved files
+  _move(oldPath: string, newPath: string) {
+    Array.from(this.files.entries())
+      .filter(([key]) => key === oldPath || key.startsWith(`${oldPath}/`))
+      .forEach(([key, cached]) => {
+        this.files.delete(key);
+        this.files.set(`${newPath}${key.slice(oldPath.length)}`, cached);
+      });
+  }
+
+  // drop the cached content of a file, or of the files of a folder, changed on the device
   removeCache(key: string) {
-    delete this.files[key];
+    this._forget(key);
   }
 }
 
@@ -0,0 +1,105 @@
+import CommandQueue from './CommandQueue';
+import { COMMAND_PRIORITY } from './types';
+
+const deferred = () => {
+  let resolve: (value: Buffer) => void = () => {};
+  const promise = new Promise<Buffer>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+describe('CommandQueue', () => {
+  test('should run commands one at a time in order', async () => {
+    // ARRANGE
+    const queue = new CommandQueue();
+    const calls: string[] = [];
+    const first = deferred();
+
+    // ACT
+    const p1 = queue.push(() => {
+      calls.push('first');
+      return first.promise;
+    });
+    const p2 = queue.push(() => {
+      calls.push('second');
+      return Promise.resolve(Buffer.from('second'));
+    });
+
+    // ASSERT
+    expect(calls).toStrictEqual(['first']);
+    first.resolve(Buffer.from('first'));
+    expect(await p1).toStrictEqual(Buffer.from('first'));
+    expect(await p2).toStrictEqual(Buffer.from('second'));
+    expect(calls).toStrictEqual(['first', 'second']);
+  });
+
+  test('should let high priority commands jump the queue', async () => {
+    // ARRANGE
+    const queue = new CommandQueue();
+    const calls: string[] = [];
+    const running = deferred();
+    const command = (name: string) => () => {
+      calls.push(name);
+      return Promise.resolve(Buffer.from(name));
+    };
+
+    // ACT
+    queue.push(() => running.promise);
+    const p1 = queue.push(command('listDir'));
+    const p2 = queue.push(command('readFile'));
+    const p3 = queue.push(command('reset'), COMMAND_PRIORITY.high);
+    running.resolve(Buffer.from(''));
+    await Promise.all([p1, p2, p3]);
+
+    // ASSERT
+    expect(calls).toStrictEqual(['reset', 'listDir', 'readFile']);
+  });
+
+  test('should report queue depth', async () => {
+    // ARRANGE
+    const depths: number[] = [];
+    const queue = new CommandQueue((depth) => depths.push(depth));
+    const running = deferred();
+
+    // ACT
+    const p1 = queue.push(() => running.promise);
+    const p2 = queue.push(() => Promise.resolve(Buffer.from('')));
+    const depthWhileRunning = queue.depth;
+    running.resolve(Buffer.from(''));
+    await Promise.all([p1, p2]);
+
+    // ASSERT
+    expect(depthWhileRunning).toBe(2);
+    expect(queue.depth).toBe(0);
+    expect(depths[depths.length - 1]).toBe(0);
+  });
+
+  test('should keep processing after a command fails', async () => {
+    // ARRANGE
+    const queue = new CommandQueue();
+
+    // ACT
+    const p1 = queue.push(() => Promise.reject(new Error('failed')));
+    const p2 = queue.push(() => Promise.resolve(Buffer.from('done')));
+
+    // ASSERT
+    await expect(p1).rejects.toBeInstanceOf(Error);
+    expect(await p2).toStrictEqual(Buffer.from('done'));
+  });
+
+  test('should reject pending commands when cleared', async () => {
+    // ARRANGE
+    const queue = new CommandQueue();
+    const running = deferred();
+    queue.push(() => running.promise);
+    const pending = queue.push(() => Promise.resolve(Buffer.from('done')));
+
+    // ACT
+    queue.clear(new Error('closed'));
+
+    // ASSERT
+    await expect(pending).rejects.toBeInstanceOf(Error);
+    expect(queue.depth).toBe(1);
+  });
+});
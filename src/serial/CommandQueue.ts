@@ -0,0 +1,75 @@
+import { COMMAND_PRIORITY } from './types';
+
+type QueuedCommand = {
+  run: () => Promise<any>;
+  priority: number;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+};
+
+/**
+ * FIFO of commands waiting for the device, processed one at a time.
+ * Commands with a higher priority are placed ahead of lower ones,
+ * keeping insertion order among commands of the same priority.
+ */
+class CommandQueue {
+  private pending: QueuedCommand[] = [];
+  private running: boolean = false;
+
+  constructor(private readonly onChange: (depth: number) => void = () => {}) {}
+
+  /**
+   * Number of commands waiting or in progress
+   */
+  get depth(): number {
+    return this.pending.length + (this.running ? 1 : 0);
+  }
+
+  push<T = Buffer>(run: () => Promise<T>, priority: number = COMMAND_PRIORITY.normal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const command = { run, priority, resolve, reject };
+      const index = this.pending.findIndex((queued) => queued.priority < priority);
+      if (index < 0) {
+        this.pending.push(command);
+      } else {
+        this.pending.splice(index, 0, command);
+      }
+      this.onChange(this.depth);
+      this.next();
+    });
+  }
+
+  /**
+   * Reject every command that has not started yet
+   */
+  clear(reason: any): void {
+    const dropped = this.pending;
+    this.pending = [];
+    dropped.forEach((command) => command.reject(reason));
+    this.onChange(this.depth);
+  }
+
+  private async next() {
+    if (this.running) {
+      return;
+    }
+    const command = this.pending.shift();
+    if (!command) {
+      return;
+    }
+
+    this.running = true;
+    this.onChange(this.depth);
+    try {
+      command.resolve(await command.run());
+    } catch (e) {
+      command.reject(e);
+    } finally {
+      this.running = false;
+      this.onChange(this.depth);
+      this.next();
+    }
+  }
+}
+
+export default CommandQueue;
@@ -1,4 +1,4 @@
-import Crc, { FOOT_DATA, HEAD_DATA } from './Crc';
+import Crc from './Crc';
 
 describe('Crc', () => {
   beforeEach(() => {
@@ -30,28 +30,4 @@ describe('Crc', () => {
       expect(value).toStrictEqual(Buffer.from([109, 121, 100, 97, 116, 97, 106, 61]));
     });
   });
-
-  describe('checkReceiveCompleted', () => {
-    test('should return valid received buffer', () => {
-      // ARRANGE
-      const bytes = Buffer.concat([Buffer.from(HEAD_DATA), Buffer.from('mydata'), Buffer.from(FOOT_DATA)]);
-
-      // ACT
-      const value = Crc.checkReceiveCompleted(bytes);
-
-      // ASSERT
-      expect(value).toStrictEqual(true);
-    });
-
-    test('should return invalid received buffer', () => {
-      // ARRANGE
-      const bytes = Buffer.concat([Buffer.from('mydata'), Buffer.from(FOOT_DATA)]);
-
-      // ACT
-      const value = Crc.checkReceiveCompleted(bytes);
-
-      // ASSERT
-      expect(value).toStrictEqual(false);
-    });
-  });
 });
@@ -35,12 +35,6 @@ class Crc {
     return Buffer.concat([data, Buffer.from([crcResult >> 8, crcResult & 0x00ff])]);
   }
 
-  checkReceiveCompleted(buffer: Buffer): boolean {
-    const headBuf = Buffer.from(HEAD_DATA);
-    const footBuf = Buffer.from(FOOT_DATA);
-    return headBuf.compare(buffer.slice(0, 3)) === 0 && footBuf.compare(buffer.slice(-3)) === 0;
-  }
-
   createDataBuffer(commandCode: number, data: string) {
     return Buffer.concat([Buffer.from([commandCode]), Buffer.from(data)]);
   }
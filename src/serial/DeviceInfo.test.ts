@@ -0,0 +1,48 @@
+import { describeDevice, parseDeviceInfo } from './DeviceInfo';
+
+describe('DeviceInfo', () => {
+  describe('parseDeviceInfo', () => {
+    test('should parse comma separated info', () => {
+      // ACT
+      const info = parseDeviceInfo(Buffer.from('v1.7.5,M5Stack-Core\n'));
+
+      // ASSERT
+      expect(info).toStrictEqual({ firmware: 'v1.7.5', board: 'M5Stack-Core', raw: 'v1.7.5,M5Stack-Core' });
+    });
+
+    test('should parse JSON info', () => {
+      // ACT
+      const info = parseDeviceInfo(Buffer.from('{"version": "v1.9.0", "board": "M5StickC"}'));
+
+      // ASSERT
+      expect(info.firmware).toBe('v1.9.0');
+      expect(info.board).toBe('M5StickC');
+    });
+
+    test('should keep missing fields empty', () => {
+      // ACT
+      const info = parseDeviceInfo(Buffer.from('v1.7.5'));
+
+      // ASSERT
+      expect(info).toStrictEqual({ firmware: 'v1.7.5', board: '', raw: 'v1.7.5' });
+    });
+  });
+
+  describe('describeDevice', () => {
+    test('should describe device with board and firmware', () => {
+      // ACT
+      const description = describeDevice({ firmware: 'v1.7.5', board: 'M5Stack-Core', raw: '' });
+
+      // ASSERT
+      expect(description).toBe('M5Stack-Core v1.7.5');
+    });
+
+    test('should describe unknown device as empty', () => {
+      // ACT
+      const description = describeDevice(undefined);
+
+      // ASSERT
+      expect(description).toBe('');
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { DeviceInfo } from './types';
+
+/**
+ * Parse the getInfo response. Firmwares answer either with a JSON object
+ * or with comma separated "firmware,board" values.
+ */
+export const parseDeviceInfo = (payload: Buffer): DeviceInfo => {
+  const raw = payload.toString().trim();
+  try {
+    const json = JSON.parse(raw);
+    if (json && typeof json === 'object') {
+      return {
+        firmware: `${json.firmware ?? json.version ?? ''}`,
+        board: `${json.board ?? json.model ?? json.name ?? ''}`,
+        raw,
+      };
+    }
+  } catch (e) {
+    // not JSON, fallback to comma separated values
+  }
+  const [firmware = '', board = ''] = raw.split(',').map((value) => value.trim());
+  return { firmware, board, raw };
+};
+
+export const describeDevice = (info?: DeviceInfo): string => {
+  if (!info) {
+    return '';
+  }
+  return [info.board, info.firmware].filter((value) => !!value).join(' ');
+};
@@ -0,0 +1,83 @@
+import { parseListing, parseNames, parseStat } from './DirectoryEntry';
+import { SerialError } from './errors';
+
+describe('DirectoryEntry', () => {
+  describe('parseListing', () => {
+    test('should parse entries with their type, size and modification time', () => {
+      // ACT
+      const entries = parseListing(
+        Buffer.from('16384 0 0 v1.2\r\n32768 1024 700000000 my file, v2.py\r\n#end\r\n')
+      );
+
+      // ASSERT
+      expect(entries).toStrictEqual([
+        { name: 'v1.2', type: 'directory', size: 0, mtime: 946684800000 },
+        { name: 'my file, v2.py', type: 'file', size: 1024, mtime: 1646684800000 },
+      ]);
+    });
+
+    test('should parse an empty directory', () => {
+      // ACT
+      const entries = parseListing(Buffer.from('#end\r\n'));
+
+      // ASSERT
+      expect(entries).toStrictEqual([]);
+    });
+
+    test('should not parse the answer of firmwares without exec output', () => {
+      // ACT
+      const entries = parseListing(Buffer.from('done'));
+
+      // ASSERT
+      expect(entries).toBe(undefined);
+    });
+
+    test('should raise the python error', () => {
+      // ACT
+      const parse = () =>
+        parseListing(Buffer.from('Traceback (most recent call last):\r\nOSError: [Errno 2] ENOENT\r\n'));
+
+      // ASSERT
+      expect(parse).toThrow(new SerialError('OSError: [Errno 2] ENOENT'));
+    });
+  });
+
+  describe('parseStat', () => {
+    test('should parse a file', () => {
+      // ACT
+      const entry = parseStat('LICENSE', Buffer.from('32768 3 0\r\n'));
+
+      // ASSERT
+      expect(entry).toStrictEqual({ name: 'LICENSE', type: 'file', size: 3, mtime: 946684800000 });
+    });
+
+    test('should not find a missing file', () => {
+      // ACT
+      const entry = parseStat('missing.py', Buffer.from('-1\r\n'));
+
+      // ASSERT
+      expect(entry).toBe(undefined);
+    });
+
+    test('should not know the entry of firmwares without exec output', () => {
+      // ACT
+      const entry = parseStat('main.py', Buffer.from('done'));
+
+      // ASSERT
+      expect(entry).toBe(null);
+    });
+  });
+
+  describe('parseNames', () => {
+    test('should guess types from the names of the listDir command', () => {
+      // ACT
+      const entries = parseNames(Buffer.from('res,main.py'));
+
+      // ASSERT
+      expect(entries.map(({ name, type }) => [name, type])).toStrictEqual([
+        ['res', 'directory'],
+        ['main.py', 'file'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { SerialError } from './errors';
+import { toDevicePath } from './FileSize';
+import { DirectoryEntry } from './types';
+
+// Printed once the listing is complete, firmwares not returning the exec output answer 'done'
+export const LISTING_END = '#end';
+
+// MicroPython stat mode of directories
+const S_IFDIR = 0x4000;
+
+// MicroPython timestamps count seconds from 2000-01-01
+const EPOCH_OFFSET = 946684800;
+
+/**
+ * Python code printing one "mode size mtime name" line per entry of a directory,
+ * the name comes last so it may contain spaces or commas
+ */
+export const listDirCode = (dirname: string): string =>
+  [
+    'import os',
+    `d = ${JSON.stringify(toDevicePath(dirname))}`,
+    'for e in os.ilistdir(d):',
+    "    s = os.stat(d.rstrip('/') + '/' + e[0])",
+    "    print('%d %d %d %s' % (s[0], s[6], s[8], e[0]))",
+    `print('${LISTING_END}')`,
+  ].join('\n');
+
+/**
+ * Python code printing "mode size mtime" of a file or directory, -1 when it does not exist
+ */
+export const statCode = (filepath: string): string =>
+  [
+    'import os',
+    'try:',
+    `    s = os.stat(${JSON.stringify(toDevicePath(filepath))})`,
+    "    print('%d %d %d' % (s[0], s[6], s[8]))",
+    'except OSError:',
+    '    print(-1)',
+  ].join('\n');
+
+const toEntry = (name: string, mode: string, size: string, mtime: string): DirectoryEntry => ({
+  name,
+  type: parseInt(mode, 10) & S_IFDIR ? 'directory' : 'file',
+  size: parseInt(size, 10),
+  mtime: (parseInt(mtime, 10) + EPOCH_OFFSET) * 1000,
+});
+
+// Last line of a python traceback, like "OSError: [Errno 2] ENOENT"
+export const describeFailure = (output: string): string => output.trim().split(/\r?\n/).slice(-1)[0];
+
+/**
+ * Parse the output of listDirCode, undefined when the firmware did not return it
+ */
+export const parseListing = (output: Buffer): DirectoryEntry[] | undefined => {
+  const text = output.toString();
+  if (text.indexOf('Traceback') > -1) {
+    throw new SerialError(describeFailure(text));
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines.indexOf(LISTING_END) < 0) {
+    return undefined;
+  }
+  const entries: DirectoryEntry[] = [];
+  lines.forEach((line) => {
+    const match = /^(\d+) (\d+) (-?\d+) (.+)$/.exec(line);
+    if (match) {
+      entries.push(toEntry(match[4], match[1], match[2], match[3]));
+    }
+  });
+  return entries;
+};
+
+/**
+ * Parse the output of statCode, undefined when the file does not exist and null when the firmware
+ * did not return it
+ */
+export const parseStat = (name: string, output: Buffer): DirectoryEntry | null | undefined => {
+  const text = output.toString();
+  if (text === 'done') {
+    return null;
+  }
+  const match = /^\s*(\d+) (\d+) (-?\d+)\s*$/.exec(text);
+  if (match) {
+    return toEntry(name, match[1], match[2], match[3]);
+  }
+  if (/^\s*-1\s*$/.test(text)) {
+    return undefined;
+  }
+  throw new SerialError(`Unexpected stat of ${name}: ${describeFailure(text)}`);
+};
+
+/**
+ * Entries of the comma separated listDir command answer, used when exec output is not available.
+ * Only names are known: anything with an extension is taken for a file.
+ */
+export const parseNames = (payload: Buffer): DirectoryEntry[] =>
+  payload
+    .toString()
+    .split(',')
+    .filter((name) => !!name)
+    .map((name) => ({ name, type: name.indexOf('.') > -1 ? 'file' : 'directory', size: 0, mtime: 0 }));
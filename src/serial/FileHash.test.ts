@@ -0,0 +1,78 @@
+import { SerialError } from './errors';
+import { checkOutput, hashDirCode, mkdirCode, parseHashes, renameCode } from './FileHash';
+
+const SHA256_A = 'ca978112ca1bbdcafac231b39a23dc4da786eff8147c4e72b9807785afee48bb';
+const SHA256_B = '3e23e8160039594a33894f6564e1b1348bbd7a0088d42c4acb73eeaed59c009d';
+
+describe('FileHash', () => {
+  describe('hashDirCode', () => {
+    test('should hash files under the device path', () => {
+      // ACT
+      const code = hashDirCode('lib');
+
+      // ASSERT
+      expect(code.indexOf('d = "/flash/lib"') > -1).toBe(true);
+      expect(code.indexOf('import uhashlib as hashlib') > -1).toBe(true);
+    });
+  });
+
+  describe('parseHashes', () => {
+    test('should parse the hash of each file by relative path', () => {
+      // ACT
+      const hashes = parseHashes(
+        Buffer.from(`${SHA256_A} main.py\r\n${SHA256_B} lib/my module.py\r\n#end\r\n`)
+      );
+
+      // ASSERT
+      expect(Array.from(hashes!.entries())).toStrictEqual([
+        ['main.py', SHA256_A],
+        ['lib/my module.py', SHA256_B],
+      ]);
+    });
+
+    test('should not parse the answer of firmwares without exec output', () => {
+      // ASSERT
+      expect(parseHashes(Buffer.from('done'))).toBe(undefined);
+    });
+
+    test('should raise the python error', () => {
+      // ACT
+      const parse = () =>
+        parseHashes(Buffer.from('Traceback (most recent call last):\r\nOSError: [Errno 5] EIO\r\n'));
+
+      // ASSERT
+      expect(parse).toThrow(SerialError);
+      expect(parse).toThrow('OSError: [Errno 5] EIO');
+    });
+  });
+
+  describe('mkdirCode', () => {
+    test('should create the missing parents', () => {
+      // ACT
+      const code = mkdirCode('/flash/lib/sensors');
+
+      // ASSERT
+      expect(code.indexOf(`for n in "/flash/lib/sensors".split('/'):`) > -1).toBe(true);
+    });
+  });
+
+  describe('renameCode', () => {
+    test('should rename from and to device paths', () => {
+      // ACT
+      const code = renameCode('test.py', '/flash/lib/main.py');
+
+      // ASSERT
+      expect(code.indexOf('os.rename("/flash/test.py", "/flash/lib/main.py")') > -1).toBe(true);
+    });
+  });
+
+  describe('checkOutput', () => {
+    test('should raise the python error only', () => {
+      // ASSERT
+      expect(() => checkOutput(Buffer.from('done'))).not.toThrow();
+      expect(() => checkOutput(Buffer.from('Traceback (most recent call last):\r\nOSError: 28\r\n'))).toThrow(
+        'OSError: 28'
+      );
+    });
+  });
+});
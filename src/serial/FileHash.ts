@@ -0,0 +1,107 @@
+import { SerialError } from './errors';
+import { describeFailure, LISTING_END } from './DirectoryEntry';
+import { toDevicePath } from './FileSize';
+
+// Hashing every file of the flash takes a while on the device
+export const HASH_TIMEOUT = 60000;
+
+/**
+ * Python code printing one "sha256 path" line per file under a directory, paths relative to it.
+ * Nothing is printed but the end marker when the directory does not exist.
+ */
+export const hashDirCode = (dirname: string): string =>
+  [
+    'import os',
+    'import ubinascii',
+    'try:',
+    '    import hashlib',
+    'except ImportError:',
+    '    import uhashlib as hashlib',
+    'def h(d, r):',
+    '    for e in os.ilistdir(d):',
+    "        p = d.rstrip('/') + '/' + e[0]",
+    '        if e[1] & 0x4000:',
+    "            h(p, r + e[0] + '/')",
+    '            continue',
+    '        s = hashlib.sha256()',
+    "        with open(p, 'rb') as f:",
+    '            while True:',
+    '                b = f.read(512)',
+    '                if not b:',
+    '                    break',
+    '                s.update(b)',
+    "        print(ubinascii.hexlify(s.digest()).decode() + ' ' + r + e[0])",
+    `d = ${JSON.stringify(toDevicePath(dirname))}`,
+    'try:',
+    '    os.stat(d)',
+    "    h(d, '')",
+    'except OSError as e:',
+    '    if e.args[0] != 2:',
+    '        raise',
+    `print('${LISTING_END}')`,
+  ].join('\n');
+
+/**
+ * Python code creating a directory and its missing parents
+ */
+export const mkdirCode = (dirname: string): string =>
+  [
+    'import os',
+    "p = ''",
+    `for n in ${JSON.stringify(toDevicePath(dirname))}.split('/'):`,
+    '    if not n:',
+    '        continue',
+    "    p += '/' + n",
+    '    try:',
+    '        os.mkdir(p)',
+    '    except OSError as e:',
+    '        if e.args[0] != 17:',
+    '            raise',
+  ].join('\n');
+
+/**
+ * Python code renaming or moving a file or directory
+ */
+export const renameCode = (from: string, to: string): string =>
+  ['import os', `os.rename(${JSON.stringify(toDevicePath(from))}, ${JSON.stringify(toDevicePath(to))})`].join(
+    '\n'
+  );
+
+/**
+ * Python code removing an empty directory
+ */
+export const rmdirCode = (dirname: string): string =>
+  ['import os', `os.rmdir(${JSON.stringify(toDevicePath(dirname))})`].join('\n');
+
+/**
+ * Parse the output of hashDirCode into the sha256 of each file by relative path,
+ * undefined when the firmware did not return it
+ */
+export const parseHashes = (output: Buffer): Map<string, string> | undefined => {
+  const text = output.toString();
+  if (text.indexOf('Traceback') > -1) {
+    throw new SerialError(describeFailure(text));
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines.indexOf(LISTING_END) < 0) {
+    return undefined;
+  }
+  const hashes = new Map<string, string>();
+  lines.forEach((line) => {
+    const match = /^([0-9a-f]{64}) (.+)$/.exec(line);
+    if (match) {
+      hashes.set(match[2], match[1]);
+    }
+  });
+  return hashes;
+};
+
+/**
+ * Throw the python error of a command printing nothing when it succeeds
+ */
+export const checkOutput = (output: Buffer) => {
+  const text = output.toString();
+  if (text.indexOf('Traceback') > -1) {
+    throw new SerialError(describeFailure(text));
+  }
+};
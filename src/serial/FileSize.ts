@@ -0,0 +1,48 @@
+import { StorageUsage } from './types';
+
+// Relative paths are resolved from /flash by the firmware
+export const toDevicePath = (filename: string): string =>
+  filename.startsWith('/') ? filename : `/flash/${filename}`;
+
+/**
+ * Python code printing the size of a file, -1 when it does not exist
+ */
+export const fileSizeCode = (filename: string): string =>
+  [
+    'import os',
+    'try:',
+    `    print(os.stat(${JSON.stringify(toDevicePath(filename))})[6])`,
+    'except OSError:',
+    '    print(-1)',
+  ].join('\n');
+
+/**
+ * Python code printing the total and free bytes of the file system mounted on a path,
+ * -1 when nothing is mounted there
+ */
+export const statvfsCode = (mountpoint: string): string =>
+  [
+    'import os',
+    'try:',
+    `    s = os.statvfs(${JSON.stringify(toDevicePath(mountpoint))})`,
+    "    print('%d %d' % (s[1] * s[2], s[1] * s[4]))",
+    'except OSError:',
+    '    print(-1)',
+  ].join('\n');
+
+/**
+ * Parse the output of fileSizeCode, undefined when it is not a size
+ */
+export const parseFileSize = (output: Buffer): number | undefined => {
+  const match = /^\s*(-?\d+)\s*$/.exec(output.toString());
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+/**
+ * Parse the output of statvfsCode, undefined when nothing is mounted or the firmware did not
+ * return it
+ */
+export const parseStorageUsage = (output: Buffer): StorageUsage | undefined => {
+  const match = /^\s*(\d+) (\d+)\s*$/.exec(output.toString());
+  return match ? { total: parseInt(match[1], 10), free: parseInt(match[2], 10) } : undefined;
+};
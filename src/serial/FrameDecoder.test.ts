@@ -0,0 +1,240 @@
+import { FOOT_DATA, HEAD_DATA } from './Crc';
+import { SerialFrameError } from './errors';
+import FrameDecoder, { encodeFrame } from './FrameDecoder';
+import { Frame } from './types';
+
+const buildDecoder = () => {
+  const frames: Frame[] = [];
+  const errors: SerialFrameError[] = [];
+  const decoder = new FrameDecoder(
+    (frame) => frames.push(frame),
+    (error) => errors.push(error)
+  );
+  return { decoder, frames, errors };
+};
+
+describe('FrameDecoder', () => {
+  describe('encodeFrame', () => {
+    test('should wrap status and payload between header and footer', () => {
+      // ACT
+      const frame = encodeFrame(0x00, Buffer.from('done'));
+
+      // ASSERT
+      expect(frame.slice(0, 3)).toStrictEqual(Buffer.from(HEAD_DATA));
+      expect(frame.slice(3, 9)).toStrictEqual(Buffer.from([0x05, 0x00, 100, 111, 110, 101]));
+      expect(frame.slice(-3)).toStrictEqual(Buffer.from(FOOT_DATA));
+      expect(frame.length).toBe(14);
+    });
+  });
+
+  describe('push', () => {
+    test('should decode a complete frame', () => {
+      // ARRANGE
+      const { decoder, frames, errors } = buildDecoder();
+
+      // ACT
+      decoder.push(encodeFrame(0x00, Buffer.from('boot.py,main.py')));
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x00, payload: Buffer.from('boot.py,main.py') }]);
+      expect(errors.length).toBe(0);
+    });
+
+    test('should decode a frame with empty payload', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+
+      // ACT
+      decoder.push(encodeFrame(0x01, Buffer.from([])));
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x01, payload: Buffer.from([]) }]);
+    });
+
+    test('should decode a frame split across chunks', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+      const frame = encodeFrame(0x00, Buffer.from('print("hello")'));
+
+      // ACT
+      for (let i = 0; i < frame.length; i++) {
+        decoder.push(frame.slice(i, i + 1));
+      }
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x00, payload: Buffer.from('print("hello")') }]);
+    });
+
+    test('should decode frames merged in one chunk', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+
+      // ACT
+      decoder.push(
+        Buffer.concat([encodeFrame(0x00, Buffer.from('one')), encodeFrame(0x00, Buffer.from('two'))])
+      );
+
+      // ASSERT
+      expect(frames.map((f) => f.payload.toString())).toStrictEqual(['one', 'two']);
+    });
+
+    test('should skip garbage before the header', () => {
+      // ARRANGE
+      const { decoder, frames, errors } = buildDecoder();
+      const bootLog = Buffer.from('ets Jun  8 2016 00:22:57\r\nrst:0x1 (POWERON_RESET)\r\n');
+
+      // ACT
+      decoder.push(Buffer.concat([bootLog, encodeFrame(0x00, Buffer.from('done'))]));
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x00, payload: Buffer.from('done') }]);
+      expect(errors.length).toBe(0);
+    });
+
+    test('should find a header split between garbage chunks', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+      const frame = encodeFrame(0x00, Buffer.from('done'));
+
+      // ACT
+      decoder.push(Buffer.concat([Buffer.from('garbage'), frame.slice(0, 2)]));
+      decoder.push(frame.slice(2));
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x00, payload: Buffer.from('done') }]);
+    });
+
+    test('should not end a frame on footer bytes within the payload', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+      const payload = Buffer.concat([Buffer.from('data'), Buffer.from(FOOT_DATA)]);
+
+      // ACT
+      decoder.push(encodeFrame(0x00, payload));
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x00, payload }]);
+    });
+
+    test('should wait for the real footer when payload holds footer bytes', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+      const payload = Buffer.concat([Buffer.from(FOOT_DATA), Buffer.from('rest')]);
+      const frame = encodeFrame(0x00, payload);
+
+      // ACT
+      decoder.push(frame.slice(0, 8));
+      const framesBeforeEnd = frames.length;
+      decoder.push(frame.slice(8));
+
+      // ASSERT
+      expect(framesBeforeEnd).toBe(0);
+      expect(frames).toStrictEqual([{ status: 0x00, payload }]);
+    });
+
+    test('should skip footer bytes failing the CRC within payloads longer than the length field', () => {
+      // ARRANGE
+      const { decoder, frames, errors } = buildDecoder();
+      // LEN matches at the footer bytes, 256 bytes before the end of the payload
+      const payload = Buffer.alloc(300, 0x61);
+      Buffer.from(FOOT_DATA).copy(payload, 300 + 2 - 256);
+      const frame = encodeFrame(0x00, payload);
+
+      // ACT
+      decoder.push(frame);
+      decoder.push(frame.slice(0, 100));
+      decoder.push(frame.slice(100));
+
+      // ASSERT
+      expect(errors.length).toBe(0);
+      expect(frames).toStrictEqual([
+        { status: 0x00, payload },
+        { status: 0x00, payload },
+      ]);
+    });
+
+    test('should decode payloads longer than the length field', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+      const payload = Buffer.alloc(1000, 0x61);
+
+      // ACT
+      decoder.push(encodeFrame(0x00, payload));
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x00, payload }]);
+    });
+
+    test('should report a frame with an invalid CRC', () => {
+      // ARRANGE
+      const { decoder, frames, errors } = buildDecoder();
+      const frame = encodeFrame(0x00, Buffer.from('done'));
+      frame[frame.length - 4] ^= 0xff;
+
+      // ACT
+      decoder.push(frame);
+
+      // ASSERT
+      expect(frames.length).toBe(0);
+      expect(errors.length).toBe(1);
+      expect(errors[0]).toBeInstanceOf(SerialFrameError);
+    });
+
+    test('should report a frame with a corrupted payload', () => {
+      // ARRANGE
+      const { decoder, frames, errors } = buildDecoder();
+      const frame = encodeFrame(0x00, Buffer.from('done'));
+      frame[6] = 0x00;
+
+      // ACT
+      decoder.push(frame);
+
+      // ASSERT
+      expect(frames.length).toBe(0);
+      expect(errors.length).toBe(1);
+    });
+
+    test('should recover after a corrupted frame', () => {
+      // ARRANGE
+      const { decoder, frames, errors } = buildDecoder();
+      const corrupted = encodeFrame(0x00, Buffer.from('bad'));
+      corrupted[5] ^= 0xff;
+
+      // ACT
+      decoder.push(Buffer.concat([corrupted, encodeFrame(0x00, Buffer.from('good'))]));
+
+      // ASSERT
+      expect(errors.length).toBe(1);
+      expect(frames).toStrictEqual([{ status: 0x00, payload: Buffer.from('good') }]);
+    });
+
+    test('should resynchronise when a frame is cut short', () => {
+      // ARRANGE
+      const { decoder, frames, errors } = buildDecoder();
+      const truncated = encodeFrame(0x00, Buffer.from('truncated payload')).slice(0, 12);
+
+      // ACT
+      decoder.push(truncated);
+      decoder.push(encodeFrame(0x00, Buffer.from('done')));
+
+      // ASSERT
+      expect(errors.length).toBe(1);
+      expect(frames).toStrictEqual([{ status: 0x00, payload: Buffer.from('done') }]);
+    });
+
+    test('should drop pending bytes on reset', () => {
+      // ARRANGE
+      const { decoder, frames } = buildDecoder();
+      const stale = encodeFrame(0x00, Buffer.from('stale'));
+
+      // ACT
+      decoder.push(stale.slice(0, 8));
+      decoder.reset();
+      decoder.push(stale.slice(8));
+      decoder.push(encodeFrame(0x00, Buffer.from('fresh')));
+
+      // ASSERT
+      expect(frames).toStrictEqual([{ status: 0x00, payload: Buffer.from('fresh') }]);
+    });
+  });
+});
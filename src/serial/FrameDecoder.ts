@@ -0,0 +1,128 @@
+import Crc, { FOOT_DATA, HEAD_DATA } from './Crc';
+import { SerialFrameError } from './errors';
+import { Frame } from './types';
+
+const HEAD_BUF = Buffer.from(HEAD_DATA);
+const FOOT_BUF = Buffer.from(FOOT_DATA);
+
+// [HEADER: 3] [LEN: 1] [STATUS: 1] [PAYLOAD] [CRC: 2] [FOOTER: 3]
+const LEN_OFFSET = HEAD_DATA.length;
+const STATUS_OFFSET = LEN_OFFSET + 1;
+const PAYLOAD_OFFSET = STATUS_OFFSET + 1;
+const CRC_LENGTH = 2;
+
+type FrameEnd = {
+  end: number;
+  frame?: Frame;
+};
+
+/**
+ * Build a response frame as sent by the device.
+ * LEN holds the status and payload length on a single byte and
+ * the CRC16 covers everything between the header and the CRC itself.
+ */
+export const encodeFrame = (status: number, payload: Buffer): Buffer => {
+  const body = Buffer.concat([Buffer.from([(payload.length + 1) & 0xff, status]), payload]);
+  const crc = Crc.crc16(body, body.length);
+  return Buffer.concat([HEAD_BUF, body, Buffer.from([crc >> 8, crc & 0x00ff]), FOOT_BUF]);
+};
+
+/**
+ * Streaming parser turning serial chunks into frames.
+ * Bytes before a header are dropped, a frame may span several chunks and
+ * a chunk may hold several frames.
+ */
+class FrameDecoder {
+  private buffer: Buffer = Buffer.from([]);
+
+  constructor(
+    private readonly onFrame: (frame: Frame) => void,
+    private readonly onError: (error: SerialFrameError) => void
+  ) {}
+
+  push(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.decodeNext()) {}
+  }
+
+  reset(): void {
+    this.buffer = Buffer.from([]);
+  }
+
+  private decodeNext(): boolean {
+    const start = this.buffer.indexOf(HEAD_BUF);
+    if (start < 0) {
+      // keep what could be the beginning of a header split across chunks
+      this.buffer = this.buffer.slice(-(HEAD_BUF.length - 1));
+      return false;
+    }
+    this.buffer = this.buffer.slice(start);
+
+    const current = this.findFrameEnd(0);
+    if (current) {
+      if (current.frame) {
+        this.onFrame(current.frame);
+      } else {
+        this.onError(new SerialFrameError('Received frame with an invalid CRC.'));
+      }
+      this.buffer = this.buffer.slice(current.end);
+      return true;
+    }
+
+    // The current frame may have been cut short (e.g. device reset),
+    // resynchronise on a later header once it holds a valid frame.
+    let next = this.buffer.indexOf(HEAD_BUF, 1);
+    while (next > 0) {
+      const later = this.findFrameEnd(next);
+      if (later?.frame) {
+        this.onError(new SerialFrameError('Received an incomplete frame.'));
+        this.buffer = this.buffer.slice(next);
+        return true;
+      }
+      next = this.buffer.indexOf(HEAD_BUF, next + 1);
+    }
+    return false;
+  }
+
+  /**
+   * Look for the footer closing the frame starting at given offset.
+   * A footer only closes the frame when the LEN field matches, so footer
+   * bytes within the payload are skipped. LEN only holds the length modulo 256,
+   * so a footer failing the CRC may still be within a longer payload: the frame
+   * is only left out when no later footer has a matching CRC and nothing but
+   * the next frame follows.
+   */
+  private findFrameEnd(start: number): FrameEnd | undefined {
+    let invalid: number | undefined;
+    let footer = this.buffer.indexOf(FOOT_BUF, start + PAYLOAD_OFFSET + CRC_LENGTH);
+    while (footer > 0) {
+      const crcOffset = footer - CRC_LENGTH;
+      const body = this.buffer.slice(start + LEN_OFFSET, crcOffset);
+      if (((body.length - 1) & 0xff) === this.buffer[start + LEN_OFFSET]) {
+        const end = footer + FOOT_BUF.length;
+        if (this.buffer.readUInt16BE(crcOffset) !== Crc.crc16(body, body.length)) {
+          invalid = invalid ?? end;
+          footer = this.buffer.indexOf(FOOT_BUF, footer + 1);
+          continue;
+        }
+        return {
+          end,
+          frame: {
+            status: this.buffer[start + STATUS_OFFSET],
+            payload: Buffer.from(this.buffer.slice(start + PAYLOAD_OFFSET, crcOffset)),
+          },
+        };
+      }
+      footer = this.buffer.indexOf(FOOT_BUF, footer + 1);
+    }
+    if (
+      invalid !== undefined &&
+      (invalid === this.buffer.length || this.buffer.indexOf(HEAD_BUF, invalid) === invalid)
+    ) {
+      return { end: invalid };
+    }
+    return undefined;
+  }
+}
+
+export default FrameDecoder;
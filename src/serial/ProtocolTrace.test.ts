@@ -0,0 +1,148 @@
+import { encodeFrame } from './FrameDecoder';
+import ProtocolTrace, { commandName, formatTraceEntry, hexDump, TraceEntry } from './ProtocolTrace';
+
+describe('ProtocolTrace', () => {
+  afterEach(() => {
+    ProtocolTrace.verbosity = 'off';
+  });
+
+  describe('hexDump', () => {
+    test('should dump offset, bytes and printable characters', () => {
+      // ACT
+      const dump = hexDump(Buffer.from('\u0002print("hello")\nÿ'));
+
+      // ASSERT
+      expect(dump).toBe(
+        [
+          '0000  02 70 72 69 6e 74 28 22 68 65 6c 6c 6f 22 29 0a  |.print("hello").|',
+          '0010  c3 bf                                            |..|',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('commandName', () => {
+    test('should name known and unknown command codes', () => {
+      // ASSERT
+      expect(commandName(0x06)).toBe('downloadFile (0x06)');
+      expect(commandName(0x42)).toBe('unknown (0x42)');
+    });
+  });
+
+  describe('formatTraceEntry', () => {
+    const entry: TraceEntry = {
+      time: Date.UTC(2022, 0, 2, 3, 4, 5, 6),
+      com: 'COM3',
+      direction: 'in',
+      code: 0x02,
+      status: 0x00,
+      data: encodeFrame(0x00, Buffer.from('done')),
+      crc: true,
+    };
+
+    test('should summarize a frame on a single line', () => {
+      // ACT
+      const text = formatTraceEntry(entry, 'summary');
+
+      // ASSERT
+      expect(text).toBe('2022-01-02T03:04:05.006Z COM3 <-- exec (0x02) status 0x00, 14 bytes, crc ok');
+    });
+
+    test('should append the hex dump of the frame', () => {
+      // ACT
+      const text = formatTraceEntry(entry, 'hexdump');
+
+      // ASSERT
+      expect(text.split('\n')[1]).toBe(
+        '    0000  aa ab aa 05 00 64 6f 6e 65 28 c3 ab cc ab        |.....done(....|'
+      );
+    });
+
+    test('should describe errors', () => {
+      // ACT
+      const text = formatTraceEntry(
+        { ...entry, direction: 'error', data: Buffer.from([]), error: 'Command 0x02 timed out after 10ms.' },
+        'hexdump'
+      );
+
+      // ASSERT
+      expect(text).toBe('2022-01-02T03:04:05.006Z COM3 !!! exec (0x02) Command 0x02 timed out after 10ms.');
+    });
+  });
+
+  describe('listeners', () => {
+    test('should not trace anything when verbosity is off', () => {
+      // ARRANGE
+      let traced = 0;
+      const listener = ProtocolTrace.onTrace(() => traced++);
+
+      // ACT
+      ProtocolTrace.request('COM3', Buffer.from([0x00, 0x12, 0x34]));
+      listener.dispose();
+
+      // ASSERT
+      expect(traced).toBe(0);
+    });
+
+    test('should trace raw chunks only at the raw verbosity', () => {
+      // ARRANGE
+      const directions: string[] = [];
+      const listener = ProtocolTrace.onTrace((entry) => directions.push(entry.direction));
+      ProtocolTrace.verbosity = 'hexdump';
+
+      // ACT
+      ProtocolTrace.raw('COM3', Buffer.from([0xaa]));
+      ProtocolTrace.response('COM3', 0x00, { status: 0x00, payload: Buffer.from('') });
+      ProtocolTrace.verbosity = 'raw';
+      ProtocolTrace.raw('COM3', Buffer.from([0xaa]));
+      listener.dispose();
+      ProtocolTrace.request('COM3', Buffer.from([0x00, 0x12, 0x34]));
+
+      // ASSERT
+      expect(directions).toStrictEqual(['in', 'raw']);
+    });
+  });
+
+  describe('redaction', () => {
+    const traced: TraceEntry[] = [];
+    let listener: { dispose: () => void };
+
+    beforeEach(() => {
+      traced.length = 0;
+      listener = ProtocolTrace.onTrace((entry) => traced.push(entry));
+      ProtocolTrace.verbosity = 'hexdump';
+    });
+
+    afterEach(() => {
+      listener.dispose();
+    });
+
+    test('should mask the whole setWifi payload and its CRC', () => {
+      // ACT
+      ProtocolTrace.request('COM3', Buffer.from('\u0008home\u0000hunter22\u0012\u0034', 'latin1'));
+
+      // ASSERT
+      expect(traced[0].data).toStrictEqual(Buffer.from('\u0008***************', 'latin1'));
+      expect(
+        formatTraceEntry(traced[0], 'summary').endsWith(
+          'setWifi (0x08) 16 bytes, crc ok, credentials redacted'
+        )
+      ).toBe(true);
+    });
+
+    test('should mask the credentials of executed code only', () => {
+      // ACT
+      ProtocolTrace.sent('COM3', 0x02, Buffer.from("wlan.connect('home', 'hunter22')\nprint(1)"));
+      ProtocolTrace.sent('COM3', 0x02, Buffer.from("webrepl.start(password='hunter22')"));
+      ProtocolTrace.sent('COM3', 0x02, Buffer.from('print(1)'));
+
+      // ASSERT
+      expect(traced.map(({ data }) => data.toString())).toStrictEqual([
+        `wlan${'*'.repeat(28)}\nprint(1)`,
+        `webrepl.start(${'*'.repeat(19)})`,
+        'print(1)',
+      ]);
+      expect(traced.map(({ redacted }) => redacted)).toStrictEqual([true, true, undefined]);
+    });
+  });
+});
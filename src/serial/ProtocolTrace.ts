@@ -0,0 +1,225 @@
+import { encodeFrame } from './FrameDecoder';
+import { COMMAND_CODES, Frame } from './types';
+
+// off: nothing is traced, summary: one line per frame, hexdump: frames bytes as well, raw: serial chunks as well
+export type TraceVerbosity = 'off' | 'summary' | 'hexdump' | 'raw';
+
+export type TraceDirection = 'out' | 'in' | 'raw' | 'error';
+
+export type TraceEntry = {
+  time: number;
+  com: string;
+  direction: TraceDirection;
+  // command the entry relates to, undefined for raw chunks
+  code?: number;
+  // response status byte
+  status?: number;
+  // bytes as sent or received on the wire
+  data: Buffer;
+  // whether the bytes are a UIFlow frame with a valid CRC
+  crc?: boolean;
+  // reason of a dropped frame or of an aborted command
+  error?: string;
+  // whether credentials were masked out of the bytes
+  redacted?: boolean;
+};
+
+export type TraceListener = (entry: TraceEntry) => void;
+
+const BYTES_PER_LINE = 16;
+
+const ARROWS: { [direction in TraceDirection]: string } = {
+  out: '-->',
+  in: '<--',
+  raw: '<..',
+  error: '!!!',
+};
+
+const toHex = (value: number) => value.toString(16).padStart(2, '0');
+
+// commands whose whole payload is secret, the ssid and password of setWifi
+const SECRET_COMMANDS: number[] = [COMMAND_CODES.setWifi];
+
+// credentials in executed python code, like wlan.connect('ssid', 'password') or webrepl.start(password='...')
+const CREDENTIALS = [/\.connect\s*\([^)]*\)/g, /\bpassword\s*=\s*(['"]).*?\1/g];
+
+const MASK = 0x2a;
+
+/**
+ * Copy of the bytes sent for the command `code` with its credentials masked, from `start` on.
+ * The trailing `checksum` bytes are masked as well when anything is, they derive from the secret.
+ */
+const redact = (code: number, data: Buffer, start: number, checksum = 0): Buffer | undefined => {
+  if (SECRET_COMMANDS.includes(code)) {
+    return Buffer.concat([data.slice(0, start), Buffer.alloc(data.length - start, MASK)]);
+  }
+  if (code !== COMMAND_CODES.exec) {
+    return undefined;
+  }
+  // latin1 keeps the offsets of the characters those of the bytes
+  const text = data.toString('latin1', 0, data.length - checksum);
+  const masked = Buffer.from(data);
+  let found = false;
+  CREDENTIALS.forEach((pattern) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const end = match.index + match[0].length;
+      if (end > start) {
+        masked.fill(MASK, Math.max(match.index, start), end);
+        found = true;
+      }
+    }
+  });
+  return found ? masked.fill(MASK, data.length - checksum) : undefined;
+};
+
+export const commandName = (code: number): string => {
+  const name = Object.keys(COMMAND_CODES).find(
+    (key) => COMMAND_CODES[key as keyof typeof COMMAND_CODES] === code
+  );
+  return `${name ?? 'unknown'} (0x${toHex(code)})`;
+};
+
+/**
+ * Classic hex dump, offset, 16 bytes in hexadecimal and their printable ASCII characters
+ */
+export const hexDump = (data: Buffer, indent = ''): string => {
+  const lines: string[] = [];
+  for (let offset = 0; offset < data.length; offset += BYTES_PER_LINE) {
+    const bytes = Array.from(data.slice(offset, offset + BYTES_PER_LINE));
+    const hex = bytes
+      .map(toHex)
+      .join(' ')
+      .padEnd(BYTES_PER_LINE * 3 - 1);
+    const ascii = bytes
+      .map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'))
+      .join('');
+    lines.push(`${indent}${offset.toString(16).padStart(4, '0')}  ${hex}  |${ascii}|`);
+  }
+  return lines.join('\n');
+};
+
+const summarize = (entry: TraceEntry): string => {
+  const command = entry.code !== undefined ? `${commandName(entry.code)} ` : '';
+  switch (entry.direction) {
+    case 'out':
+      return `${command}${entry.data.length} bytes${entry.crc ? ', crc ok' : ''}${
+        entry.redacted ? ', credentials redacted' : ''
+      }`;
+    case 'in': {
+      const status = entry.status !== undefined ? `status 0x${toHex(entry.status)}, ` : '';
+      return `${command}${status}${entry.data.length} bytes${entry.crc ? ', crc ok' : ''}`;
+    }
+    case 'raw':
+      return `${entry.data.length} bytes`;
+    case 'error':
+      return `${command}${entry.error}`;
+  }
+};
+
+export const formatTraceEntry = (entry: TraceEntry, verbosity: TraceVerbosity): string => {
+  const time = new Date(entry.time).toISOString();
+  const line = `${time} ${entry.com} ${ARROWS[entry.direction]} ${summarize(entry)}`;
+  if (verbosity === 'summary' || !entry.data.length) {
+    return line;
+  }
+  return `${line}\n${hexDump(entry.data, '    ')}`;
+};
+
+/**
+ * Records the frames exchanged with the devices for whoever listens, the serial layer stays vscode free
+ */
+class ProtocolTrace {
+  private listeners: TraceListener[] = [];
+  public verbosity: TraceVerbosity = 'off';
+
+  onTrace(listener: TraceListener): { dispose: () => void } {
+    this.listeners.push(listener);
+    return {
+      dispose: () => {
+        this.listeners = this.listeners.filter((l) => l !== listener);
+      },
+    };
+  }
+
+  get enabled(): boolean {
+    return this.verbosity !== 'off' && this.listeners.length > 0;
+  }
+
+  /**
+   * @param data Request as written, command code, payload and CRC
+   */
+  request(com: string, data: Buffer): void {
+    if (this.enabled) {
+      // the code byte stays readable, the CRC is the last two bytes
+      const redacted = redact(data[0], data, 1, 2);
+      this.emit({
+        com,
+        direction: 'out',
+        code: data[0],
+        data,
+        crc: true,
+        ...(redacted && { data: redacted, redacted: true }),
+      });
+    }
+  }
+
+  /**
+   * Copy of a whole request with its credentials masked, to trace the slices it is written in
+   */
+  mask(code: number, data: Buffer): Buffer | undefined {
+    return this.enabled ? redact(code, data, 0) : undefined;
+  }
+
+  /**
+   * Bytes written for the command `code` without the UIFlow framing
+   * @param masked Same bytes cut from the request `mask` returned, a credential may span two slices
+   */
+  sent(com: string, code: number, data: Buffer, masked?: Buffer): void {
+    if (this.enabled) {
+      const redacted = masked ? (masked.equals(data) ? undefined : masked) : redact(code, data, 0);
+      this.emit({ com, direction: 'out', code, data, ...(redacted && { data: redacted, redacted: true }) });
+    }
+  }
+
+  response(com: string, code: number | undefined, frame: Frame): void {
+    if (this.enabled) {
+      this.emit({
+        com,
+        direction: 'in',
+        code,
+        status: frame.status,
+        data: encodeFrame(frame.status, frame.payload),
+        crc: true,
+      });
+    }
+  }
+
+  /**
+   * Reply to the command `code` received without the UIFlow framing
+   */
+  received(com: string, code: number | undefined, data: Buffer): void {
+    this.emit({ com, direction: 'in', code, data });
+  }
+
+  error(com: string, code: number | undefined, error: Error): void {
+    this.emit({ com, direction: 'error', code, data: Buffer.from([]), error: error.message });
+  }
+
+  raw(com: string, chunk: Buffer): void {
+    if (this.verbosity === 'raw') {
+      this.emit({ com, direction: 'raw', data: chunk });
+    }
+  }
+
+  private emit(entry: Omit<TraceEntry, 'time'>) {
+    if (!this.enabled) {
+      return;
+    }
+    const traced = { ...entry, time: Date.now() };
+    this.listeners.forEach((listener) => listener(traced));
+  }
+}
+
+export default new ProtocolTrace();
@@ -0,0 +1,87 @@
+import { SerialError } from './errors';
+import {
+  checkRawReplReply,
+  isRawReplReply,
+  parseRawReplReply,
+  parseReadFile,
+  rawReplRequest,
+  toRootPath,
+} from './RawRepl';
+
+const BANNER = 'MicroPython v1.19.1\r\n>>> \r\nraw REPL; CTRL-B to exit\r\n>';
+
+describe('RawRepl', () => {
+  describe('rawReplRequest', () => {
+    test('should interrupt, enter the raw REPL then run the code', () => {
+      // ACT
+      const request = rawReplRequest('print(1)');
+
+      // ASSERT
+      expect(request).toStrictEqual(Buffer.from('\x03\x03\x01print(1)\x04'));
+    });
+  });
+
+  describe('isRawReplReply', () => {
+    test('should wait for both outputs and the next prompt', () => {
+      // ASSERT
+      expect(isRawReplReply(Buffer.from('>>> '))).toBe(false);
+      expect(isRawReplReply(Buffer.from(`${BANNER}OK1\r\n\x04`))).toBe(false);
+      expect(isRawReplReply(Buffer.from(`${BANNER}OK1\r\n\x04\x04`))).toBe(false);
+      expect(isRawReplReply(Buffer.from(`${BANNER}OK1\r\n\x04\x04>`))).toBe(true);
+    });
+
+    test('should stop on anything else than OK', () => {
+      // ASSERT
+      expect(isRawReplReply(Buffer.from(`${BANNER}raw REPL needs more memory`))).toBe(true);
+    });
+  });
+
+  describe('parseRawReplReply', () => {
+    test('should split stdout and stderr', () => {
+      // ACT
+      const reply = parseRawReplReply(
+        Buffer.from(
+          `${BANNER}OK1\r\n\x04Traceback (most recent call last):\r\nOSError: [Errno 2] ENOENT\r\n\x04>`
+        )
+      );
+
+      // ASSERT
+      expect(reply.stdout).toStrictEqual(Buffer.from('1\r\n'));
+      expect(() => checkRawReplReply(reply)).toThrow('OSError: [Errno 2] ENOENT');
+    });
+
+    test('should reject unexpected answers', () => {
+      // ACT
+      const parse = () => parseRawReplReply(Buffer.from(`${BANNER}raw REPL needs more memory`));
+
+      // ASSERT
+      expect(parse).toThrow(SerialError);
+    });
+  });
+
+  describe('parseReadFile', () => {
+    test('should decode base64 lines', () => {
+      // ACT
+      const content = parseReadFile(Buffer.from('iVBO\r\nRw==\r\n'));
+
+      // ASSERT
+      expect(content).toStrictEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    });
+  });
+
+  describe('toRootPath', () => {
+    test('should keep paths of firmwares with a /flash directory', () => {
+      // ASSERT
+      expect(toRootPath('/flash/main.py', '/flash')).toBe('/flash/main.py');
+      expect(toRootPath('main.py', '/flash')).toBe('/flash/main.py');
+    });
+
+    test('should map /flash to the root of stock firmwares', () => {
+      // ASSERT
+      expect(toRootPath('/flash', '/')).toBe('/');
+      expect(toRootPath('/flash/lib/a.py', '/')).toBe('/lib/a.py');
+      expect(toRootPath('main.py', '/')).toBe('/main.py');
+      expect(toRootPath('/sd/data.csv', '/')).toBe('/sd/data.csv');
+    });
+  });
+});
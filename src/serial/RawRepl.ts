@@ -0,0 +1,151 @@
+import { SerialError } from './errors';
+import { toDevicePath } from './FileSize';
+
+const CTRL_A = '\x01';
+const CTRL_C = '\x03';
+const CTRL_D = '\x04';
+
+// Printed by MicroPython when entering the raw REPL, followed by its '>' prompt
+export const RAW_REPL_BANNER = 'raw REPL; CTRL-B to exit\r\n>';
+
+// Interrupt any running program then enter the raw REPL, harmless when already in it
+export const RAW_REPL_ENTER = `${CTRL_C}${CTRL_C}${CTRL_A}`;
+
+// Bytes read from files per base64 line, a multiple of 3 so lines are not padded
+const READ_LENGTH = 768;
+
+// Root of the UIFlow file system, the paths used by the extension start with it
+const FLASH = '/flash';
+
+export type RawReplReply = {
+  stdout: Buffer;
+  stderr: string;
+};
+
+const BANNER_BUF = Buffer.from(RAW_REPL_BANNER);
+const OK_BUF = Buffer.from('OK');
+
+// What the device answered since its last raw REPL prompt
+const afterPrompt = (received: Buffer): Buffer | undefined => {
+  const prompt = received.lastIndexOf(BANNER_BUF);
+  return prompt < 0 ? undefined : received.slice(prompt + BANNER_BUF.length);
+};
+
+/**
+ * Code to run followed by Ctrl-D, preceded by the raw REPL entering sequence
+ */
+export const rawReplRequest = (code: string): Buffer => Buffer.from(`${RAW_REPL_ENTER}${code}${CTRL_D}`);
+
+/**
+ * Whether the reply to rawReplRequest is complete: "OK", stdout, Ctrl-D, stderr, Ctrl-D and the next
+ * prompt, or anything else than "OK" which parseRawReplReply rejects
+ */
+export const isRawReplReply = (received: Buffer): boolean => {
+  const reply = afterPrompt(received);
+  if (!reply || reply.length < OK_BUF.length) {
+    return false;
+  }
+  if (!reply.slice(0, OK_BUF.length).equals(OK_BUF)) {
+    return true;
+  }
+  const stdoutEnd = reply.indexOf(CTRL_D);
+  const stderrEnd = stdoutEnd < 0 ? -1 : reply.indexOf(CTRL_D, stdoutEnd + 1);
+  return stderrEnd > -1 && reply.indexOf('>', stderrEnd + 1) > -1;
+};
+
+export const parseRawReplReply = (received: Buffer): RawReplReply => {
+  const reply = afterPrompt(received);
+  if (!reply || !reply.slice(0, OK_BUF.length).equals(OK_BUF)) {
+    throw new SerialError(`Unexpected raw REPL answer: ${(reply ?? received).toString().trim()}`);
+  }
+  const stdoutEnd = reply.indexOf(CTRL_D);
+  const stderrEnd = reply.indexOf(CTRL_D, stdoutEnd + 1);
+  return {
+    stdout: reply.slice(OK_BUF.length, stdoutEnd),
+    stderr: reply.slice(stdoutEnd + 1, stderrEnd).toString(),
+  };
+};
+
+/**
+ * Raise the last line of the traceback printed on stderr, like "OSError: [Errno 2] ENOENT"
+ */
+export const checkRawReplReply = (reply: RawReplReply): Buffer => {
+  if (reply.stderr.trim()) {
+    throw new SerialError(reply.stderr.trim().split(/\r?\n/).slice(-1)[0]);
+  }
+  return reply.stdout;
+};
+
+/**
+ * Device path of a path of the extension, stock firmwares mounting their file system on "/"
+ * have no /flash directory
+ */
+export const toRootPath = (filepath: string, root: string): string => {
+  const path = toDevicePath(filepath);
+  if (root === FLASH || (path !== FLASH && !path.startsWith(`${FLASH}/`))) {
+    return path;
+  }
+  return path.slice(FLASH.length) || '/';
+};
+
+/**
+ * Python code printing /flash when the firmware has it, / otherwise
+ */
+export const ROOT_CODE = [
+  'import os',
+  'try:',
+  `    os.stat('${FLASH}')`,
+  `    print('${FLASH}')`,
+  'except OSError:',
+  "    print('/')",
+].join('\n');
+
+// Prints "firmware,board" the way the UIFlow getInfo command answers
+export const INFO_CODE = [
+  'import os',
+  'u = os.uname()',
+  "print('MicroPython v' + u.release + ',' + u.machine)",
+].join('\n');
+
+/**
+ * Python code printing the comma separated names of a directory
+ */
+export const listNamesCode = (dirname: string): string =>
+  ['import os', `print(','.join(os.listdir(${JSON.stringify(dirname)})))`].join('\n');
+
+/**
+ * Python code printing a file as base64 lines
+ */
+export const readFileCode = (filename: string): string =>
+  [
+    'import ubinascii',
+    `with open(${JSON.stringify(filename)}, 'rb') as f:`,
+    '    while True:',
+    `        b = f.read(${READ_LENGTH})`,
+    '        if not b:',
+    '            break',
+    "        print(ubinascii.b2a_base64(b).decode(), end='')",
+  ].join('\n');
+
+export const parseReadFile = (output: Buffer): Buffer =>
+  Buffer.concat(
+    output
+      .toString()
+      .split(/\r?\n/)
+      .filter((line) => !!line)
+      .map((line) => Buffer.from(line, 'base64'))
+  );
+
+/**
+ * Python code writing data to a file, flag 0x01 overwrites it and 0x00 appends to it
+ * like the downloadFile command
+ */
+export const writeFileCode = (filename: string, data: Buffer, flag: number): string =>
+  [
+    'import ubinascii',
+    `with open(${JSON.stringify(filename)}, '${flag === 0x00 ? 'ab' : 'wb'}') as f:`,
+    `    f.write(ubinascii.a2b_base64('${data.toString('base64')}'))`,
+  ].join('\n');
+
+export const removeFileCode = (filename: string): string =>
+  ['import os', `os.remove(${JSON.stringify(filename)})`].join('\n');
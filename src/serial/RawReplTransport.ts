@@ -0,0 +1,117 @@
+import { SerialError } from './errors';
+import {
+  checkRawReplReply,
+  INFO_CODE,
+  isRawReplReply,
+  listNamesCode,
+  parseRawReplReply,
+  parseReadFile,
+  rawReplRequest,
+  RawReplReply,
+  readFileCode,
+  removeFileCode,
+  ROOT_CODE,
+  toRootPath,
+  writeFileCode,
+} from './RawRepl';
+import { RawChannel, Transport } from './Transport';
+import { COMMAND_CODES, CommandOptions, ExecResult, PipelineOptions, TransportKind } from './types';
+
+const DONE = 'done';
+
+/**
+ * Raw REPL of stock MicroPython firmwares: every command is python code run after entering
+ * the raw REPL, files are transferred base64 encoded
+ */
+class RawReplTransport implements Transport {
+  readonly kind: TransportKind = 'rawRepl';
+  // the raw REPL runs one piece of code at a time
+  readonly pipelineDepth = 1;
+  // where the file system is mounted, found by ping
+  private root = '/flash';
+
+  constructor(private readonly connection: RawChannel) {}
+
+  async ping(options?: CommandOptions): Promise<boolean> {
+    try {
+      const root = checkRawReplReply(await this.run(ROOT_CODE, COMMAND_CODES.isOnline, options));
+      this.root = root.toString().trim() || this.root;
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  async getInfo(options?: CommandOptions): Promise<Buffer> {
+    return checkRawReplReply(await this.run(INFO_CODE, COMMAND_CODES.getInfo, options));
+  }
+
+  /**
+   * Output and traceback of the code, as the UIFlow exec command answers
+   */
+  async exec(code: string, options?: CommandOptions): Promise<Buffer> {
+    const { stdout, stderr } = await this.run(code, COMMAND_CODES.exec, options);
+    const output = Buffer.concat([stdout, Buffer.from(stderr)]);
+    return output.length ? output : Buffer.from(DONE);
+  }
+
+  /**
+   * Output of the code, failed when it printed on stderr
+   */
+  async execute(code: string, options?: CommandOptions): Promise<ExecResult> {
+    const { stdout, stderr } = await this.run(code, COMMAND_CODES.exec, options);
+    return { output: stdout, error: stderr.trim() };
+  }
+
+  devicePath(filepath: string): string {
+    return toRootPath(filepath, this.root);
+  }
+
+  async listNames(dirname: string, options?: CommandOptions): Promise<Buffer> {
+    const code = listNamesCode(this.devicePath(dirname));
+    return checkRawReplReply(await this.run(code, COMMAND_CODES.listDir, options));
+  }
+
+  async readFile(filename: string, options?: CommandOptions): Promise<Buffer> {
+    const code = readFileCode(this.devicePath(filename));
+    return parseReadFile(checkRawReplReply(await this.run(code, COMMAND_CODES.getFile, options)));
+  }
+
+  async writeFile(filename: string, data: Buffer, flag: number, options?: CommandOptions): Promise<Buffer> {
+    const code = writeFileCode(this.devicePath(filename), data, flag);
+    checkRawReplReply(await this.run(code, COMMAND_CODES.downloadFile, options));
+    return Buffer.from(DONE);
+  }
+
+  async appendChunks(filename: string, chunks: Buffer[], options: PipelineOptions = {}): Promise<Buffer[]> {
+    const results: Buffer[] = [];
+    for (const chunk of chunks) {
+      const result = await this.writeFile(filename, chunk, 0x00, options);
+      results.push(result);
+      options.onResponse?.(results.length - 1, result);
+    }
+    return results;
+  }
+
+  async removeFile(filename: string, options?: CommandOptions): Promise<Buffer> {
+    const code = removeFileCode(this.devicePath(filename));
+    checkRawReplReply(await this.run(code, COMMAND_CODES.removeFile, options));
+    return Buffer.from(DONE);
+  }
+
+  setWifi(): Promise<Buffer> {
+    return Promise.reject(new SerialError('Configuring Wi-Fi needs the UIFlow firmware.'));
+  }
+
+  private async run(code: string, commandCode: number, options?: CommandOptions): Promise<RawReplReply> {
+    const received = await this.connection.sendRaw(
+      commandCode,
+      rawReplRequest(code),
+      isRawReplReply,
+      options
+    );
+    return parseRawReplReply(received);
+  }
+}
+
+export default RawReplTransport;
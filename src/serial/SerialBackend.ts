@@ -0,0 +1,72 @@
+import {
+  CancellationToken,
+  CommandOptions,
+  ConnectionState,
+  DeviceInfo,
+  DirectoryEntry,
+  ExecResult,
+  SerialSettings,
+  StorageUsage,
+  UploadOptions,
+  UploadProgress,
+  WifiNetwork,
+} from './types';
+
+type Subscription = { dispose(): void };
+
+/**
+ * Device operations the extension relies on, implemented by SerialManager and by
+ * SerialClientAdapter on top of mpy-sdk. Devices are named by their port path.
+ */
+export interface SerialBackend {
+  connect(com: string, openedCb: (err: unknown) => void, settings?: SerialSettings): void;
+  connectWebRepl(id: string, password: string, openedCb: (err: unknown) => void): void;
+  disconnect(com: string): void;
+  // whether the device is connected, or waiting to reconnect, through this backend
+  has(com: string): boolean;
+
+  onStateChange(listener: (com: string, state: ConnectionState) => void): Subscription;
+  state(com: string): ConnectionState;
+  onQueueChange(listener: (com: string, depth: number) => void): Subscription;
+  queueDepth(com: string): number;
+  isBusy(com: string): boolean;
+
+  ping(com: string, options?: CommandOptions): Promise<boolean>;
+  getInfo(com: string, options?: CommandOptions): Promise<DeviceInfo>;
+  deviceInfo(com: string): DeviceInfo | undefined;
+  exec(com: string, code: string, options?: CommandOptions): Promise<Buffer>;
+  // code of the user, see Transport.execute
+  execute(com: string, code: string, options?: CommandOptions): Promise<ExecResult>;
+
+  listDir(com: string, dirname: string, options?: CommandOptions): Promise<DirectoryEntry[]>;
+  // undefined when the file does not exist, null when the firmware does not return the output of python code
+  stat(com: string, filepath: string, options?: CommandOptions): Promise<DirectoryEntry | null | undefined>;
+  hashDir(com: string, dirname: string, options?: CommandOptions): Promise<Map<string, string>>;
+  mkdir(com: string, dirname: string, options?: CommandOptions): Promise<void>;
+  rename(com: string, from: string, to: string, options?: CommandOptions): Promise<void>;
+  rmdir(com: string, dirname: string, options?: CommandOptions): Promise<void>;
+  // undefined when nothing is mounted on the path
+  statvfs(com: string, mountpoint: string, options?: CommandOptions): Promise<StorageUsage | undefined>;
+  readFile(com: string, filename: string, options?: CommandOptions): Promise<Buffer>;
+  download(
+    com: string,
+    filename: string,
+    content: string | Buffer,
+    flag: number,
+    isBinary?: boolean,
+    options?: CommandOptions
+  ): Promise<Buffer>;
+  bulkDownload(
+    com: string,
+    filename: string,
+    content: string | Buffer,
+    isBinary: boolean,
+    progressCb: (progress: UploadProgress) => void,
+    token?: CancellationToken,
+    options?: UploadOptions
+  ): Promise<Buffer>;
+  removeFile(com: string, filename: string, options?: CommandOptions): Promise<Buffer>;
+
+  setWifi(com: string, ssid: string, password: string, options?: CommandOptions): Promise<Buffer>;
+  scanWifi(com: string, options?: CommandOptions): Promise<WifiNetwork[]>;
+}
@@ -1,5 +1,9 @@
-import Crc from './Crc';
+import { SerialCancelledError, SerialFrameError, SerialStatusError, SerialTimeoutError } from './errors';
+import { encodeFrame } from './FrameDecoder';
+import ProtocolTrace, { formatTraceEntry } from './ProtocolTrace';
 import SerialConnection from './SerialConnection';
+import { COMMAND_CODES } from './types';
+import { createWifiData } from './Wifi';
 
 jest.mock('../serial/SerialManager', () => ({
   connect: jest.fn(),
@@ -11,11 +15,6 @@ jest.mock('../serial/SerialManager', () => ({
   removeFile: jest.fn(),
 }));
 
-jest.mock('./Crc', () => ({
-  checkReceiveCompleted: jest.fn(),
-  coverCrc: jest.fn(),
-}));
-
 describe('SerialConnection', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -37,6 +36,162 @@ describe('SerialConnection', () => {
       // ASSERT
       expect(spy).toHaveBeenCalledTimes(1);
     });
+
+    test('should reject with a timeout error when device does not answer', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      jest.spyOn(conn, 'write').mockImplementation(() => {});
+
+      // ACT
+      const result = conn.sendCommandWithBuffer(Buffer.from([0x02]), { timeout: 10 });
+
+      // ASSERT
+      await expect(result).rejects.toBeInstanceOf(SerialTimeoutError);
+      expect(conn.busy).toBe(false);
+    });
+
+    test('should wait for responses longer than the timeout while bytes keep coming', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      jest.spyOn(conn, 'write').mockImplementation(() => {});
+      const payload = Buffer.alloc(200, 0x41);
+      const frame = encodeFrame(0x00, payload);
+      const chunks = [frame.slice(0, 50), frame.slice(50, 100), frame.slice(100, 150), frame.slice(150)];
+
+      // ACT
+      const result = conn.sendCommandWithBuffer(Buffer.from([0x05]), { timeout: 50 });
+      for (const chunk of chunks) {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        conn.onData(chunk);
+      }
+
+      // ASSERT
+      await expect(result).resolves.toStrictEqual(payload);
+    });
+
+    test('should reject with a cancellation error when token is cancelled', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      jest.spyOn(conn, 'write').mockImplementation(() => {});
+      let cancel: (e?: any) => any = () => {};
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: (listener: (e: any) => any) => {
+          cancel = listener;
+          return { dispose: jest.fn() };
+        },
+      };
+
+      // ACT
+      const result = conn.sendCommandWithBuffer(Buffer.from([0x06]), { token });
+      cancel();
+
+      // ASSERT
+      await expect(result).rejects.toBeInstanceOf(SerialCancelledError);
+    });
+
+    test('should not send command when token is already cancelled', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      const spy = jest.spyOn(conn, 'write');
+      const token = {
+        isCancellationRequested: true,
+        onCancellationRequested: jest.fn(),
+      };
+
+      // ACT
+      const result = conn.sendCommandWithBuffer(Buffer.from([0x06]), { token });
+
+      // ASSERT
+      await expect(result).rejects.toBeInstanceOf(SerialCancelledError);
+      expect(spy).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe('sendPipelined', () => {
+    test('should keep up to window commands waiting for their response', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      let written = 0;
+      jest.spyOn(conn, 'write').mockImplementation(() => {
+        written++;
+      });
+      const responses: number[] = [];
+
+      // ACT
+      const result = conn.sendPipelined(
+        [Buffer.from([0x06, 1]), Buffer.from([0x06, 2]), Buffer.from([0x06, 3])],
+        {
+          window: 2,
+          onResponse: (index) => responses.push(index),
+        }
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      const writtenBeforeResponse = written;
+      conn.onData(encodeFrame(0x00, Buffer.from('done')));
+      const writtenAfterResponse = written;
+      conn.onData(encodeFrame(0x00, Buffer.from('done')));
+      conn.onData(encodeFrame(0x00, Buffer.from('done')));
+
+      // ASSERT
+      expect((await result).length).toBe(3);
+      expect(writtenBeforeResponse).toBe(2);
+      expect(writtenAfterResponse).toBe(3);
+      expect(responses).toStrictEqual([0, 1, 2]);
+    });
+
+    test('should reject the batch on the first failed response', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      const spy = jest.spyOn(conn, 'write').mockImplementation(() => {});
+
+      // ACT
+      const result = conn.sendPipelined([
+        Buffer.from([0x06, 1]),
+        Buffer.from([0x06, 2]),
+        Buffer.from([0x06, 3]),
+      ]);
+      await new Promise((resolve) => setImmediate(resolve));
+      conn.onData(encodeFrame(0x01, Buffer.from('')));
+
+      // ASSERT
+      await expect(result).rejects.toBeInstanceOf(SerialStatusError);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should wait for the commands in flight before rejecting the batch', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      let written = 0;
+      jest.spyOn(conn, 'write').mockImplementation(() => {
+        written++;
+      });
+      const responses: number[] = [];
+      let settled = false;
+
+      // ACT
+      const result = conn.sendPipelined(
+        [Buffer.from([0x06, 1]), Buffer.from([0x06, 2]), Buffer.from([0x06, 3])],
+        {
+          window: 2,
+          onResponse: (index) => responses.push(index),
+        }
+      );
+      result.catch(() => {
+        settled = true;
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+      conn.onData(encodeFrame(0x01, Buffer.from('')));
+      await new Promise((resolve) => setImmediate(resolve));
+      const settledBeforeLastResponse = settled;
+      conn.onData(encodeFrame(0x00, Buffer.from('done')));
+
+      // ASSERT
+      await expect(result).rejects.toBeInstanceOf(SerialStatusError);
+      expect(settledBeforeLastResponse).toBe(false);
+      expect(written).toBe(2);
+      expect(responses).toStrictEqual([]);
+    });
   });
 
   describe('write', () => {
@@ -53,34 +208,167 @@ describe('SerialConnection', () => {
       expect(spyWrite).toHaveBeenCalledTimes(1);
       expect(spyDrain).toHaveBeenCalledTimes(1);
     });
+
+    test('should keep the Wi-Fi password out of the protocol trace', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      const written: Buffer[] = [];
+      // @ts-ignore
+      jest.spyOn(conn.port, 'write').mockImplementation((data: Buffer) => written.push(data));
+      const traced: string[] = [];
+      const listener = ProtocolTrace.onTrace((entry) =>
+        traced.push(entry.data.toString('latin1'), formatTraceEntry(entry, 'hexdump'))
+      );
+      ProtocolTrace.verbosity = 'raw';
+
+      // ACT
+      const result = conn.sendCommand(COMMAND_CODES.setWifi, createWifiData('home', 'hunter22'), {
+        timeout: 10,
+      });
+      await expect(result).rejects.toBeInstanceOf(SerialTimeoutError);
+      listener.dispose();
+      ProtocolTrace.verbosity = 'off';
+
+      // ASSERT
+      expect(Buffer.concat(written).includes('hunter22')).toBe(true);
+      expect(traced.length > 0).toBe(true);
+      expect(traced.some((text) => /hunter|home/.test(text))).toBe(false);
+    });
+    test('should keep credentials spanning two raw slices out of the protocol trace', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      // @ts-ignore
+      jest.spyOn(conn.port, 'write').mockImplementation(() => true);
+      const traced: Buffer[] = [];
+      const listener = ProtocolTrace.onTrace((entry) => entry.direction === 'out' && traced.push(entry.data));
+      ProtocolTrace.verbosity = 'summary';
+      const code = `${'#'.repeat(240)}\nwlan.connect('home', 'hunter22')\n`;
+
+      // ACT
+      const result = conn.sendRaw(COMMAND_CODES.exec, Buffer.from(code), () => false, { timeout: 50 });
+      await expect(result).rejects.toBeInstanceOf(SerialTimeoutError);
+      listener.dispose();
+      ProtocolTrace.verbosity = 'off';
+
+      // ASSERT
+      expect(traced.length).toBe(2);
+      expect(Buffer.concat(traced).toString()).toBe(`${'#'.repeat(240)}\nwlan${'*'.repeat(28)}\n`);
+    });
   });
 
   describe('onData', () => {
     test('should handle receiving data', async () => {
       // ARRANGE
       const conn = new SerialConnection('/dev/device', () => {});
-      const spyCrc = jest.spyOn(Crc, 'checkReceiveCompleted').mockImplementationOnce(() => true);
       const spyResolve = jest.spyOn(conn, 'resolve');
 
       // ACT
-      await conn.onData(Buffer.from([0x01, 0x02, 0x03, 0x04, 0x00]));
+      await conn.onData(encodeFrame(0x00, Buffer.from('done')));
 
       // ASSERT
-      expect(spyCrc).toHaveBeenCalledTimes(1);
-      expect(spyResolve).toHaveBeenCalledTimes(1);
+      expect(spyResolve).toHaveBeenCalledWith(Buffer.from('done'));
     });
     test('should handle errors on receiving data', async () => {
       // ARRANGE
       const conn = new SerialConnection('/dev/device', () => {});
-      const spyCrc = jest.spyOn(Crc, 'checkReceiveCompleted').mockImplementationOnce(() => true);
       const spyReject = jest.spyOn(conn, 'reject');
 
       // ACT
-      await conn.onData(Buffer.from([0x01, 0x02, 0x03, 0x04, 0x05]));
+      await conn.onData(encodeFrame(0x05, Buffer.from('')));
+
+      // ASSERT
+      expect(spyReject).toHaveBeenCalledWith(new SerialStatusError(0x05));
+    });
+    test('should reject pending command on corrupted frame', async () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+      jest.spyOn(conn, 'write').mockImplementation(() => {});
+      const frame = encodeFrame(0x00, Buffer.from('done'));
+      frame[6] ^= 0xff;
+
+      // ACT
+      const result = conn.sendCommandWithBuffer(Buffer.from([0x03]));
+      conn.onData(frame);
+
+      // ASSERT
+      await expect(result).rejects.toBeInstanceOf(SerialFrameError);
+    });
+  });
+
+  describe('settings', () => {
+    test('should open the port with default settings', () => {
+      // ACT
+      const conn = new SerialConnection('/dev/device', () => {});
+
+      // ASSERT
+      // @ts-ignore
+      expect(conn.port.options).toStrictEqual({
+        path: '/dev/device',
+        baudRate: 115200,
+        dataBits: 8,
+        parity: 'none',
+        rtscts: false,
+      });
+    });
+
+    test('should open the port with given settings', () => {
+      // ACT
+      const conn = new SerialConnection(
+        '/dev/device',
+        () => {},
+        {},
+        {
+          baudRate: 1500000,
+          dataBits: 7,
+          parity: 'even',
+          rtscts: true,
+        }
+      );
+
+      // ASSERT
+      // @ts-ignore
+      expect(conn.port.options).toStrictEqual({
+        path: '/dev/device',
+        baudRate: 1500000,
+        dataBits: 7,
+        parity: 'even',
+        rtscts: true,
+      });
+    });
+
+    test('should only set configured control lines once opened', () => {
+      // ARRANGE
+      const conn = new SerialConnection(
+        '/dev/device',
+        () => {},
+        {},
+        {
+          baudRate: 115200,
+          dataBits: 8,
+          parity: 'none',
+          rtscts: false,
+          dtr: false,
+        }
+      );
+
+      // ACT
+      conn.onOpen(null);
+
+      // ASSERT
+      // @ts-ignore
+      expect(conn.port.signals).toStrictEqual({ dtr: false });
+    });
+
+    test('should leave control lines untouched by default', () => {
+      // ARRANGE
+      const conn = new SerialConnection('/dev/device', () => {});
+
+      // ACT
+      conn.onOpen(null);
 
       // ASSERT
-      expect(spyCrc).toHaveBeenCalledTimes(1);
-      expect(spyReject).toHaveBeenCalledTimes(1);
+      // @ts-ignore
+      expect(conn.port.signals).toBe(undefined);
     });
   });
 });
@@ -1,9 +1,36 @@
 import { SerialPort } from 'serialport';
 import { PortInfo } from '@serialport/bindings-interface';
+import CommandQueue from './CommandQueue';
 import Crc from './Crc';
-import { defaultOpts } from './types';
+import {
+  SerialCancelledError,
+  SerialDisconnectedError,
+  SerialError,
+  SerialFrameError,
+  SerialStatusError,
+  SerialTimeoutError,
+} from './errors';
+import FrameDecoder from './FrameDecoder';
+import ProtocolTrace from './ProtocolTrace';
+import {
+  CommandOptions,
+  ConnectionEvents,
+  ConnectionState,
+  defaultOpts,
+  Frame,
+  getCommandTimeout,
+  PipelineOptions,
+  SerialSettings,
+  STATUS_OK,
+} from './types';
 
-const comErroMessage = 'Communication error, sorry.';
+// Delays in ms between attempts to find back a lost port
+const RECONNECT_DELAY = 500;
+const MAX_RECONNECT_DELAY = 8000;
+
+// Unframed requests are written in slices so the device input buffer keeps up
+const RAW_SLICE_LENGTH = 256;
+const RAW_SLICE_DELAY = 10;
 
 class SerialConnection {
   private com: string;
@@ -12,14 +39,33 @@ class SerialConnection {
   public resolve: (value: Buffer) => void;
   public reject: (value: any) => void;
   private onOpenCb: (err: unknown) => void;
-  private received: Buffer;
-  constructor(com: string, onOpenCb: (err: unknown) => void) {
+  private decoder: FrameDecoder;
+  private queue: CommandQueue;
+  private connectionState: ConnectionState | undefined;
+  private closing: boolean = false;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private reconnectDelay: number = RECONNECT_DELAY;
+  // code of the last command written, responses are traced under it
+  private lastCode: number | undefined;
+  // collects the reply of an unframed request instead of the frame decoder
+  private rawReceiver: ((chunk: Buffer) => void) | undefined;
+  // restarts the timeout of the pending command, the device is still sending its response
+  private onActivity: (() => void) | undefined;
+  constructor(
+    com: string,
+    onOpenCb: (err: unknown) => void,
+    private readonly events: ConnectionEvents = {},
+    private readonly settings: SerialSettings = defaultOpts
+  ) {
     this.com = com;
-    this.port = new SerialPort({ path: com, ...defaultOpts });
-    this.port.on('error', this.onError);
+    this.queue = new CommandQueue(events.onQueueChange);
+    const { baudRate, dataBits, parity, rtscts } = settings;
+    this.port = new SerialPort({ path: com, baudRate, dataBits, parity, rtscts });
+    this.port.on('error', this.onError.bind(this));
+    this.port.on('close', this.onClose.bind(this));
     this.port.on('open', this.onOpen.bind(this));
     this.port.on('data', this.onData.bind(this));
-    this.received = Buffer.from([]);
+    this.decoder = new FrameDecoder(this.onFrame.bind(this), this.onFrameError.bind(this));
     this.resolve = () => {};
     this.reject = () => {};
     this.onOpenCb = onOpenCb;
@@ -38,24 +84,287 @@ class SerialConnection {
     return this.isBusy;
   }
 
-  sendCommand(code: number, data: string): Promise<Buffer> {
-    return this.sendCommandWithBuffer(Crc.createDataBuffer(code, data));
+  get queueDepth(): number {
+    return this.queue.depth;
+  }
+
+  get state(): ConnectionState {
+    return this.connectionState ?? 'disconnected';
+  }
+
+  sendCommand(code: number, data: string, options?: CommandOptions): Promise<Buffer> {
+    return this.sendCommandWithBuffer(Crc.createDataBuffer(code, data), options);
+  }
+
+  /**
+   * Queue a command and wait for its response
+   * @param {*} buffer Command code followed by its payload
+   * @param {*} options Timeout (defaults to the command code one), cancellation token and queue priority
+   */
+  sendCommandWithBuffer(buffer: Buffer, options: CommandOptions = {}): Promise<Buffer> {
+    return this.queue.push(() => this.transmit(buffer, options), options.priority);
+  }
+
+  /**
+   * Queue commands sent back to back, up to `window` of them waiting for their response at once.
+   * Responses come in the order of the commands and the first failure rejects the whole batch,
+   * once the commands already sent are answered.
+   */
+  sendPipelined(buffers: Buffer[], options: PipelineOptions = {}): Promise<Buffer[]> {
+    return this.queue.push(() => this.transmitPipelined(buffers, options), options.priority);
   }
 
-  sendCommandWithBuffer(buffer: Buffer): Promise<Buffer> {
-    this.received = Buffer.from([]);
+  /**
+   * Queue bytes for a firmware without the UIFlow framing and collect what the device sends back
+   * until `isComplete` accepts it. `code` is the command the exchange stands for, it gives its
+   * default timeout and names it in errors and traces.
+   */
+  sendRaw(
+    code: number,
+    data: Buffer,
+    isComplete: (received: Buffer) => boolean,
+    options: CommandOptions = {}
+  ): Promise<Buffer> {
+    return this.queue.push(() => this.transmitRaw(code, data, isComplete, options), options.priority);
+  }
+
+  get pipelineDepth(): number {
+    return Math.max(1, this.settings.pipelineDepth ?? 1);
+  }
+
+  private transmit(buffer: Buffer, options: CommandOptions): Promise<Buffer> {
+    const code = buffer[0];
+    const timeout = options.timeout ?? getCommandTimeout(code);
+    const token = options.token;
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new SerialCancelledError(code));
+    }
+    if (!this.port.isOpen) {
+      return Promise.reject(new SerialError(`${this.com} is not connected.`));
+    }
+
+    this.decoder.reset();
     const self = this;
     return new Promise((resolve, reject) => {
-      console.log('sending bytes', buffer);
-      self.resolve = resolve;
-      self.reject = reject;
+      let timer: NodeJS.Timeout | undefined;
+      const armTimer = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => self.abort(new SerialTimeoutError(code, timeout)), timeout);
+      };
+      const cancellation = token?.onCancellationRequested(() => self.abort(new SerialCancelledError(code)));
+      const settle = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        self.onActivity = undefined;
+        cancellation?.dispose();
+      };
+
+      self.resolve = (value: Buffer) => {
+        settle();
+        resolve(value);
+      };
+      self.reject = (reason: any) => {
+        settle();
+        reject(reason);
+      };
+      self.onActivity = armTimer;
+      armTimer();
       self.write(Crc.coverCrc(buffer));
     });
   }
 
-  write(data: Buffer): void {
+  private transmitPipelined(buffers: Buffer[], options: PipelineOptions): Promise<Buffer[]> {
+    if (!buffers.length) {
+      return Promise.resolve([]);
+    }
+    const code = buffers[0][0];
+    const timeout = options.timeout ?? getCommandTimeout(code);
+    const window = Math.max(1, options.window ?? 1);
+    const token = options.token;
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new SerialCancelledError(code));
+    }
+    if (!this.port.isOpen) {
+      return Promise.reject(new SerialError(`${this.com} is not connected.`));
+    }
+
+    this.decoder.reset();
+    const self = this;
+    return new Promise((resolve, reject) => {
+      const responses: Buffer[] = [];
+      let sent = 0;
+      let answered = 0;
+      // first failed response, the batch is rejected once the commands in flight are answered
+      let failure: any;
+      let timer: NodeJS.Timeout | undefined;
+      // the timeout applies to the oldest command waiting for its response, restarted while bytes come in
+      const armTimer = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => self.abort(new SerialTimeoutError(code, timeout)), timeout);
+      };
+      const cancellation = token?.onCancellationRequested(() => self.abort(new SerialCancelledError(code)));
+      const settle = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        self.onActivity = undefined;
+        cancellation?.dispose();
+      };
+      const fill = () => {
+        while (!failure && sent < buffers.length && sent - answered < window) {
+          self.write(Crc.coverCrc(buffers[sent]));
+          sent++;
+        }
+      };
+      const next = () => {
+        if (failure && answered === sent) {
+          settle();
+          reject(failure);
+        } else if (answered === buffers.length) {
+          settle();
+          resolve(responses);
+        } else {
+          armTimer();
+          fill();
+        }
+      };
+
+      self.resolve = (value: Buffer) => {
+        if (answered >= sent) {
+          return;
+        }
+        answered++;
+        if (!failure) {
+          responses.push(value);
+          try {
+            options.onResponse?.(responses.length - 1, value);
+          } catch (e) {
+            failure = e;
+          }
+        }
+        next();
+      };
+      self.reject = (reason: any) => {
+        // the device still answers the commands it received after a failed one
+        if ((reason instanceof SerialStatusError || reason instanceof SerialFrameError) && answered < sent) {
+          answered++;
+          failure = failure ?? reason;
+          next();
+          return;
+        }
+        settle();
+        reject(reason instanceof SerialCancelledError ? reason : failure ?? reason);
+      };
+      self.onActivity = armTimer;
+      armTimer();
+      fill();
+    });
+  }
+
+  private transmitRaw(
+    code: number,
+    data: Buffer,
+    isComplete: (received: Buffer) => boolean,
+    options: CommandOptions
+  ): Promise<Buffer> {
+    const timeout = options.timeout ?? getCommandTimeout(code);
+    const token = options.token;
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new SerialCancelledError(code));
+    }
+    if (!this.port.isOpen) {
+      return Promise.reject(new SerialError(`${this.com} is not connected.`));
+    }
+
+    const self = this;
+    return new Promise((resolve, reject) => {
+      let received = Buffer.from([]);
+      let settled = false;
+      let sliceTimer: NodeJS.Timeout | undefined;
+      let timer: NodeJS.Timeout | undefined;
+      const armTimer = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => self.abort(new SerialTimeoutError(code, timeout)), timeout);
+      };
+      const cancellation = token?.onCancellationRequested(() => self.abort(new SerialCancelledError(code)));
+      const settle = () => {
+        settled = true;
+        self.rawReceiver = undefined;
+        self.onActivity = undefined;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        if (sliceTimer) {
+          clearTimeout(sliceTimer);
+        }
+        cancellation?.dispose();
+      };
+
+      self.resolve = (value: Buffer) => {
+        settle();
+        resolve(value);
+      };
+      self.reject = (reason: any) => {
+        settle();
+        reject(reason);
+      };
+      self.rawReceiver = (chunk: Buffer) => {
+        received = Buffer.concat([received, chunk]);
+        if (isComplete(received)) {
+          self.isBusy = false;
+          ProtocolTrace.received(self.com, code, received);
+          self.resolve(received);
+        }
+      };
+      // masked once as a whole, the slices could split a credential
+      const masked = ProtocolTrace.mask(code, data);
+      const writeSlice = (start: number) => {
+        if (settled) {
+          return;
+        }
+        const end = start + RAW_SLICE_LENGTH;
+        self.write(data.slice(start, end), code, masked?.slice(start, end));
+        if (end < data.length) {
+          sliceTimer = setTimeout(() => writeSlice(end), RAW_SLICE_DELAY);
+        }
+      };
+      self.onActivity = armTimer;
+      armTimer();
+      writeSlice(0);
+    });
+  }
+
+  /**
+   * Drop the pending command, discarding any partially received response
+   */
+  abort(reason: Error): void {
+    ProtocolTrace.error(this.com, this.lastCode, reason);
+    this.rawReceiver = undefined;
+    this.decoder.reset();
+    this.isBusy = false;
+    this.reject(reason);
+  }
+
+  /**
+   * @param rawCode Command an unframed request stands for, framed requests start with their code
+   * @param masked Bytes to trace instead of `data` when credentials were masked out of its request
+   */
+  write(data: Buffer, rawCode?: number, masked?: Buffer): void {
     try {
       this.isBusy = true;
+      this.lastCode = rawCode ?? data[0];
+      if (rawCode === undefined) {
+        ProtocolTrace.request(this.com, data);
+      } else {
+        ProtocolTrace.sent(this.com, rawCode, data, masked);
+      }
       this.port.write(data);
       this.port.drain((err: Error | null | undefined) => {
         if (err) {
@@ -70,39 +379,135 @@ class SerialConnection {
   }
 
   onData(chunk: Buffer): void {
-    this.received = Buffer.concat([this.received, chunk]);
-    // DOES NOT SEEM TO BE USEFUL CHECK
-    // if (this.received.slice(0, 3).compare(Buffer.from(HEAD_DATA)) !== 0) {
-    //   console.log('[Error] boot start failed.');
-    //   this.reject(comErroMessage);
-    //   return;
-    // }
-
-    if (Crc.checkReceiveCompleted(this.received)) {
-      if (this.received[4] === 0x00) {
-        const buf = this.received.slice(5, -5);
-        this.resolve(buf);
-      } else {
-        this.reject(comErroMessage);
-      }
-      this.isBusy = false;
+    ProtocolTrace.raw(this.com, chunk);
+    // command timeouts bound the silence of the device, not the length of its response
+    this.onActivity?.();
+    if (this.rawReceiver) {
+      this.rawReceiver(chunk);
+      return;
+    }
+    this.decoder.push(chunk);
+  }
+
+  onFrame(frame: Frame): void {
+    ProtocolTrace.response(this.com, this.lastCode, frame);
+    this.isBusy = false;
+    if (frame.status === STATUS_OK) {
+      this.resolve(frame.payload);
+    } else {
+      this.reject(new SerialStatusError(frame.status));
     }
   }
 
+  onFrameError(error: SerialFrameError): void {
+    console.log('[Error] dropped frame', error.message);
+    ProtocolTrace.error(this.com, this.lastCode, error);
+    this.isBusy = false;
+    this.reject(error);
+  }
+
   onError(err: any): void {
     console.log(err);
     this.isBusy = false;
+    // failing to open means the device is not plugged (yet)
+    if (!this.port.isOpen && !this.closing) {
+      this.setState('disconnected');
+      this.scheduleReconnect();
+    }
   }
 
   onOpen(err: unknown): void {
     if (!err) {
       console.log(`opened connection on ${this.com}`);
+      this.applyControlLines();
+      this.reconnectDelay = RECONNECT_DELAY;
+      this.setState('connected');
       this.onOpenCb(err);
     }
   }
 
+  private applyControlLines() {
+    const { dtr, rts } = this.settings;
+    if (dtr === undefined && rts === undefined) {
+      return;
+    }
+    // serialport fills missing flags with its defaults, only send the configured ones
+    const signals = {
+      ...(dtr !== undefined ? { dtr } : {}),
+      ...(rts !== undefined ? { rts } : {}),
+    };
+    this.port.set(signals, (err) => {
+      if (err) {
+        console.log(`setting DTR/RTS on ${this.com} failed`, err.message);
+      }
+    });
+  }
+
+  /**
+   * Port closed by the device (reset, unplugged...), wait for it to come back
+   */
+  onClose(): void {
+    this.isBusy = false;
+    this.setState('disconnected');
+    if (this.closing) {
+      return;
+    }
+    console.log(`lost connection on ${this.com}`);
+    const error = new SerialDisconnectedError(`Connection to ${this.com} lost.`);
+    this.abort(error);
+    this.queue.clear(error);
+    this.scheduleReconnect();
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.connectionState === state) {
+      return;
+    }
+    this.connectionState = state;
+    this.events.onStateChange?.(state);
+  }
+
+  private scheduleReconnect() {
+    if (this.closing || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(() => this.reconnect(), this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  private async reconnect() {
+    this.reconnectTimer = undefined;
+    const ports = await SerialConnection.getCOMs();
+    if (this.closing) {
+      return;
+    }
+    if (!ports.some((port) => port.path === this.com)) {
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.setState('reconnecting');
+    this.port.open((err) => {
+      if (err) {
+        console.log(`reopening ${this.com} failed`, err.message);
+        this.setState('disconnected');
+        this.scheduleReconnect();
+      }
+    });
+  }
+
   close(cb: any) {
-    this.port.close(cb);
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.queue.clear(new SerialDisconnectedError(`Connection to ${this.com} closed.`));
+    if (this.port.isOpen) {
+      this.port.close(cb);
+    } else {
+      cb(null);
+    }
     this.isBusy = false;
   }
 }
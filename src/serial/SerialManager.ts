@@ -1,38 +1,298 @@
+import { parseDeviceInfo } from './DeviceInfo';
+import { listDirCode, parseListing, parseNames, parseStat, statCode } from './DirectoryEntry';
+import { SerialCancelledError, SerialError, SerialUploadError } from './errors';
+import {
+  checkOutput,
+  HASH_TIMEOUT,
+  hashDirCode,
+  mkdirCode,
+  parseHashes,
+  renameCode,
+  rmdirCode,
+} from './FileHash';
+import { fileSizeCode, parseFileSize, parseStorageUsage, statvfsCode } from './FileSize';
+import RawReplTransport from './RawReplTransport';
+import { SerialBackend } from './SerialBackend';
 import SerialConnection from './SerialConnection';
-import { COMMAND_CODES } from './types';
+import { Connection, Transport } from './Transport';
+import {
+  CancellationToken,
+  CommandOptions,
+  ConnectionEvents,
+  ConnectionState,
+  DEFAULT_UPLOAD_RETRIES,
+  DeviceInfo,
+  DirectoryEntry,
+  ExecResult,
+  SerialSettings,
+  SerialTransportKind,
+  StorageUsage,
+  TransportKind,
+  UploadOptions,
+  UploadProgress,
+  WifiNetwork,
+} from './types';
+import UiflowTransport from './UiflowTransport';
+import WebReplConnection from './WebReplConnection';
+import WebReplTransport from './WebReplTransport';
+import { parseWifiScan, WIFI_SCAN_CODE } from './Wifi';
 
 type Connections = {
-  [key: string]: SerialConnection;
+  [key: string]: Connection;
 };
 
-export const MAX_CHUNK_LENGTH = 2 ** 8; // 256 bytes
-class SerialManager {
+type Transports = {
+  [key: string]: Transport;
+};
+
+type DeviceInfos = {
+  [key: string]: DeviceInfo;
+};
+
+type QueueListener = (com: string, depth: number) => void;
+
+type StateListener = (com: string, state: ConnectionState) => void;
+
+export const MAX_CHUNK_LENGTH = 2 ** 8; // 256 bytes, accepted by every firmware
+export const MAX_NEGOTIATED_CHUNK_LENGTH = 2 ** 12; // 4 KB
+
+// Protocols tried in turn when the transport of a device is not configured
+const PROBED_TRANSPORTS: SerialTransportKind[] = ['uiflow', 'rawRepl'];
+
+const createTransport = (connection: SerialConnection, kind?: SerialTransportKind): Transport =>
+  kind === 'rawRepl' ? new RawReplTransport(connection) : new UiflowTransport(connection);
+
+class SerialManager implements SerialBackend {
   private m5: Connections;
+  private transports: Transports = {};
+  private infos: DeviceInfos = {};
+  // chunk length accepted by each device, negotiated on the first upload
+  private chunkLengths: { [com: string]: number } = {};
+  private queueListeners: QueueListener[] = [];
+  private stateListeners: StateListener[] = [];
 
   constructor() {
     this.m5 = {};
   }
 
-  connect(com: string, openedCb: (err: unknown) => void) {
+  connect(com: string, openedCb: (err: unknown) => void, settings?: SerialSettings) {
     console.log('opening connection', com);
 
-    this.m5[com] = new SerialConnection(com, openedCb);
+    const transport = settings?.transport ?? 'auto';
+    const connection = new SerialConnection(
+      com,
+      async (err) => {
+        // the firmware may have changed while the device was unplugged, probe on every open
+        if (!err && transport === 'auto') {
+          await this.probe(com, connection);
+        }
+        openedCb(err);
+      },
+      this.connectionEvents(com),
+      settings
+    );
+    this.m5[com] = connection;
+    this.transports[com] = createTransport(connection, transport === 'auto' ? undefined : transport);
+  }
+
+  /**
+   * Open the WebREPL of a device on Wi-Fi, `id` being given by toWebReplId.
+   * openedCb gets an error when the password is refused.
+   */
+  connectWebRepl(id: string, password: string, openedCb: (err: unknown) => void) {
+    console.log('opening WebREPL connection', id);
+
+    const connection = new WebReplConnection(
+      id,
+      password,
+      async (err) => {
+        if (!err) {
+          // finds where the file system is mounted
+          await this.transports[id]?.ping();
+        }
+        openedCb(err);
+      },
+      this.connectionEvents(id)
+    );
+    this.m5[id] = connection;
+    this.transports[id] = new WebReplTransport(connection);
+  }
+
+  private connectionEvents(com: string): ConnectionEvents {
+    return {
+      onQueueChange: (depth) => this.queueListeners.forEach((listener) => listener(com, depth)),
+      onStateChange: (state) => this.stateListeners.forEach((listener) => listener(com, state)),
+    };
+  }
+
+  /**
+   * Use the first protocol the firmware answers, UIFlow when none does
+   */
+  private async probe(com: string, connection: SerialConnection) {
+    for (const kind of PROBED_TRANSPORTS) {
+      const transport = createTransport(connection, kind);
+      if (await transport.ping()) {
+        console.log(`${com} speaks ${kind}`);
+        this.transports[com] = transport;
+        return;
+      }
+    }
+    this.transports[com] = createTransport(connection);
+  }
+
+  has(com: string): boolean {
+    return !!this.m5[com];
+  }
+
+  /**
+   * Protocol used with the device
+   */
+  transport(com: string): TransportKind | undefined {
+    return this.transports[com]?.kind;
+  }
+
+  /**
+   * Be notified when a device is lost, reconnecting or connected again
+   */
+  onStateChange(listener: StateListener): { dispose(): void } {
+    this.stateListeners.push(listener);
+    return {
+      dispose: () => {
+        this.stateListeners = this.stateListeners.filter((l) => l !== listener);
+      },
+    };
+  }
+
+  state(com: string): ConnectionState {
+    return this.m5[com] ? this.m5[com].state : 'disconnected';
+  }
+
+  /**
+   * Be notified whenever commands are queued or completed on a device
+   */
+  onQueueChange(listener: QueueListener): { dispose(): void } {
+    this.queueListeners.push(listener);
+    return {
+      dispose: () => {
+        this.queueListeners = this.queueListeners.filter((l) => l !== listener);
+      },
+    };
+  }
+
+  queueDepth(com: string): number {
+    return this.m5[com] ? this.m5[com].queueDepth : 0;
+  }
+
+  /**
+   * Check the device answers in USB mode or in its raw REPL, over USB or WebREPL
+   */
+  ping(com: string, options?: CommandOptions): Promise<boolean> {
+    return this.transports[com].ping(options);
+  }
+
+  async getInfo(com: string, options?: CommandOptions): Promise<DeviceInfo> {
+    const info = parseDeviceInfo(await this.transports[com].getInfo(options));
+    this.infos[com] = info;
+    return info;
+  }
+
+  /**
+   * Last info retrieved with getInfo
+   */
+  deviceInfo(com: string): DeviceInfo | undefined {
+    return this.infos[com];
+  }
+
+  exec(com: string, code: string, options?: CommandOptions): Promise<Buffer> {
+    return this.transports[com].exec(code, options);
+  }
+
+  execute(com: string, code: string, options?: CommandOptions): Promise<ExecResult> {
+    return this.transports[com].execute(code, options);
+  }
+
+  /**
+   * Entries of a directory with their type, size and modification time, read with os.ilistdir.
+   * Firmwares not returning the exec output fall back to the names of the listDir command.
+   */
+  async listDir(com: string, dirname: string, options?: CommandOptions): Promise<DirectoryEntry[]> {
+    const transport = this.transports[com];
+    const entries = parseListing(await this.exec(com, listDirCode(transport.devicePath(dirname)), options));
+    if (entries) {
+      return entries;
+    }
+    return parseNames(await transport.listNames(dirname, options));
+  }
+
+  /**
+   * Type, size and modification time of a file or directory, undefined when it does not exist
+   */
+  async stat(
+    com: string,
+    filepath: string,
+    options?: CommandOptions
+  ): Promise<DirectoryEntry | null | undefined> {
+    const name = filepath.split('/').slice(-1)[0];
+    const code = statCode(this.transports[com].devicePath(filepath));
+    return parseStat(name, await this.exec(com, code, options));
+  }
+
+  /**
+   * sha256 of each file under a directory by path relative to it, empty when it does not exist
+   */
+  async hashDir(com: string, dirname: string, options?: CommandOptions): Promise<Map<string, string>> {
+    const code = hashDirCode(this.transports[com].devicePath(dirname));
+    const hashes = parseHashes(await this.exec(com, code, { timeout: HASH_TIMEOUT, ...options }));
+    if (!hashes) {
+      throw new SerialError(`The firmware of ${com} does not return the output of python code.`);
+    }
+    return hashes;
+  }
+
+  /**
+   * Create a directory and its missing parents
+   */
+  async mkdir(com: string, dirname: string, options?: CommandOptions): Promise<void> {
+    checkOutput(await this.exec(com, mkdirCode(this.transports[com].devicePath(dirname)), options));
   }
 
-  exec(com: string, code: string): Promise<Buffer> {
-    return this.m5[com].sendCommand(COMMAND_CODES.exec, code);
+  /**
+   * Rename or move a file or directory
+   */
+  async rename(com: string, from: string, to: string, options?: CommandOptions): Promise<void> {
+    const transport = this.transports[com];
+    checkOutput(
+      await this.exec(com, renameCode(transport.devicePath(from), transport.devicePath(to)), options)
+    );
   }
 
-  listDir(com: string, dirname: string): Promise<Buffer> {
-    return this.m5[com].sendCommand(COMMAND_CODES.listDir, dirname);
+  /**
+   * Remove an empty directory
+   */
+  async rmdir(com: string, dirname: string, options?: CommandOptions): Promise<void> {
+    checkOutput(await this.exec(com, rmdirCode(this.transports[com].devicePath(dirname)), options));
+  }
+
+  /**
+   * Total and free bytes of the file system mounted on a path, read with os.statvfs. Undefined when
+   * nothing is mounted there or the firmware does not return the exec output.
+   */
+  async statvfs(
+    com: string,
+    mountpoint: string,
+    options?: CommandOptions
+  ): Promise<StorageUsage | undefined> {
+    return parseStorageUsage(
+      await this.exec(com, statvfsCode(this.transports[com].devicePath(mountpoint)), options)
+    );
   }
 
   isBusy(com: string) {
     return this.m5[com].busy;
   }
 
-  readFile(com: string, filename: string): Promise<Buffer> {
-    return this.m5[com].sendCommand(COMMAND_CODES.getFile, filename);
+  readFile(com: string, filename: string, options?: CommandOptions): Promise<Buffer> {
+    return this.transports[com].readFile(filename, options);
   }
 
   download(
@@ -40,64 +300,210 @@ class SerialManager {
     filename: string,
     content: string | Buffer,
     flag: number,
-    isBinary?: boolean
+    isBinary?: boolean,
+    options?: CommandOptions
   ): Promise<Buffer> {
     const data = isBinary ? (content as Buffer) : Buffer.from(content);
-    const buffer = Buffer.concat([
-      Buffer.from([COMMAND_CODES.downloadFile]),
-      Buffer.from(filename),
-      Buffer.from([0x00]),
-      Buffer.from([flag]),
-      data,
-    ]);
-    return this.m5[com].sendCommandWithBuffer(buffer);
+    return this.transports[com].writeFile(filename, data, flag, options);
   }
 
+  /**
+   * Upload a file in chunks: the first one overwrites the file, the others are appended to it.
+   * The chunk length is negotiated with the device on the first upload and remembered until
+   * it disconnects, appended chunks are then pipelined.
+   * A failed transfer is resumed from the size of the file on the device, up to `retries` times.
+   * A cancelled or given up upload is rejected with a SerialUploadError telling how much of
+   * the file was written.
+   */
   async bulkDownload(
     com: string,
     filename: string,
     content: string | Buffer,
     isBinary: boolean,
-    progressCb: (chunkIndex: number) => void
+    progressCb: (progress: UploadProgress) => void,
+    token?: CancellationToken,
+    options: UploadOptions = {}
   ): Promise<Buffer> {
-    let dataChunks = [];
+    const data = isBinary ? (content as Buffer) : Buffer.from(content);
+    const retries = options.retries ?? DEFAULT_UPLOAD_RETRIES;
+    const startedAt = Date.now();
+    let transferred = 0;
+    // bytes of the file confirmed by the device
+    let written = 0;
+    const onWritten = (offset: number) => {
+      transferred += offset - written;
+      written = offset;
+      const elapsed = (Date.now() - startedAt) / 1000;
+      progressCb({
+        sent: written,
+        total: data.length,
+        bytesPerSecond: elapsed > 0 ? transferred / elapsed : 0,
+      });
+    };
 
-    if (content.length > MAX_CHUNK_LENGTH) {
-      let part = Math.ceil(content.length / MAX_CHUNK_LENGTH);
-      for (let i = 0; i < part; i++) {
-        dataChunks[i] = content.slice(i * MAX_CHUNK_LENGTH, MAX_CHUNK_LENGTH * (i + 1));
+    if (options.resumeFrom) {
+      written = (await this.resumeOffset(com, filename, options.resumeFrom, 0)) ?? 0;
+    }
+    let window = this.transports[com].pipelineDepth;
+    for (let attempt = 0; ; attempt++) {
+      const chunkLength = this.chunkLengths[com] ?? MAX_CHUNK_LENGTH;
+      try {
+        await this.transfer(com, filename, data, written, onWritten, window, token);
+        return Buffer.from('done');
+      } catch (e) {
+        if (e instanceof SerialCancelledError) {
+          throw new SerialUploadError(filename, written, data.length, e);
+        }
+        // negotiate again next time in case the device got overwhelmed
+        delete this.chunkLengths[com];
+        // without pipelining, only the chunk following the confirmed ones may have been written
+        const pending = window === 1 ? Math.min(chunkLength, data.length - written) : 0;
+        // nothing written means the previous file may still be there, start over
+        const offset = written > 0 ? await this.resumeOffset(com, filename, written, pending) : 0;
+        if (attempt >= retries || offset === undefined) {
+          throw new SerialUploadError(filename, offset ?? written, data.length, e);
+        }
+        console.log(`retrying upload of ${filename} from ${offset}`, e instanceof Error ? e.message : e);
+        written = offset;
+        window = 1;
       }
     }
+  }
 
-    if (!dataChunks.length) {
-      return this.download(com, filename, content, 0x01); // overwrite
-    } else {
-      for (let i = 0; i < dataChunks.length; i++) {
-        if (i === 0) {
-          const result = await this.download(com, filename, dataChunks[i], 0x01, isBinary); // overwrite
-          progressCb(i + 1);
-          if (result.toString().indexOf('done') < 0) {
-            return Promise.reject(
-              Buffer.from(`An error occurred while saving ${filename}: ${result.toString()}`)
-            );
-          }
-          continue;
-        }
-        const result = await this.download(com, filename, dataChunks[i], 0x00, isBinary); // append
-        if (result.toString().indexOf('done') < 0) {
-          return Promise.reject(
-            Buffer.from(`An error occurred while saving ${filename}: ${result.toString()}`)
-          );
+  /**
+   * Size of the file on the device, -1 when it does not exist
+   */
+  async fileSize(com: string, filename: string, options?: CommandOptions): Promise<number> {
+    const output = await this.exec(com, fileSizeCode(this.transports[com].devicePath(filename)), options);
+    const size = parseFileSize(output);
+    if (size === undefined) {
+      throw new SerialError(`Unexpected size of ${filename}: ${output.toString()}`);
+    }
+    return size;
+  }
+
+  /**
+   * Where to resume an upload: `written` when the file on the device has this size, or with
+   * the `pending` bytes of a chunk written without its reply, 0 to start over when the file
+   * has anything else, undefined when the device does not answer
+   */
+  private async resumeOffset(
+    com: string,
+    filename: string,
+    written: number,
+    pending: number
+  ): Promise<number | undefined> {
+    try {
+      const size = await this.fileSize(com, filename);
+      return size === written || (pending > 0 && size === written + pending) ? size : 0;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Send the content from `offset`, calling onWritten with the offset reached after each chunk
+   */
+  private async transfer(
+    com: string,
+    filename: string,
+    data: Buffer,
+    offset: number,
+    onWritten: (offset: number) => void,
+    window: number,
+    token?: CancellationToken
+  ): Promise<void> {
+    if (offset === 0) {
+      if (data.length <= MAX_CHUNK_LENGTH) {
+        await this.writeChunk(com, filename, data, 0x01, token); // overwrite
+        onWritten(data.length);
+        return;
+      }
+      const known = this.chunkLengths[com];
+      if (known) {
+        await this.writeChunk(com, filename, data.slice(0, known), 0x01, token); // overwrite
+      }
+      offset = Math.min(known || (await this.negotiateChunkLength(com, filename, data, token)), data.length);
+      onWritten(offset);
+    }
+
+    const chunkLength = this.chunkLengths[com] ?? MAX_CHUNK_LENGTH;
+    const ends: number[] = [];
+    const chunks: Buffer[] = [];
+    for (let start = offset; start < data.length; start += chunkLength) {
+      chunks.push(data.slice(start, start + chunkLength));
+      ends.push(Math.min(start + chunkLength, data.length));
+    }
+    await this.transports[com].appendChunks(filename, chunks, {
+      token,
+      window,
+      onResponse: (index, result) => {
+        this.checkChunkResult(filename, result);
+        onWritten(ends[index]);
+      },
+    });
+  }
+
+  /**
+   * Overwrite the file with growing first chunks until the device refuses one or the maximum
+   * length is reached. Each attempt replaces the previous one, a refused chunk is written again
+   * with the last accepted length.
+   */
+  private async negotiateChunkLength(
+    com: string,
+    filename: string,
+    data: Buffer,
+    token?: CancellationToken
+  ): Promise<number> {
+    let accepted = 0;
+    let length = MAX_CHUNK_LENGTH;
+    while (length <= MAX_NEGOTIATED_CHUNK_LENGTH) {
+      try {
+        await this.writeChunk(com, filename, data.slice(0, length), 0x01, token); // overwrite
+      } catch (e) {
+        if (e instanceof SerialCancelledError || !accepted) {
+          throw e;
         }
-        progressCb(i + 1);
+        await this.writeChunk(com, filename, data.slice(0, accepted), 0x01, token); // overwrite
+        break;
+      }
+      if (data.length <= length) {
+        // the whole file fits, the device may accept longer chunks
+        return length;
       }
+      accepted = length;
+      length *= 2;
     }
+    this.chunkLengths[com] = accepted;
+    return accepted;
+  }
+
+  private async writeChunk(
+    com: string,
+    filename: string,
+    chunk: Buffer,
+    flag: number,
+    token?: CancellationToken
+  ): Promise<void> {
+    this.checkChunkResult(filename, await this.download(com, filename, chunk, flag, true, { token }));
+  }
+
+  private checkChunkResult(filename: string, result: Buffer) {
+    if (result.toString().indexOf('done') < 0) {
+      throw new SerialError(`An error occurred while saving ${filename}: ${result.toString()}`);
+    }
+  }
+
+  setWifi(com: string, ssid: string, password: string, options?: CommandOptions): Promise<Buffer> {
+    return this.transports[com].setWifi(ssid, password, options);
+  }
 
-    return Promise.resolve(Buffer.from('done'));
+  async scanWifi(com: string, options?: CommandOptions): Promise<WifiNetwork[]> {
+    return parseWifiScan(await this.exec(com, WIFI_SCAN_CODE, options));
   }
 
-  removeFile(com: string, filename: string) {
-    return this.m5[com].sendCommand(COMMAND_CODES.removeFile, filename);
+  removeFile(com: string, filename: string, options?: CommandOptions) {
+    return this.transports[com].removeFile(filename, options);
   }
 
   disconnect(com: string) {
@@ -107,6 +513,9 @@ class SerialManager {
           console.log('Error while disconecting', error);
         }
         delete this.m5[com];
+        delete this.transports[com];
+        delete this.infos[com];
+        delete this.chunkLengths[com];
       });
     }
   }
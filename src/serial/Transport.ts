@@ -0,0 +1,55 @@
+import { CommandOptions, ConnectionState, ExecResult, PipelineOptions, TransportKind } from './types';
+
+/**
+ * Link to a device, a serial port or a WebREPL socket
+ */
+export interface Connection {
+  readonly state: ConnectionState;
+  readonly busy: boolean;
+  readonly queueDepth: number;
+  close(cb: (err?: Error | null) => void): void;
+}
+
+/**
+ * Connection able to exchange bytes without the UIFlow framing, see SerialConnection.sendRaw
+ */
+export interface RawChannel {
+  sendRaw(
+    code: number,
+    data: Buffer,
+    isComplete: (received: Buffer) => boolean,
+    options?: CommandOptions
+  ): Promise<Buffer>;
+}
+
+/**
+ * Commands of a device firmware, sent over the connection owning its port or socket.
+ * Paths are the ones of the extension, rooted at /flash.
+ */
+export interface Transport {
+  readonly kind: TransportKind;
+  // appended chunks sent before waiting for the reply of the first one
+  readonly pipelineDepth: number;
+
+  /**
+   * Check the firmware answers with this protocol
+   */
+  ping(options?: CommandOptions): Promise<boolean>;
+  // "firmware,board" or a JSON object, see parseDeviceInfo
+  getInfo(options?: CommandOptions): Promise<Buffer>;
+  // output of the code, 'done' when it prints nothing
+  exec(code: string, options?: CommandOptions): Promise<Buffer>;
+  // code of the user, telling whether it failed rather than answering 'done'
+  execute(code: string, options?: CommandOptions): Promise<ExecResult>;
+  // path of a file in the code sent with exec
+  devicePath(filepath: string): string;
+  // comma separated names of a directory, for firmwares not returning the exec output
+  listNames(dirname: string, options?: CommandOptions): Promise<Buffer>;
+  readFile(filename: string, options?: CommandOptions): Promise<Buffer>;
+  // flag 0x01 overwrites the file and 0x00 appends to it, answers 'done'
+  writeFile(filename: string, data: Buffer, flag: number, options?: CommandOptions): Promise<Buffer>;
+  // append chunks one after the other, answers 'done' for each of them
+  appendChunks(filename: string, chunks: Buffer[], options?: PipelineOptions): Promise<Buffer[]>;
+  removeFile(filename: string, options?: CommandOptions): Promise<Buffer>;
+  setWifi(ssid: string, password: string, options?: CommandOptions): Promise<Buffer>;
+}
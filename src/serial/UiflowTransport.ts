@@ -0,0 +1,92 @@
+import { toDevicePath } from './FileSize';
+import SerialConnection from './SerialConnection';
+import { Transport } from './Transport';
+import { COMMAND_CODES, CommandOptions, ExecResult, PipelineOptions } from './types';
+import { createWifiData } from './Wifi';
+
+const TRACEBACK = 'Traceback (most recent call last):';
+
+/**
+ * Framed commands of the UIFlow firmware in USB mode
+ */
+class UiflowTransport implements Transport {
+  readonly kind = 'uiflow';
+
+  constructor(private readonly connection: SerialConnection) {}
+
+  get pipelineDepth(): number {
+    return this.connection.pipelineDepth;
+  }
+
+  async ping(options?: CommandOptions): Promise<boolean> {
+    try {
+      await this.connection.sendCommand(COMMAND_CODES.isOnline, '', options);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  getInfo(options?: CommandOptions): Promise<Buffer> {
+    return this.connection.sendCommand(COMMAND_CODES.getInfo, '', options);
+  }
+
+  exec(code: string, options?: CommandOptions): Promise<Buffer> {
+    return this.connection.sendCommand(COMMAND_CODES.exec, code, options);
+  }
+
+  /**
+   * The firmware prints the traceback after the output of the code, 'done' tells nothing about it
+   */
+  async execute(code: string, options?: CommandOptions): Promise<ExecResult> {
+    const answer = await this.exec(code, options);
+    const traceback = answer.indexOf(TRACEBACK);
+    if (traceback < 0) {
+      return { output: answer, error: '' };
+    }
+    return { output: answer.slice(0, traceback), error: answer.slice(traceback).toString().trim() };
+  }
+
+  devicePath(filepath: string): string {
+    return toDevicePath(filepath);
+  }
+
+  listNames(dirname: string, options?: CommandOptions): Promise<Buffer> {
+    return this.connection.sendCommand(COMMAND_CODES.listDir, dirname, options);
+  }
+
+  readFile(filename: string, options?: CommandOptions): Promise<Buffer> {
+    return this.connection.sendCommand(COMMAND_CODES.getFile, filename, options);
+  }
+
+  writeFile(filename: string, data: Buffer, flag: number, options?: CommandOptions): Promise<Buffer> {
+    return this.connection.sendCommandWithBuffer(this.downloadBuffer(filename, data, flag), options);
+  }
+
+  appendChunks(filename: string, chunks: Buffer[], options?: PipelineOptions): Promise<Buffer[]> {
+    return this.connection.sendPipelined(
+      chunks.map((chunk) => this.downloadBuffer(filename, chunk, 0x00)),
+      options
+    );
+  }
+
+  removeFile(filename: string, options?: CommandOptions): Promise<Buffer> {
+    return this.connection.sendCommand(COMMAND_CODES.removeFile, filename, options);
+  }
+
+  setWifi(ssid: string, password: string, options?: CommandOptions): Promise<Buffer> {
+    return this.connection.sendCommand(COMMAND_CODES.setWifi, createWifiData(ssid, password), options);
+  }
+
+  private downloadBuffer(filename: string, data: Buffer, flag: number): Buffer {
+    return Buffer.concat([
+      Buffer.from([COMMAND_CODES.downloadFile]),
+      Buffer.from(filename),
+      Buffer.from([0x00]),
+      Buffer.from([flag]),
+      data,
+    ]);
+  }
+}
+
+export default UiflowTransport;
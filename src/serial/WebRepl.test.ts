@@ -0,0 +1,78 @@
+import { SerialError } from './errors';
+import {
+  fileRequest,
+  fileResponse,
+  isWebRepl,
+  parseFileRequest,
+  parseFileResponse,
+  parseWebReplAddress,
+  toWebReplId,
+  WEBREPL_GET_FILE,
+  WEBREPL_PUT_FILE,
+} from './WebRepl';
+
+describe('WebRepl', () => {
+  describe('parseWebReplAddress', () => {
+    test('should default to the WebREPL port', () => {
+      // ASSERT
+      expect(parseWebReplAddress('192.168.4.1')).toStrictEqual({ host: '192.168.4.1', port: 8266 });
+      expect(parseWebReplAddress(' m5stack.local:8000 ')).toStrictEqual({
+        host: 'm5stack.local',
+        port: 8000,
+      });
+    });
+
+    test('should parse device names back', () => {
+      // ARRANGE
+      const id = toWebReplId({ host: '192.168.4.1', port: 8266 });
+
+      // ASSERT
+      expect(id).toBe('webrepl:192.168.4.1:8266');
+      expect(isWebRepl(id)).toBe(true);
+      expect(isWebRepl('/dev/ttyUSB0')).toBe(false);
+      expect(parseWebReplAddress(id)).toStrictEqual({ host: '192.168.4.1', port: 8266 });
+    });
+
+    test('should reject anything else', () => {
+      // ASSERT
+      expect(parseWebReplAddress('http://192.168.4.1/')).toBe(undefined);
+      expect(parseWebReplAddress('')).toBe(undefined);
+    });
+  });
+
+  describe('fileRequest', () => {
+    test('should write the 82 bytes header', () => {
+      // ACT
+      const request = fileRequest(WEBREPL_PUT_FILE, '/main.py', 300);
+
+      // ASSERT
+      expect(request.length).toBe(82);
+      expect(request.slice(0, 4)).toStrictEqual(Buffer.from([0x57, 0x41, 0x01, 0x00]));
+      expect(request.readUInt32LE(12)).toBe(300);
+      expect(request.readUInt16LE(16)).toBe(8);
+      expect(parseFileRequest(request)).toStrictEqual({
+        type: WEBREPL_PUT_FILE,
+        size: 300,
+        filename: '/main.py',
+      });
+    });
+
+    test('should refuse names longer than 64 bytes', () => {
+      // ASSERT
+      expect(() => fileRequest(WEBREPL_GET_FILE, `/${'a'.repeat(64)}`)).toThrow(SerialError);
+    });
+  });
+
+  describe('parseFileResponse', () => {
+    test('should return the status', () => {
+      // ASSERT
+      expect(parseFileResponse(fileResponse(0))).toBe(0);
+      expect(parseFileResponse(Buffer.from([0x57, 0x42, 0x01, 0x00]))).toBe(1);
+    });
+
+    test('should reject anything else', () => {
+      // ASSERT
+      expect(() => parseFileResponse(Buffer.from('OK'))).toThrow('Unexpected WebREPL answer: 4f4b');
+    });
+  });
+});
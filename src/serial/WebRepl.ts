@@ -0,0 +1,99 @@
+import { SerialError } from './errors';
+
+export const DEFAULT_WEBREPL_PORT = 8266;
+
+// Devices reached over WebREPL are named "webrepl:<host>:<port>" next to serial port paths
+const WEBREPL_PREFIX = 'webrepl:';
+
+export const WEBREPL_PASSWORD_PROMPT = 'Password: ';
+export const WEBREPL_CONNECTED = 'WebREPL connected';
+export const WEBREPL_ACCESS_DENIED = 'Access denied';
+
+// File transfer requests: "WA", type, flags, offset, size, name length and a 64 bytes name
+export const WEBREPL_PUT_FILE = 1;
+export const WEBREPL_GET_FILE = 2;
+export const REQUEST_LENGTH = 82;
+const MAX_FILENAME_LENGTH = 64;
+
+// Sent by the client for each block of a file it gets, answered with a 16 bits length and the
+// block, an empty block ends the file
+export const WEBREPL_NEXT_BLOCK = Buffer.from([0x00]);
+
+// File transfer responses: "WB" and a 16 bits status, 0 when the request succeeded
+export const RESPONSE_LENGTH = 4;
+const RESPONSE_SIGNATURE = 'WB';
+
+export type WebReplAddress = {
+  host: string;
+  port: number;
+};
+
+export const isWebRepl = (com: string): boolean => com.startsWith(WEBREPL_PREFIX);
+
+export const toWebReplId = ({ host, port }: WebReplAddress): string => `${WEBREPL_PREFIX}${host}:${port}`;
+
+/**
+ * Parse "host", "host:port" or a WebREPL device name, undefined when it is none of them
+ */
+export const parseWebReplAddress = (value: string): WebReplAddress | undefined => {
+  const match = /^(?:webrepl:)?([\w.-]+)(?::(\d{1,5}))?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return { host: match[1], port: match[2] ? parseInt(match[2], 10) : DEFAULT_WEBREPL_PORT };
+};
+
+/**
+ * File transfer request header
+ */
+export const fileRequest = (type: number, filename: string, size: number = 0): Buffer => {
+  const name = Buffer.from(filename);
+  if (name.length > MAX_FILENAME_LENGTH) {
+    throw new SerialError(`${filename} is too long for WebREPL, ${MAX_FILENAME_LENGTH} bytes at most.`);
+  }
+  const request = Buffer.alloc(REQUEST_LENGTH);
+  request.write('WA', 0);
+  request.writeUInt8(type, 2);
+  request.writeUInt8(0, 3); // flags
+  request.writeUInt32LE(0, 4); // offset, 64 bits
+  request.writeUInt32LE(0, 8);
+  request.writeUInt32LE(size, 12);
+  request.writeUInt16LE(name.length, 16);
+  name.copy(request, 18);
+  return request;
+};
+
+export type FileRequest = {
+  type: number;
+  size: number;
+  filename: string;
+};
+
+export const parseFileRequest = (request: Buffer): FileRequest => {
+  if (request.length < REQUEST_LENGTH || request.slice(0, 2).toString() !== 'WA') {
+    throw new SerialError(`Unexpected WebREPL request: ${request.toString('hex')}`);
+  }
+  const nameLength = request.readUInt16LE(16);
+  return {
+    type: request.readUInt8(2),
+    size: request.readUInt32LE(12),
+    filename: request.slice(18, 18 + nameLength).toString(),
+  };
+};
+
+/**
+ * Status of a file transfer response
+ */
+export const parseFileResponse = (response: Buffer): number => {
+  if (response.length < RESPONSE_LENGTH || response.slice(0, 2).toString() !== RESPONSE_SIGNATURE) {
+    throw new SerialError(`Unexpected WebREPL answer: ${response.toString('hex')}`);
+  }
+  return response.readUInt16LE(2);
+};
+
+export const fileResponse = (status: number): Buffer => {
+  const response = Buffer.alloc(RESPONSE_LENGTH);
+  response.write(RESPONSE_SIGNATURE, 0);
+  response.writeUInt16LE(status, 2);
+  return response;
+};
@@ -0,0 +1,387 @@
+import WebSocket from 'ws';
+import CommandQueue from './CommandQueue';
+import { SerialCancelledError, SerialDisconnectedError, SerialError, SerialTimeoutError } from './errors';
+import ProtocolTrace from './ProtocolTrace';
+import { CommandOptions, ConnectionEvents, ConnectionState, COMMAND_CODES, getCommandTimeout } from './types';
+import {
+  fileRequest,
+  parseFileResponse,
+  parseWebReplAddress,
+  RESPONSE_LENGTH,
+  WEBREPL_ACCESS_DENIED,
+  WEBREPL_CONNECTED,
+  WEBREPL_GET_FILE,
+  WEBREPL_NEXT_BLOCK,
+  WEBREPL_PASSWORD_PROMPT,
+  WEBREPL_PUT_FILE,
+} from './WebRepl';
+
+// Delays in ms between attempts to reach a lost device
+const RECONNECT_DELAY = 500;
+const MAX_RECONNECT_DELAY = 8000;
+
+// Bytes of a file sent per binary frame, as webrepl_cli.py does
+const PUT_BLOCK_LENGTH = 1024;
+
+/**
+ * MicroPython WebREPL of a device on Wi-Fi: text frames carry the REPL, binary frames the
+ * file transfers. Commands are queued and reconnection is handled like on a SerialConnection.
+ */
+class WebReplConnection {
+  private socket: WebSocket | undefined;
+  private isBusy: boolean = false;
+  private queue: CommandQueue;
+  private connectionState: ConnectionState | undefined;
+  private closing: boolean = false;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private reconnectDelay: number = RECONNECT_DELAY;
+  // REPL output received while logging in
+  private login: string = '';
+  private loggedIn: boolean = false;
+  // a device that never answered is not reconnected, the caller gets the failure instead
+  private opened: boolean = false;
+  private lastError: Error | undefined;
+  // code of the command in progress, replies and errors are traced under it
+  private lastCode: number | undefined;
+  // collect what the device sends back for the command in progress
+  private textReceiver: ((chunk: Buffer) => void) | undefined;
+  private binaryReceiver: ((chunk: Buffer) => void) | undefined;
+  // restarts the timeout of the pending command, the device is still sending its reply
+  private onActivity: (() => void) | undefined;
+  private reject: (reason: any) => void = () => {};
+
+  constructor(
+    private readonly com: string,
+    private readonly password: string,
+    private readonly onOpenCb: (err: unknown) => void,
+    private readonly events: ConnectionEvents = {}
+  ) {
+    this.queue = new CommandQueue(events.onQueueChange);
+    this.open();
+  }
+
+  get busy(): boolean {
+    return this.isBusy;
+  }
+
+  get queueDepth(): number {
+    return this.queue.depth;
+  }
+
+  get state(): ConnectionState {
+    return this.connectionState ?? 'disconnected';
+  }
+
+  /**
+   * Queue REPL input and collect the REPL output until `isComplete` accepts it,
+   * see SerialConnection.sendRaw
+   */
+  sendRaw(
+    code: number,
+    data: Buffer,
+    isComplete: (received: Buffer) => boolean,
+    options: CommandOptions = {}
+  ): Promise<Buffer> {
+    return this.queue.push(
+      () =>
+        this.transmit<Buffer>(code, options, (resolve) => {
+          let received = Buffer.from([]);
+          this.textReceiver = (chunk: Buffer) => {
+            received = Buffer.concat([received, chunk]);
+            if (isComplete(received)) {
+              ProtocolTrace.received(this.com, code, received);
+              resolve(received);
+            }
+          };
+          this.send(code, data.toString());
+        }),
+      options.priority
+    );
+  }
+
+  /**
+   * Content of a file read with the WebREPL get file request
+   */
+  getFile(filename: string, options: CommandOptions = {}): Promise<Buffer> {
+    const code = COMMAND_CODES.getFile;
+    return this.queue.push(
+      () =>
+        this.transmit<Buffer>(code, options, (resolve, reject) => {
+          const blocks: Buffer[] = [];
+          let received = Buffer.from([]);
+          let step: 'accepted' | 'block' | 'done' = 'accepted';
+          this.binaryReceiver = (chunk: Buffer) => {
+            received = Buffer.concat([received, chunk]);
+            while (received.length) {
+              if (step === 'block') {
+                const length = received.length >= 2 ? received.readUInt16LE(0) : -1;
+                if (length < 0 || received.length < 2 + length) {
+                  return;
+                }
+                blocks.push(received.slice(2, 2 + length));
+                received = received.slice(2 + length);
+                if (length) {
+                  this.send(code, WEBREPL_NEXT_BLOCK);
+                } else {
+                  step = 'done';
+                }
+                continue;
+              }
+              if (received.length < RESPONSE_LENGTH) {
+                return;
+              }
+              const status = parseFileResponse(received);
+              received = received.slice(RESPONSE_LENGTH);
+              if (status !== 0) {
+                reject(new SerialError(`Reading ${filename} failed (WebREPL status ${status}).`));
+                return;
+              }
+              if (step === 'done') {
+                const content = Buffer.concat(blocks);
+                ProtocolTrace.received(this.com, code, content);
+                resolve(content);
+                return;
+              }
+              step = 'block';
+              this.send(code, WEBREPL_NEXT_BLOCK);
+            }
+          };
+          this.send(code, fileRequest(WEBREPL_GET_FILE, filename));
+        }),
+      options.priority
+    );
+  }
+
+  /**
+   * Overwrite a file with the WebREPL put file request
+   */
+  putFile(filename: string, data: Buffer, options: CommandOptions = {}): Promise<void> {
+    const code = COMMAND_CODES.downloadFile;
+    return this.queue.push(
+      () =>
+        this.transmit<void>(code, options, (resolve, reject) => {
+          let received = Buffer.from([]);
+          let sent = false;
+          this.binaryReceiver = (chunk: Buffer) => {
+            received = Buffer.concat([received, chunk]);
+            if (received.length < RESPONSE_LENGTH) {
+              return;
+            }
+            const response = received.slice(0, RESPONSE_LENGTH);
+            const status = parseFileResponse(response);
+            received = received.slice(RESPONSE_LENGTH);
+            ProtocolTrace.received(this.com, code, response);
+            if (status !== 0) {
+              reject(new SerialError(`Writing ${filename} failed (WebREPL status ${status}).`));
+            } else if (sent) {
+              resolve();
+            } else {
+              sent = true;
+              for (let start = 0; start < data.length; start += PUT_BLOCK_LENGTH) {
+                this.send(code, data.slice(start, start + PUT_BLOCK_LENGTH));
+              }
+            }
+          };
+          this.send(code, fileRequest(WEBREPL_PUT_FILE, filename, data.length));
+        }),
+      options.priority
+    );
+  }
+
+  private transmit<T>(
+    code: number,
+    options: CommandOptions,
+    start: (resolve: (value: T) => void, reject: (reason: any) => void) => void
+  ): Promise<T> {
+    const timeout = options.timeout ?? getCommandTimeout(code);
+    const token = options.token;
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new SerialCancelledError(code));
+    }
+    if (!this.loggedIn) {
+      return Promise.reject(new SerialError(`${this.com} is not connected.`));
+    }
+
+    const self = this;
+    return new Promise<T>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const armTimer = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => self.abort(new SerialTimeoutError(code, timeout)), timeout);
+      };
+      const cancellation = token?.onCancellationRequested(() => self.abort(new SerialCancelledError(code)));
+      const settle = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        self.onActivity = undefined;
+        cancellation?.dispose();
+        self.isBusy = false;
+        self.textReceiver = undefined;
+        self.binaryReceiver = undefined;
+        self.reject = () => {};
+      };
+
+      self.reject = (reason: any) => {
+        settle();
+        reject(reason);
+      };
+      self.lastCode = code;
+      self.isBusy = true;
+      self.onActivity = armTimer;
+      armTimer();
+      try {
+        start((value: T) => {
+          settle();
+          resolve(value);
+        }, self.reject);
+      } catch (e) {
+        self.reject(e);
+      }
+    });
+  }
+
+  /**
+   * Drop the pending command, discarding any partially received reply
+   */
+  abort(reason: Error): void {
+    ProtocolTrace.error(this.com, this.lastCode, reason);
+    this.reject(reason);
+  }
+
+  // text frames are REPL input, binary frames file transfers
+  private send(code: number, data: string | Buffer) {
+    ProtocolTrace.sent(this.com, code, Buffer.from(data));
+    this.socket?.send(data, (err) => {
+      if (err) {
+        console.log(`sending to ${this.com} failed`, err.message);
+        this.abort(new SerialError(`Sending to ${this.com} failed.`));
+      }
+    });
+  }
+
+  private open() {
+    const address = parseWebReplAddress(this.com);
+    if (!address) {
+      setImmediate(() => this.onOpenCb(new SerialError(`${this.com} is not a WebREPL address.`)));
+      return;
+    }
+    this.login = '';
+    this.loggedIn = false;
+    this.socket = new WebSocket(`ws://${address.host}:${address.port}/`);
+    this.socket.on('message', this.onMessage.bind(this));
+    this.socket.on('error', this.onError.bind(this));
+    this.socket.on('close', this.onClose.bind(this));
+  }
+
+  onMessage(data: WebSocket.Data): void {
+    // binary frames are Buffers with the default binaryType
+    const chunk = typeof data === 'string' ? Buffer.from(data) : (data as Buffer);
+    ProtocolTrace.raw(this.com, chunk);
+    // command timeouts bound the silence of the device, not the length of its reply
+    this.onActivity?.();
+    if (typeof data !== 'string') {
+      try {
+        this.binaryReceiver?.(chunk);
+      } catch (e: any) {
+        // unexpected file transfer answer
+        this.abort(e);
+      }
+    } else if (this.loggedIn) {
+      this.textReceiver?.(chunk);
+    } else {
+      this.onLogin(data);
+    }
+  }
+
+  private onLogin(text: string) {
+    this.login += text;
+    if (this.login.endsWith(WEBREPL_PASSWORD_PROMPT)) {
+      this.login = '';
+      this.socket?.send(`${this.password}\r`);
+    } else if (this.login.includes(WEBREPL_CONNECTED)) {
+      console.log(`opened WebREPL connection on ${this.com}`);
+      this.loggedIn = true;
+      this.opened = true;
+      this.reconnectDelay = RECONNECT_DELAY;
+      this.setState('connected');
+      this.onOpenCb(null);
+    } else if (this.login.includes(WEBREPL_ACCESS_DENIED)) {
+      // trying again with the same password is pointless
+      this.closing = true;
+      this.socket?.close();
+      this.onOpenCb(new SerialError(`Access to ${this.com} denied, check the WebREPL password.`));
+    }
+  }
+
+  onError(err: Error): void {
+    // failing to connect means the device is not on the network (yet), close follows
+    console.log(`WebREPL error on ${this.com}`, err.message);
+    this.lastError = err;
+  }
+
+  /**
+   * Socket closed by the device (reset, out of range...), wait for it to come back.
+   * Failing to open it in the first place is reported to the caller.
+   */
+  onClose(): void {
+    this.isBusy = false;
+    this.loggedIn = false;
+    this.setState('disconnected');
+    if (this.closing) {
+      return;
+    }
+    if (!this.opened) {
+      this.closing = true;
+      const reason = this.lastError ? `: ${this.lastError.message}` : '.';
+      this.onOpenCb(new SerialError(`Connecting to ${this.com} failed${reason}`));
+      return;
+    }
+    console.log(`lost connection on ${this.com}`);
+    const error = new SerialDisconnectedError(`Connection to ${this.com} lost.`);
+    this.abort(error);
+    this.queue.clear(error);
+    this.scheduleReconnect();
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.connectionState === state) {
+      return;
+    }
+    this.connectionState = state;
+    this.events.onStateChange?.(state);
+  }
+
+  private scheduleReconnect() {
+    if (this.closing || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.setState('reconnecting');
+      this.open();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  close(cb: (err?: Error | null) => void) {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.queue.clear(new SerialDisconnectedError(`Connection to ${this.com} closed.`));
+    const socket = this.socket;
+    if (socket && socket.readyState !== WebSocket.CLOSED) {
+      socket.once('close', () => cb(null));
+      socket.close();
+    } else {
+      cb(null);
+    }
+    this.isBusy = false;
+  }
+}
+
+export default WebReplConnection;
@@ -0,0 +1,30 @@
+import RawReplTransport from './RawReplTransport';
+import { CommandOptions, TransportKind } from './types';
+import WebReplConnection from './WebReplConnection';
+
+/**
+ * Raw REPL reached over WebREPL, whole files are transferred with the WebREPL file requests
+ * instead of base64 encoded code
+ */
+class WebReplTransport extends RawReplTransport {
+  readonly kind: TransportKind = 'webRepl';
+
+  constructor(private readonly webRepl: WebReplConnection) {
+    super(webRepl);
+  }
+
+  readFile(filename: string, options?: CommandOptions): Promise<Buffer> {
+    return this.webRepl.getFile(this.devicePath(filename), options);
+  }
+
+  async writeFile(filename: string, data: Buffer, flag: number, options?: CommandOptions): Promise<Buffer> {
+    if (flag === 0x00) {
+      // the put request always overwrites
+      return super.writeFile(filename, data, flag, options);
+    }
+    await this.webRepl.putFile(this.devicePath(filename), data, options);
+    return Buffer.from('done');
+  }
+}
+
+export default WebReplTransport;
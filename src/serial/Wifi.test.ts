@@ -0,0 +1,43 @@
+import { createWifiData, parseWifiScan } from './Wifi';
+
+describe('Wifi', () => {
+  describe('createWifiData', () => {
+    test('should separate ssid and password with NUL', () => {
+      // ACT
+      const data = createWifiData('my,network', 'secret');
+
+      // ASSERT
+      expect(Buffer.from(data)).toStrictEqual(Buffer.from('my,network\u0000secret'));
+    });
+  });
+
+  describe('parseWifiScan', () => {
+    test('should parse networks sorted by signal strength', () => {
+      // ACT
+      const networks = parseWifiScan(Buffer.from('office,-70\r\nhome,-40\nmy,network,-60\n'));
+
+      // ASSERT
+      expect(networks).toStrictEqual([
+        { ssid: 'home', rssi: -40 },
+        { ssid: 'my,network', rssi: -60 },
+        { ssid: 'office', rssi: -70 },
+      ]);
+    });
+
+    test('should keep the strongest entry of duplicated networks', () => {
+      // ACT
+      const networks = parseWifiScan(Buffer.from('office,-70\noffice,-50\n'));
+
+      // ASSERT
+      expect(networks).toStrictEqual([{ ssid: 'office', rssi: -50 }]);
+    });
+
+    test('should ignore unexpected output', () => {
+      // ACT
+      const networks = parseWifiScan(Buffer.from('done'));
+
+      // ASSERT
+      expect(networks).toStrictEqual([]);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { WifiNetwork } from './types';
+
+// Prints one "ssid,rssi" line per network in range
+export const WIFI_SCAN_CODE = [
+  'import network',
+  'wlan = network.WLAN(network.STA_IF)',
+  'wlan.active(True)',
+  'for n in wlan.scan():',
+  "    print(n[0].decode() + ',' + str(n[3]))",
+].join('\n');
+
+/**
+ * Build the setWifi payload, ssid and password are NUL separated
+ * the same way downloadFile separates the file name from its content.
+ */
+export const createWifiData = (ssid: string, password: string): string => `${ssid}\u0000${password}`;
+
+/**
+ * Parse the output of WIFI_SCAN_CODE, strongest networks first without duplicates
+ */
+export const parseWifiScan = (output: Buffer): WifiNetwork[] => {
+  const networks: WifiNetwork[] = [];
+  output
+    .toString()
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const separator = line.lastIndexOf(',');
+      if (separator <= 0) {
+        return;
+      }
+      const ssid = line.slice(0, separator);
+      const rssi = parseInt(line.slice(separator + 1), 10);
+      if (isNaN(rssi)) {
+        return;
+      }
+      const known = networks.find((network) => network.ssid === ssid);
+      if (!known) {
+        networks.push({ ssid, rssi });
+      } else if (known.rssi < rssi) {
+        known.rssi = rssi;
+      }
+    });
+  return networks.sort((a, b) => b.rssi - a.rssi);
+};
@@ -0,0 +1,85 @@
+const toHex = (code: number) => `0x${code.toString(16).padStart(2, '0')}`;
+
+/**
+ * Base class for every error raised by the serial layer
+ */
+export class SerialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SerialError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when the device does not answer a command in time
+ */
+export class SerialTimeoutError extends SerialError {
+  constructor(public readonly code: number, public readonly timeout: number) {
+    super(`Command ${toHex(code)} timed out after ${timeout}ms.`);
+    this.name = 'SerialTimeoutError';
+  }
+}
+
+/**
+ * Raised when a pending command is cancelled by the caller
+ */
+export class SerialCancelledError extends SerialError {
+  constructor(public readonly code: number) {
+    super(`Command ${toHex(code)} was cancelled.`);
+    this.name = 'SerialCancelledError';
+  }
+}
+
+/**
+ * Raised for the pending commands when the connection to the device is lost or closed
+ */
+export class SerialDisconnectedError extends SerialError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SerialDisconnectedError';
+  }
+}
+
+/**
+ * Raised when the device answers with a non zero status byte
+ */
+export class SerialStatusError extends SerialError {
+  constructor(public readonly status: number) {
+    super(`Communication error, sorry. (status ${toHex(status)})`);
+    this.name = 'SerialStatusError';
+  }
+}
+
+/**
+ * Raised when a received frame is corrupted or cut short
+ */
+export class SerialFrameError extends SerialError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SerialFrameError';
+  }
+}
+
+/**
+ * Raised when an upload is given up, `written` bytes of the file are left on the device
+ */
+export class SerialUploadError extends SerialError {
+  constructor(
+    public readonly filename: string,
+    public readonly written: number,
+    public readonly total: number,
+    public readonly cause: unknown
+  ) {
+    super(
+      `Upload of ${filename} stopped after ${written} of ${total} bytes: ${
+        cause instanceof Error ? cause.message : `${cause}`
+      }`
+    );
+    this.name = 'SerialUploadError';
+  }
+
+  get cancelled(): boolean {
+    return this.cause instanceof SerialCancelledError;
+  }
+}
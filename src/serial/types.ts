@@ -1,5 +1,32 @@
-export const defaultOpts = {
+export type Parity = 'none' | 'even' | 'odd' | 'mark' | 'space';
+
+// uiflow: USB mode framing of the UIFlow firmware, rawRepl: raw REPL of stock MicroPython
+export type SerialTransportKind = 'uiflow' | 'rawRepl';
+
+// webRepl: MicroPython WebREPL over Wi-Fi
+export type TransportKind = SerialTransportKind | 'webRepl';
+
+export interface SerialSettings {
+  baudRate: number;
+  dataBits: 5 | 6 | 7 | 8;
+  parity: Parity;
+  rtscts: boolean;
+  // DTR/RTS levels set once the port is open, left untouched when undefined
+  dtr?: boolean;
+  rts?: boolean;
+  // upload chunks sent before waiting for the reply of the first one, off by default until tried on more firmwares
+  pipelineDepth?: number;
+  // firmware protocol, probed when the port opens when auto or undefined
+  transport?: SerialTransportKind | 'auto';
+}
+
+export const defaultOpts: SerialSettings = {
   baudRate: 115200,
+  dataBits: 8,
+  parity: 'none',
+  rtscts: false,
+  pipelineDepth: 1,
+  transport: 'auto',
 };
 
 export const COMMAND_CODES = {
@@ -13,3 +40,106 @@ export const COMMAND_CODES = {
   removeFile: 0x07,
   setWifi: 0x08,
 };
+
+export const DEFAULT_COMMAND_TIMEOUT = 5000;
+
+// Time in ms a device may stay silent while answering each command, restarted by every byte received
+export const COMMAND_TIMEOUTS: { [code: number]: number } = {
+  [COMMAND_CODES.isOnline]: 1000,
+  [COMMAND_CODES.getInfo]: 2000,
+  [COMMAND_CODES.exec]: 10000,
+  [COMMAND_CODES.listDir]: 5000,
+  [COMMAND_CODES.download]: 5000,
+  [COMMAND_CODES.getFile]: 15000,
+  [COMMAND_CODES.downloadFile]: 5000,
+  [COMMAND_CODES.removeFile]: 5000,
+  [COMMAND_CODES.setWifi]: 10000,
+};
+
+export const getCommandTimeout = (code: number): number => COMMAND_TIMEOUTS[code] ?? DEFAULT_COMMAND_TIMEOUT;
+
+// Structurally compatible with vscode.CancellationToken so the serial layer stays vscode free
+export interface CancellationToken {
+  isCancellationRequested: boolean;
+  onCancellationRequested: (listener: (e: any) => any) => { dispose(): any };
+}
+
+// Commands with a higher priority jump ahead of the ones already queued
+export const COMMAND_PRIORITY = {
+  normal: 0,
+  high: 10,
+};
+
+export interface CommandOptions {
+  timeout?: number;
+  token?: CancellationToken;
+  priority?: number;
+}
+
+export interface PipelineOptions extends CommandOptions {
+  // commands waiting for their response at the same time
+  window?: number;
+  // called with each response, in order, throwing stops the pipeline
+  onResponse?: (index: number, response: Buffer) => void;
+}
+
+export const DEFAULT_UPLOAD_RETRIES = 3;
+
+export interface UploadOptions {
+  // attempts to resume a failed transfer before giving up
+  retries?: number;
+  // offset a stopped upload reached (SerialUploadError.written), appended to when the file
+  // on the device still has this size
+  resumeFrom?: number;
+}
+
+export interface UploadProgress {
+  sent: number;
+  total: number;
+  bytesPerSecond: number;
+}
+
+export type ConnectionState = 'connected' | 'disconnected' | 'reconnecting';
+
+export interface ConnectionEvents {
+  onQueueChange?: (depth: number) => void;
+  onStateChange?: (state: ConnectionState) => void;
+}
+
+export const STATUS_OK = 0x00;
+
+export interface Frame {
+  status: number;
+  payload: Buffer;
+}
+
+export interface DeviceInfo {
+  firmware: string;
+  board: string;
+  raw: string;
+}
+
+// what the code of the user printed, the traceback apart and empty when it ran to the end
+export interface ExecResult {
+  output: Buffer;
+  error: string;
+}
+
+export interface DirectoryEntry {
+  name: string;
+  type: 'file' | 'directory';
+  size: number;
+  // ms since 1970-01-01, 0 when unknown
+  mtime: number;
+}
+
+// bytes of a mounted file system, as os.statvfs reports them
+export interface StorageUsage {
+  total: number;
+  free: number;
+}
+
+export interface WifiNetwork {
+  ssid: string;
+  rssi: number;
+}
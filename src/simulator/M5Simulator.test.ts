@@ -0,0 +1,282 @@
+import Crc from '../serial/Crc';
+import { fileSizeCode, parseFileSize } from '../serial/FileSize';
+import FrameDecoder from '../serial/FrameDecoder';
+import { rawReplRequest, readFileCode } from '../serial/RawRepl';
+import { COMMAND_CODES, Frame } from '../serial/types';
+import M5Simulator, { STATUS_ERROR } from './M5Simulator';
+
+const request = (code: number, data: string | Buffer) =>
+  Crc.coverCrc(Buffer.concat([Buffer.from([code]), Buffer.from(data)]));
+
+const decode = (chunks: Buffer[]) => {
+  const frames: Frame[] = [];
+  const errors: Error[] = [];
+  const decoder = new FrameDecoder(
+    (frame) => frames.push(frame),
+    (error) => errors.push(error)
+  );
+  chunks.forEach((chunk) => decoder.push(chunk));
+  return { frames, errors };
+};
+
+// two Ctrl-C prompts of the friendly REPL then the raw REPL banner
+const RAW_REPL_PROMPT = '\r\n>>> \r\n>>> \r\nraw REPL; CTRL-B to exit\r\n>';
+
+const send = (device: M5Simulator, code: number, data: string | Buffer = '') =>
+  decode(device.handle(request(code, data)).chunks);
+
+describe('M5Simulator', () => {
+  test('should answer isOnline and getInfo', () => {
+    // ARRANGE
+    const device = new M5Simulator({ firmware: 'v1.9.0', board: 'M5StickC' });
+
+    // ACT
+    const online = send(device, COMMAND_CODES.isOnline);
+    const info = send(device, COMMAND_CODES.getInfo);
+
+    // ASSERT
+    expect(online.frames[0].status).toBe(0x00);
+    expect(info.frames[0].payload.toString()).toBe('v1.9.0,M5StickC');
+  });
+
+  test('should list files and folders of a directory', () => {
+    // ARRANGE
+    const device = new M5Simulator();
+    device.writeFile('/flash/main.py', 'print(1)');
+    device.writeFile('/flash/res/logo.png', Buffer.from([0x89, 0x50]));
+
+    // ACT
+    const { frames } = send(device, COMMAND_CODES.listDir, '/flash');
+
+    // ASSERT
+    expect(frames[0].payload.toString().split(',').sort()).toStrictEqual(['main.py', 'res']);
+  });
+
+  test('should write, append, read and remove files', () => {
+    // ARRANGE
+    const device = new M5Simulator();
+    const download = (flag: number, content: string) =>
+      Buffer.concat([Buffer.from('main.py'), Buffer.from([0x00, flag]), Buffer.from(content)]);
+
+    // ACT
+    send(device, COMMAND_CODES.downloadFile, download(0x01, 'print('));
+    send(device, COMMAND_CODES.downloadFile, download(0x00, '1)'));
+    const read = send(device, COMMAND_CODES.getFile, '/flash/main.py');
+    send(device, COMMAND_CODES.removeFile, '/flash/main.py');
+
+    // ASSERT
+    expect(read.frames[0].payload.toString()).toBe('print(1)');
+    expect(device.readFile('/flash/main.py')).toBe(undefined);
+  });
+
+  test('should answer errors with a non zero status', () => {
+    // ARRANGE
+    const device = new M5Simulator();
+
+    // ACT
+    const { frames } = send(device, COMMAND_CODES.getFile, '/flash/missing.py');
+
+    // ASSERT
+    expect(frames[0].status).toBe(STATUS_ERROR);
+  });
+
+  test('should reject requests with an invalid CRC', () => {
+    // ARRANGE
+    const device = new M5Simulator();
+    const corrupted = request(COMMAND_CODES.isOnline, '');
+    corrupted[corrupted.length - 1] ^= 0xff;
+
+    // ACT
+    const { frames } = decode(device.handle(corrupted).chunks);
+
+    // ASSERT
+    expect(frames[0].status).toBe(STATUS_ERROR);
+  });
+
+  test('should answer exec with registered handlers', () => {
+    // ARRANGE
+    const device = new M5Simulator();
+    device.onExec((code) => (code.indexOf('os.statvfs') > -1 ? '4096,1024' : undefined));
+
+    // ACT
+    const handled = send(device, COMMAND_CODES.exec, 'import os\nprint(os.statvfs("/flash"))');
+    const fallback = send(device, COMMAND_CODES.exec, 'print(1)');
+
+    // ASSERT
+    expect(handled.frames[0].payload.toString()).toBe('4096,1024');
+    expect(fallback.frames[0].payload.toString()).toBe('done');
+  });
+
+  test('should store Wi-Fi settings', () => {
+    // ARRANGE
+    const device = new M5Simulator();
+
+    // ACT
+    send(device, COMMAND_CODES.setWifi, 'office\u0000secret');
+
+    // ASSERT
+    expect(device.wifi).toStrictEqual({ ssid: 'office', password: 'secret' });
+  });
+
+  test('should print file sizes', () => {
+    // ARRANGE
+    const device = new M5Simulator();
+    device.writeFile('/flash/main.py', 'print(1)');
+
+    // ACT
+    const existing = send(device, COMMAND_CODES.exec, fileSizeCode('main.py'));
+    const missing = send(device, COMMAND_CODES.exec, fileSizeCode('/flash/missing.py'));
+
+    // ASSERT
+    expect(parseFileSize(existing.frames[0].payload)).toBe(8);
+    expect(parseFileSize(missing.frames[0].payload)).toBe(-1);
+  });
+
+  test('should refuse requests longer than the firmware accepts', () => {
+    // ARRANGE
+    const device = new M5Simulator({ maxRequestLength: 64 });
+
+    // ACT
+    const { frames } = send(device, COMMAND_CODES.downloadFile, `main.py\u0000\u0001${'a'.repeat(64)}`);
+
+    // ASSERT
+    expect(frames[0].status).toBe(STATUS_ERROR);
+    expect(device.readFile('/flash/main.py')).toBe(undefined);
+  });
+
+  describe('raw REPL', () => {
+    test('should run code sent to the raw REPL', () => {
+      // ARRANGE
+      const device = new M5Simulator({ protocol: 'rawRepl' });
+      device.writeFile('/flash/main.py', 'print(1)');
+
+      // ACT
+      const { chunks } = device.handle(rawReplRequest(readFileCode('/flash/main.py')));
+
+      // ASSERT
+      expect(Buffer.concat(chunks).toString()).toBe(`${RAW_REPL_PROMPT}OKcHJpbnQoMSk=\n\x04\x04>`);
+    });
+
+    test('should answer errors on stderr', () => {
+      // ARRANGE
+      const device = new M5Simulator({ protocol: 'rawRepl' });
+
+      // ACT
+      const { chunks } = device.handle(rawReplRequest(readFileCode('/flash/missing.py')));
+
+      // ASSERT
+      expect(Buffer.concat(chunks).toString()).toBe(
+        `${RAW_REPL_PROMPT}OK\x04Traceback (most recent call last):\r\n` +
+          '  File "<stdin>", line 2, in <module>\r\nOSError: [Errno 2] ENOENT\r\n\x04>'
+      );
+    });
+
+    test('should ignore requests split before Ctrl-D', () => {
+      // ARRANGE
+      const device = new M5Simulator({ protocol: 'rawRepl' });
+      const request = rawReplRequest('print(1)');
+
+      // ACT
+      const first = device.handle(request.slice(0, 6));
+      const second = device.handle(request.slice(6));
+
+      // ASSERT
+      expect(Buffer.concat(first.chunks).toString()).toBe(RAW_REPL_PROMPT);
+      expect(Buffer.concat(second.chunks).toString()).toBe('OK\x04\x04>');
+    });
+  });
+
+  describe('faults', () => {
+    test('should corrupt the response CRC', () => {
+      // ARRANGE
+      const device = new M5Simulator();
+      device.injectFault({ type: 'badCrc' });
+
+      // ACT
+      const { frames, errors } = send(device, COMMAND_CODES.isOnline);
+
+      // ASSERT
+      expect(frames.length).toBe(0);
+      expect(errors.length).toBe(1);
+    });
+
+    test('should drop bytes of the response', () => {
+      // ARRANGE
+      const device = new M5Simulator();
+      device.injectFault({ type: 'drop', count: 2 });
+
+      // ACT
+      const { frames } = send(device, COMMAND_CODES.getInfo);
+
+      // ASSERT
+      expect(frames.length).toBe(0);
+    });
+
+    test('should delay the response', () => {
+      // ARRANGE
+      const device = new M5Simulator();
+      device.injectFault({ type: 'delay', ms: 500 });
+
+      // ACT
+      const { delay } = device.handle(request(COMMAND_CODES.isOnline, ''));
+
+      // ASSERT
+      expect(delay).toBe(500);
+    });
+
+    test('should reset in the middle of a response', () => {
+      // ARRANGE
+      const device = new M5Simulator();
+      device.writeFile('/flash/main.py', 'print("hello world")');
+      device.injectFault({ type: 'reset', afterBytes: 10 });
+
+      // ACT
+      const { chunks } = device.handle(request(COMMAND_CODES.getFile, '/flash/main.py'));
+      const { frames } = decode(chunks);
+
+      // ASSERT
+      expect(frames.length).toBe(0);
+      expect(Buffer.concat(chunks).toString().indexOf('POWERON_RESET') > -1).toBe(true);
+    });
+
+    test('should fail a request without executing it', () => {
+      // ARRANGE
+      const device = new M5Simulator();
+      device.injectFault({ type: 'fail' });
+
+      // ACT
+      const { frames } = send(device, COMMAND_CODES.downloadFile, 'main.py\u0000\u0001print(1)');
+
+      // ASSERT
+      expect(frames[0].status).toBe(STATUS_ERROR);
+      expect(device.readFile('/flash/main.py')).toBe(undefined);
+    });
+
+    test('should alter the response following skipped requests', () => {
+      // ARRANGE
+      const device = new M5Simulator();
+      device.injectFault({ type: 'fail' }, 1);
+
+      // ACT
+      const first = send(device, COMMAND_CODES.isOnline);
+      const second = send(device, COMMAND_CODES.isOnline);
+
+      // ASSERT
+      expect(first.frames[0].status).toBe(0x00);
+      expect(second.frames[0].status).toBe(STATUS_ERROR);
+    });
+
+    test('should only alter the next response', () => {
+      // ARRANGE
+      const device = new M5Simulator();
+      device.injectFault({ type: 'badCrc' });
+      send(device, COMMAND_CODES.isOnline);
+
+      // ACT
+      const { frames } = send(device, COMMAND_CODES.isOnline);
+
+      // ASSERT
+      expect(frames.length).toBe(1);
+    });
+  });
+});
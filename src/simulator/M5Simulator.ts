@@ -0,0 +1,475 @@
+import { createHash } from 'crypto';
+import Crc from '../serial/Crc';
+import { encodeFrame } from '../serial/FrameDecoder';
+import { INFO_CODE, RAW_REPL_BANNER, ROOT_CODE } from '../serial/RawRepl';
+import { COMMAND_CODES, STATUS_OK, SerialTransportKind } from '../serial/types';
+
+export const STATUS_ERROR = 0x01;
+
+const EPOCH_OFFSET = 946684800;
+
+const S_IFDIR = 0x4000;
+const S_IFREG = 0x8000;
+
+const CTRL_A = 0x01;
+const CTRL_B = 0x02;
+const CTRL_C = 0x03;
+const CTRL_D = 0x04;
+
+const ENOENT = 'OSError: [Errno 2] ENOENT';
+const ENOTEMPTY = 'OSError: [Errno 39] ENOTEMPTY';
+
+// file system of the flash, files take whole blocks
+const BLOCK_SIZE = 4096;
+
+const BOOT_LOG =
+  'ets Jun  8 2016 00:22:57\r\n\r\nrst:0x1 (POWERON_RESET),boot:0x17 (SPI_FAST_FLASH_BOOT)\r\n';
+
+export type Fault =
+  | { type: 'drop'; count: number }
+  | { type: 'badCrc' }
+  | { type: 'delay'; ms: number }
+  | { type: 'reset'; afterBytes: number }
+  // answer with an error status without executing the request
+  | { type: 'fail' };
+
+export type ExecHandler = (code: string, device: M5Simulator) => string | Buffer | undefined;
+
+export interface SimulatorOptions {
+  firmware?: string;
+  board?: string;
+  // size of the chunks responses are delivered in
+  chunkSize?: number;
+  // longest request accepted by the firmware, longer ones are answered with an error
+  maxRequestLength?: number;
+  // uiflow by default, rawRepl for a stock MicroPython firmware
+  protocol?: SerialTransportKind;
+  // bytes of the flash file system, 2 MB by default
+  flashSize?: number;
+  // false for the firmwares answering 'done' to exec whatever the code prints
+  execOutput?: boolean;
+}
+
+/**
+ * In memory M5Stack answering the UIFlow USB mode protocol.
+ * Requests are `[code] [data] [crc16]` as written by SerialConnection and
+ * responses are framed with FrameDecoder.encodeFrame.
+ * With the rawRepl protocol, it answers as the REPL of a stock MicroPython firmware instead.
+ */
+class M5Simulator {
+  public readonly files: Map<string, Buffer> = new Map();
+  public readonly directories: Set<string> = new Set(['/flash']);
+  // modification times in seconds since 2000-01-01, the MicroPython epoch
+  public readonly mtimes: Map<string, number> = new Map();
+  public readonly requests: Buffer[] = [];
+  public wifi: { ssid: string; password: string } | undefined;
+  private faults: Fault[] = [];
+  private scheduledFaults: { fault: Fault; at: number }[] = [];
+  private execHandlers: ExecHandler[] = [];
+  private readonly firmware: string;
+  private readonly board: string;
+  private readonly chunkSize: number;
+  private readonly maxRequestLength: number;
+  private readonly protocol: SerialTransportKind;
+  private readonly flashSize: number;
+  private readonly execOutput: boolean;
+  private rawRepl: boolean = false;
+  private replInput: number[] = [];
+
+  constructor(options: SimulatorOptions = {}) {
+    this.firmware = options.firmware ?? 'v1.7.5';
+    this.board = options.board ?? 'M5Stack-Core';
+    this.chunkSize = options.chunkSize ?? 64;
+    this.maxRequestLength = options.maxRequestLength ?? Infinity;
+    this.protocol = options.protocol ?? 'uiflow';
+    this.flashSize = options.flashSize ?? 2 * 1024 * 1024;
+    this.execOutput = options.execOutput ?? true;
+  }
+
+  writeFile(filepath: string, content: string | Buffer) {
+    this.mkdir(filepath.split('/').slice(0, -1).join('/'));
+    this.files.set(filepath, Buffer.from(content));
+    this.mtimes.set(filepath, Math.floor(Date.now() / 1000) - EPOCH_OFFSET);
+  }
+
+  readFile(filepath: string): Buffer | undefined {
+    return this.files.get(filepath);
+  }
+
+  mkdir(dirpath: string) {
+    const parts = dirpath.split('/').filter((part) => !!part);
+    for (let i = 1; i <= parts.length; i++) {
+      this.directories.add(`/${parts.slice(0, i).join('/')}`);
+    }
+  }
+
+  /**
+   * Answer the next exec commands matching the handler
+   * (returning undefined lets the next handler answer)
+   */
+  onExec(handler: ExecHandler) {
+    this.execHandlers.unshift(handler);
+  }
+
+  /**
+   * Alter the next response, or the one following `skip` other requests
+   */
+  injectFault(fault: Fault, skip: number = 0) {
+    if (skip > 0) {
+      this.scheduledFaults.push({ fault, at: this.requests.length + skip });
+    } else {
+      this.faults.push(fault);
+    }
+  }
+
+  /**
+   * Handle a request and return the bytes to send back, in delivery order
+   */
+  handle(request: Buffer): { chunks: Buffer[]; delay: number } {
+    const scheduled = this.scheduledFaults.find(({ at }) => at === this.requests.length);
+    this.requests.push(request);
+    const fault = scheduled ? scheduled.fault : this.faults.shift();
+
+    let response = this.protocol === 'rawRepl' ? this.repl(request, fault) : this.respond(request, fault);
+    if (fault?.type === 'badCrc') {
+      response[response.length - 4] ^= 0xff;
+    }
+    if (fault?.type === 'drop') {
+      const at = Math.floor(response.length / 2);
+      response = Buffer.concat([response.slice(0, at), response.slice(at + fault.count)]);
+    }
+    if (fault?.type === 'reset') {
+      response = Buffer.concat([response.slice(0, fault.afterBytes), Buffer.from(BOOT_LOG)]);
+    }
+
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < response.length; i += this.chunkSize) {
+      chunks.push(response.slice(i, i + this.chunkSize));
+    }
+    return { chunks, delay: fault?.type === 'delay' ? fault.ms : 0 };
+  }
+
+  private respond(request: Buffer, fault?: Fault): Buffer {
+    if (fault?.type === 'fail') {
+      return encodeFrame(STATUS_ERROR, Buffer.from('failed'));
+    }
+    if (request.length < 3) {
+      return encodeFrame(STATUS_ERROR, Buffer.from('invalid request'));
+    }
+    if (request.length > this.maxRequestLength) {
+      return encodeFrame(STATUS_ERROR, Buffer.from('request too long'));
+    }
+    const body = request.slice(0, -2);
+    if (request.readUInt16BE(request.length - 2) !== Crc.crc16(body, body.length)) {
+      return encodeFrame(STATUS_ERROR, Buffer.from('crc error'));
+    }
+
+    try {
+      return encodeFrame(STATUS_OK, this.execute(body[0], body.slice(1)));
+    } catch (e: any) {
+      return encodeFrame(STATUS_ERROR, Buffer.from(e.message));
+    }
+  }
+
+  private execute(code: number, data: Buffer): Buffer {
+    switch (code) {
+      case COMMAND_CODES.isOnline:
+        return Buffer.from('online');
+      case COMMAND_CODES.getInfo:
+        return Buffer.from(`${this.firmware},${this.board}`);
+      case COMMAND_CODES.exec:
+        return this.exec(data.toString());
+      case COMMAND_CODES.listDir:
+        return Buffer.from(this.listDir(data.toString()).join(','));
+      case COMMAND_CODES.getFile: {
+        const content = this.files.get(data.toString());
+        if (!content) {
+          throw new Error(`${data.toString()} not found`);
+        }
+        return content;
+      }
+      case COMMAND_CODES.download:
+      case COMMAND_CODES.downloadFile:
+        return this.download(data);
+      case COMMAND_CODES.removeFile:
+        this.mtimes.delete(data.toString());
+        if (!this.files.delete(data.toString())) {
+          throw new Error(`${data.toString()} not found`);
+        }
+        return Buffer.from('done');
+      case COMMAND_CODES.setWifi: {
+        const [ssid, password] = data.toString().split('\u0000');
+        this.wifi = { ssid, password };
+        return Buffer.from('done');
+      }
+      default:
+        throw new Error(`unknown command ${code}`);
+    }
+  }
+
+  private exec(code: string): Buffer {
+    const output = this.run(code);
+    return Buffer.from(this.execOutput ? output ?? 'done' : 'done');
+  }
+
+  /**
+   * Characters typed in the REPL: Ctrl-A enters the raw REPL, Ctrl-B leaves it, Ctrl-C clears
+   * the input and Ctrl-D runs it, answering "OK", stdout, Ctrl-D, stderr, Ctrl-D and the prompt
+   */
+  private repl(input: Buffer, fault?: Fault): Buffer {
+    const output: Buffer[] = [];
+    Array.from(input).forEach((byte) => {
+      switch (byte) {
+        case CTRL_A:
+          this.rawRepl = true;
+          this.replInput = [];
+          output.push(Buffer.from(`\r\n${RAW_REPL_BANNER}`));
+          break;
+        case CTRL_B:
+          this.rawRepl = false;
+          output.push(Buffer.from(`\r\nMicroPython ${this.firmware}\r\n>>> `));
+          break;
+        case CTRL_C:
+          this.replInput = [];
+          if (!this.rawRepl) {
+            output.push(Buffer.from('\r\n>>> '));
+          }
+          break;
+        case CTRL_D:
+          if (this.rawRepl) {
+            const code = Buffer.from(this.replInput).toString();
+            this.replInput = [];
+            output.push(this.runRaw(fault?.type === 'fail' ? undefined : code));
+          }
+          break;
+        default:
+          this.replInput.push(byte);
+      }
+    });
+    return Buffer.concat(output);
+  }
+
+  private runRaw(code: string | undefined): Buffer {
+    const output =
+      code === undefined ? `Traceback (most recent call last):\r\n${ENOENT}\r\n` : this.run(code);
+    const text = Buffer.from(output ?? '');
+    const failed = text.toString().startsWith('Traceback');
+    return Buffer.concat([
+      Buffer.from('OK'),
+      failed ? Buffer.from([]) : text,
+      Buffer.from([CTRL_D]),
+      failed ? text : Buffer.from([]),
+      Buffer.from([CTRL_D, 0x3e]), // '>'
+    ]);
+  }
+
+  private run(code: string): string | Buffer | undefined {
+    for (const handler of this.execHandlers) {
+      const output = handler(code, this);
+      if (output !== undefined) {
+        return output;
+      }
+    }
+    return this.builtin(code);
+  }
+
+  /**
+   * Output of the python snippets sent by the extension
+   */
+  private builtin(code: string): string | undefined {
+    const size = /os\.stat\("([^"]+)"\)\[6\]/.exec(code);
+    if (size) {
+      const content = this.files.get(size[1]);
+      return `${content ? content.length : -1}\r\n`;
+    }
+    const listing = /d = "([^"]+)"\nfor e in os\.ilistdir\(d\)/.exec(code);
+    if (listing) {
+      const dirname = listing[1];
+      if (!this.directories.has(dirname)) {
+        return 'Traceback (most recent call last):\r\n  File "<stdin>", line 3, in <module>\r\nOSError: [Errno 2] ENOENT\r\n';
+      }
+      return this.listDir(dirname)
+        .map((name) => `${this.stat(`${dirname.replace(/\/$/, '')}/${name}`)} ${name}\r\n`)
+        .concat(['#end\r\n'])
+        .join('');
+    }
+    const stat = /s = os\.stat\("([^"]+)"\)/.exec(code);
+    if (stat) {
+      return `${this.stat(stat[1]) ?? -1}\r\n`;
+    }
+    const hash = /\ndef h\(d, r\):[\s\S]*\nd = ("[^"]+")\n/.exec(code);
+    if (hash) {
+      const prefix = `${JSON.parse(hash[1]).replace(/\/$/, '')}/`;
+      return Array.from(this.files.entries())
+        .filter(([filepath]) => filepath.startsWith(prefix))
+        .map(([filepath, content]) => {
+          const sha256 = createHash('sha256').update(content).digest('hex');
+          return `${sha256} ${filepath.slice(prefix.length)}\r\n`;
+        })
+        .concat(['#end\r\n'])
+        .join('');
+    }
+    const mkdir = /for n in ("[^"]+")\.split\('\/'\):/.exec(code);
+    if (mkdir) {
+      this.mkdir(JSON.parse(mkdir[1]));
+      return '';
+    }
+    const statvfs = /s = os\.statvfs\(("[^"]+")\)/.exec(code);
+    if (statvfs) {
+      // only the flash is mounted
+      const mountpoint = JSON.parse(statvfs[1]);
+      return mountpoint === '/flash' || mountpoint === '/'
+        ? `${this.flashSize} ${this.freeSpace()}\r\n`
+        : '-1\r\n';
+    }
+    const rename = /os\.rename\(("[^"]+"), ("[^"]+")\)/.exec(code);
+    if (rename) {
+      return this.rename(JSON.parse(rename[1]), JSON.parse(rename[2])) ? '' : this.traceback(ENOENT);
+    }
+    const rmdir = /os\.rmdir\(("[^"]+")\)/.exec(code);
+    if (rmdir) {
+      const dirname = JSON.parse(rmdir[1]);
+      if (!this.directories.has(dirname)) {
+        return this.traceback(ENOENT);
+      }
+      if (this.listDir(dirname).length) {
+        return this.traceback(ENOTEMPTY);
+      }
+      this.directories.delete(dirname);
+      return '';
+    }
+    return this.rawReplBuiltin(code);
+  }
+
+  /**
+   * Output of the python snippets sent by the raw REPL transport
+   */
+  private rawReplBuiltin(code: string): string | undefined {
+    const traceback = `Traceback (most recent call last):\r\n  File "<stdin>", line 2, in <module>\r\n${ENOENT}\r\n`;
+    if (code === ROOT_CODE) {
+      return this.directories.has('/flash') ? '/flash\r\n' : '/\r\n';
+    }
+    if (code === INFO_CODE) {
+      return `MicroPython ${this.firmware},${this.board}\r\n`;
+    }
+    const names = /os\.listdir\(("[^"]+")\)/.exec(code);
+    if (names) {
+      const dirname = JSON.parse(names[1]);
+      return this.directories.has(dirname) ? `${this.listDir(dirname).join(',')}\r\n` : traceback;
+    }
+    const read = /with open\(("[^"]+"), 'rb'\) as f:/.exec(code);
+    if (read) {
+      const content = this.files.get(JSON.parse(read[1]));
+      return content ? `${content.toString('base64')}\n` : traceback;
+    }
+    const write =
+      /with open\(("[^"]+"), '(wb|ab)'\) as f:\n    f\.write\(ubinascii\.a2b_base64\('([^']*)'\)\)/.exec(
+        code
+      );
+    if (write) {
+      const filepath = JSON.parse(write[1]);
+      const previous = write[2] === 'ab' ? this.files.get(filepath) ?? Buffer.from([]) : Buffer.from([]);
+      this.writeFile(filepath, Buffer.concat([previous, Buffer.from(write[3], 'base64')]));
+      return '';
+    }
+    const remove = /os\.remove\(("[^"]+")\)/.exec(code);
+    if (remove) {
+      const filepath = JSON.parse(remove[1]);
+      this.mtimes.delete(filepath);
+      return this.files.delete(filepath) ? '' : traceback;
+    }
+    return undefined;
+  }
+
+  private traceback(error: string): string {
+    return `Traceback (most recent call last):\r\n  File "<stdin>", line 2, in <module>\r\n${error}\r\n`;
+  }
+
+  /**
+   * Move a file or a directory with its content, false when it does not exist
+   */
+  private rename(from: string, to: string): boolean {
+    if (this.files.has(from)) {
+      this.writeFile(to, this.files.get(from) as Buffer);
+      this.files.delete(from);
+      this.mtimes.delete(from);
+      return true;
+    }
+    if (!this.directories.has(from)) {
+      return false;
+    }
+    const moved = (entry: string) => `${to}${entry.slice(from.length)}`;
+    const isInside = (entry: string) => entry === from || entry.startsWith(`${from}/`);
+    Array.from(this.directories)
+      .filter(isInside)
+      .forEach((entry) => {
+        this.directories.delete(entry);
+        this.mkdir(moved(entry));
+      });
+    Array.from(this.files.entries())
+      .filter(([entry]) => isInside(entry))
+      .forEach(([entry, content]) => {
+        this.files.delete(entry);
+        this.files.set(moved(entry), content);
+        const mtime = this.mtimes.get(entry);
+        this.mtimes.delete(entry);
+        if (mtime !== undefined) {
+          this.mtimes.set(moved(entry), mtime);
+        }
+      });
+    return true;
+  }
+
+  private freeSpace(): number {
+    const used = Array.from(this.files.values()).reduce(
+      (total, content) => total + Math.ceil(content.length / BLOCK_SIZE) * BLOCK_SIZE,
+      0
+    );
+    return Math.max(this.flashSize - used, 0);
+  }
+
+  // "mode size mtime" as printed from os.stat
+  private stat(filepath: string): string | undefined {
+    if (this.directories.has(filepath)) {
+      return `${S_IFDIR} 0 0`;
+    }
+    const content = this.files.get(filepath);
+    if (!content) {
+      return undefined;
+    }
+    return `${S_IFREG} ${content.length} ${this.mtimes.get(filepath) ?? 0}`;
+  }
+
+  private listDir(dirname: string): string[] {
+    if (!this.directories.has(dirname)) {
+      throw new Error(`${dirname} not found`);
+    }
+    // stock firmwares mount their file system on /
+    const prefix = `${dirname.replace(/\/$/, '')}/`;
+    const names = new Set<string>();
+    Array.from(this.directories)
+      .concat(Array.from(this.files.keys()))
+      .forEach((entry) => {
+        if (entry.startsWith(prefix) && entry !== prefix) {
+          names.add(entry.slice(prefix.length).split('/')[0]);
+        }
+      });
+    return Array.from(names);
+  }
+
+  private download(data: Buffer): Buffer {
+    const separator = data.indexOf(0x00);
+    if (separator < 0) {
+      throw new Error('invalid download request');
+    }
+    const filename = data.slice(0, separator).toString();
+    const filepath = filename.startsWith('/') ? filename : `/flash/${filename}`;
+    const flag = data[separator + 1];
+    const content = data.slice(separator + 2);
+    const previous = flag === 0x00 ? this.files.get(filepath) ?? Buffer.from([]) : Buffer.from([]);
+    this.writeFile(filepath, Buffer.concat([previous, content]));
+    return Buffer.from('done');
+  }
+}
+
+export default M5Simulator;
@@ -0,0 +1,144 @@
+import { EventEmitter } from 'events';
+import {
+  SdkClient,
+  SdkConnection,
+  SdkDeviceInfo,
+  SdkDirectoryEntry,
+  SdkExecutionResult,
+  SdkPortInfo,
+  SdkWriteOptions,
+  SDK_SERIAL_SETTINGS,
+} from '../adapters/MpySdk';
+import SerialManager from '../serial/SerialManager';
+import { defaultOpts } from '../serial/types';
+import { SimulatedSerialPort } from './SimulatedSerialPort';
+
+/**
+ * Connection of SimulatedSdkClient, the commands go through SerialManager
+ */
+class SimulatedSdkConnection extends EventEmitter implements SdkConnection {
+  private readonly subscriptions: { dispose(): void }[];
+
+  constructor(readonly port: string) {
+    super();
+    this.subscriptions = [
+      SerialManager.onStateChange((com, state) => {
+        if (com === this.port && state === 'disconnected') {
+          this.emit('disconnect');
+        }
+      }),
+      SerialManager.onQueueChange((com, depth) => {
+        if (com === this.port) {
+          this.emit('busy', depth > 0);
+        }
+      }),
+    ];
+  }
+
+  get isConnected(): boolean {
+    return SerialManager.state(this.port) === 'connected';
+  }
+
+  get isBusy(): boolean {
+    return SerialManager.isBusy(this.port);
+  }
+
+  async listDirectory(path: string): Promise<SdkDirectoryEntry[]> {
+    const entries = await SerialManager.listDir(this.port, path);
+    return entries.map(({ name, type, size, mtime }) => ({
+      name,
+      type,
+      size,
+      lastModified: mtime ? new Date(mtime) : undefined,
+    }));
+  }
+
+  readFile(path: string): Promise<Buffer> {
+    return SerialManager.readFile(this.port, path);
+  }
+
+  async writeFile(path: string, content: Buffer | string, options?: SdkWriteOptions): Promise<void> {
+    const data = typeof content === 'string' ? Buffer.from(content) : content;
+    await SerialManager.bulkDownload(this.port, path, data, true, ({ sent, total }) =>
+      options?.onProgress?.(sent, total)
+    );
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    await SerialManager.removeFile(this.port, path);
+  }
+
+  async executeCode(code: string): Promise<SdkExecutionResult> {
+    const startedAt = Date.now();
+    const { output, error } = await SerialManager.execute(this.port, code);
+    // the firmware answers 'done' when the code prints nothing
+    const text = output.toString();
+    return {
+      output: text === 'done' ? '' : text,
+      ...(error && { error }),
+      exitCode: error ? 1 : 0,
+      executionTime: Date.now() - startedAt,
+    };
+  }
+
+  async getDeviceInfo(): Promise<SdkDeviceInfo> {
+    const { board, firmware } = await SerialManager.getInfo(this.port);
+    // the UIFlow firmware does not tell the chip and memory sizes
+    return { platform: board, version: firmware, chipId: '', flashSize: 0, ramSize: 0 };
+  }
+
+  isOnline(): Promise<boolean> {
+    return SerialManager.ping(this.port);
+  }
+
+  async setWifiConfig(ssid: string, password: string): Promise<void> {
+    await SerialManager.setWifi(this.port, ssid, password);
+  }
+
+  dispose() {
+    this.subscriptions.forEach((subscription) => subscription.dispose());
+  }
+}
+
+/**
+ * Stand-in for the M5StackClient of mpy-sdk driving M5Simulator devices, so SerialClientAdapter
+ * runs the backend contract without the packages/mpy-sdk submodule. serialport has to be mocked
+ * with SimulatedSerialPort.
+ */
+export class SimulatedSdkClient implements SdkClient {
+  private connections: Map<string, SimulatedSdkConnection> = new Map();
+
+  connect(port: string): Promise<SdkConnection> {
+    return new Promise((resolve, reject) => {
+      SerialManager.connect(
+        port,
+        (err) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          const connection = new SimulatedSdkConnection(port);
+          this.connections.set(port, connection);
+          resolve(connection);
+        },
+        // mpy-sdk only speaks the UIFlow protocol
+        { ...defaultOpts, ...SDK_SERIAL_SETTINGS, transport: 'uiflow' }
+      );
+    });
+  }
+
+  disconnect(port: string): Promise<void> {
+    this.connections.get(port)?.dispose();
+    this.connections.delete(port);
+    SerialManager.disconnect(port);
+    return Promise.resolve();
+  }
+
+  listPorts(): Promise<SdkPortInfo[]> {
+    return SimulatedSerialPort.list();
+  }
+
+  getConnection(port: string): SdkConnection | null {
+    return this.connections.get(port) ?? null;
+  }
+}
@@ -0,0 +1,164 @@
+import { EventEmitter } from 'events';
+import { PortInfo } from '@serialport/bindings-interface';
+import M5Simulator from './M5Simulator';
+
+type OpenOptions = {
+  path: string;
+  baudRate: number;
+  dataBits?: number;
+  parity?: string;
+  rtscts?: boolean;
+};
+
+type SetOptions = {
+  dtr?: boolean;
+  rts?: boolean;
+};
+
+/**
+ * Drop-in replacement of serialport's SerialPort talking to M5Simulator devices.
+ *
+ *   jest.mock('serialport', () => ({
+ *     SerialPort: jest.requireActual('../simulator/SimulatedSerialPort').SimulatedSerialPort,
+ *   }));
+ *   SimulatedSerialPort.attach('/dev/ttySIM0', new M5Simulator());
+ */
+export class SimulatedSerialPort extends EventEmitter {
+  private static devices: Map<string, M5Simulator> = new Map();
+  private static ports: SimulatedSerialPort[] = [];
+  public isOpen: boolean = false;
+  public signals: SetOptions = {};
+  private output: Buffer[] = [];
+  private delivering: boolean = false;
+
+  /**
+   * Plug a device on given path
+   */
+  static attach(path: string, device: M5Simulator) {
+    SimulatedSerialPort.devices.set(path, device);
+  }
+
+  static detach(path: string) {
+    SimulatedSerialPort.devices.delete(path);
+  }
+
+  /**
+   * Pull the USB cable: the device disappears and open ports are closed
+   */
+  static unplug(path: string) {
+    SimulatedSerialPort.detach(path);
+    SimulatedSerialPort.ports
+      .filter((port) => port.path === path && port.isOpen)
+      .forEach((port) => {
+        port.isOpen = false;
+        port.emit('close', new Error('Port disconnected'));
+      });
+  }
+
+  /**
+   * Port currently open on given path
+   */
+  static opened(path: string): SimulatedSerialPort | undefined {
+    return SimulatedSerialPort.ports.find((port) => port.path === path && port.isOpen);
+  }
+
+  static list(): Promise<PortInfo[]> {
+    return Promise.resolve(
+      Array.from(SimulatedSerialPort.devices.keys()).map((path) => ({
+        path,
+        manufacturer: 'M5Simulator',
+        serialNumber: undefined,
+        pnpId: undefined,
+        locationId: undefined,
+        vendorId: undefined,
+        productId: undefined,
+      }))
+    );
+  }
+
+  constructor(public readonly options: OpenOptions) {
+    super();
+    SimulatedSerialPort.ports.push(this);
+    this.open((err) => {
+      if (err) {
+        this.emit('error', err);
+      }
+    });
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  private get device(): M5Simulator | undefined {
+    return SimulatedSerialPort.devices.get(this.path);
+  }
+
+  open(cb?: (err: Error | null) => void) {
+    setImmediate(() => {
+      if (!this.device) {
+        cb?.(new Error(`Error: No such file or directory, cannot open ${this.path}`));
+        return;
+      }
+      this.isOpen = true;
+      this.emit('open');
+      cb?.(null);
+    });
+  }
+
+  write(data: Buffer): boolean {
+    const device = this.device;
+    if (!this.isOpen || !device) {
+      setImmediate(() => this.emit('error', new Error('Port is not open')));
+      return false;
+    }
+    const { chunks, delay } = device.handle(Buffer.from(data));
+    setTimeout(() => {
+      this.output.push(...chunks);
+      this.deliver();
+    }, delay);
+    return true;
+  }
+
+  drain(cb?: (err: Error | null) => void) {
+    if (cb) {
+      setImmediate(() => cb(null));
+    }
+  }
+
+  set(signals: SetOptions, cb?: (err: Error | null) => void) {
+    this.signals = { ...this.signals, ...signals };
+    if (cb) {
+      setImmediate(() => cb(null));
+    }
+  }
+
+  close(cb?: (err?: Error | null) => void) {
+    this.isOpen = false;
+    SimulatedSerialPort.ports = SimulatedSerialPort.ports.filter((port) => port !== this);
+    setImmediate(() => {
+      this.emit('close');
+      if (cb) {
+        cb(null);
+      }
+    });
+  }
+
+  // responses of back to back requests are sent one after the other, never interleaved
+  private deliver() {
+    if (this.delivering) {
+      return;
+    }
+    const chunk = this.output.shift();
+    if (!chunk || !this.isOpen) {
+      this.output = [];
+      return;
+    }
+    this.delivering = true;
+    this.emit('data', chunk);
+    setImmediate(() => {
+      this.delivering = false;
+      this.deliver();
+    });
+  }
+}
@@ -0,0 +1,181 @@
+import WebSocket from 'ws';
+import { AddressInfo } from 'net';
+import {
+  fileResponse,
+  parseFileRequest,
+  REQUEST_LENGTH,
+  toWebReplId,
+  WEBREPL_ACCESS_DENIED,
+  WEBREPL_CONNECTED,
+  WEBREPL_GET_FILE,
+  WEBREPL_PASSWORD_PROMPT,
+  WEBREPL_PUT_FILE,
+} from '../serial/WebRepl';
+import M5Simulator from './M5Simulator';
+
+// MicroPython answers a failed file request with this status
+const STATUS_FAILED = 1;
+
+// Handles the bytes following a file request, true once the transfer is over
+type TransferStep = () => boolean;
+
+// Largest block of a file sent per get request, the length of the MicroPython buffer
+const GET_BLOCK_LENGTH = 510;
+
+/**
+ * WebREPL of an M5Simulator on a local WebSocket server, the stand-in of a device on Wi-Fi.
+ * Text frames go to the simulator REPL, binary frames are file transfers.
+ *
+ *   const server = await WebReplServer.start(new M5Simulator({ protocol: 'rawRepl' }), 'secret');
+ *   SerialManager.connectWebRepl(server.id, 'secret', cb);
+ */
+export class WebReplServer {
+  private constructor(
+    private readonly server: WebSocket.Server,
+    private readonly device: M5Simulator,
+    private readonly password: string
+  ) {
+    server.on('connection', (socket) => this.onConnection(socket));
+  }
+
+  static start(device: M5Simulator, password: string): Promise<WebReplServer> {
+    return new Promise((resolve) => {
+      const server: WebSocket.Server = new WebSocket.Server({ host: '127.0.0.1', port: 0 }, () =>
+        resolve(new WebReplServer(server, device, password))
+      );
+    });
+  }
+
+  get id(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return toWebReplId({ host: '127.0.0.1', port });
+  }
+
+  /**
+   * Close the client sockets, as a device reset does
+   */
+  dropClients() {
+    this.server.clients.forEach((socket) => socket.terminate());
+  }
+
+  close(): Promise<void> {
+    this.dropClients();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private onConnection(socket: WebSocket) {
+    let typed = '';
+    let loggedIn = false;
+    let received = Buffer.from([]);
+    let transfer: TransferStep | undefined;
+    socket.send(WEBREPL_PASSWORD_PROMPT);
+
+    socket.on('message', (data: WebSocket.Data) => {
+      if (typeof data === 'string') {
+        if (loggedIn) {
+          this.repl(socket, data);
+          return;
+        }
+        typed += data;
+        if (!typed.endsWith('\r')) {
+          return;
+        }
+        if (typed.slice(0, -1) !== this.password) {
+          socket.send(`\r\n${WEBREPL_ACCESS_DENIED}\r\n`);
+          socket.close();
+          return;
+        }
+        loggedIn = true;
+        socket.send(`\r\n${WEBREPL_CONNECTED}\r\n>>> `);
+        return;
+      }
+
+      received = Buffer.concat([received, data as Buffer]);
+      while (received.length) {
+        if (transfer) {
+          const length = received.length;
+          if (transfer()) {
+            transfer = undefined;
+          }
+          if (received.length === length) {
+            return;
+          }
+          continue;
+        }
+        if (received.length < REQUEST_LENGTH) {
+          return;
+        }
+        const request = parseFileRequest(received);
+        received = received.slice(REQUEST_LENGTH);
+        transfer = this.fileTransfer(socket, request.type, request.filename, request.size, (length) => {
+          const consumed = received.slice(0, length);
+          received = received.slice(length);
+          return consumed;
+        });
+      }
+    });
+  }
+
+  private repl(socket: WebSocket, input: string) {
+    const { chunks, delay } = this.device.handle(Buffer.from(input));
+    setTimeout(() => chunks.forEach((chunk) => socket.send(chunk.toString())), delay);
+  }
+
+  /**
+   * Answer a file request, the returned step handles the bytes following it
+   * @param consume Take up to `length` received bytes
+   */
+  private fileTransfer(
+    socket: WebSocket,
+    type: number,
+    filename: string,
+    size: number,
+    consume: (length: number) => Buffer
+  ): TransferStep | undefined {
+    if (type === WEBREPL_PUT_FILE) {
+      const parts: Buffer[] = [];
+      let missing = size;
+      socket.send(fileResponse(0));
+      const write = () => {
+        this.device.writeFile(filename, Buffer.concat(parts));
+        socket.send(fileResponse(0));
+      };
+      if (!size) {
+        write();
+        return undefined;
+      }
+      return () => {
+        const part = consume(missing);
+        parts.push(part);
+        missing -= part.length;
+        if (missing) {
+          return false;
+        }
+        write();
+        return true;
+      };
+    }
+
+    const content = type === WEBREPL_GET_FILE ? this.device.readFile(filename) : undefined;
+    if (!content) {
+      socket.send(fileResponse(STATUS_FAILED));
+      return undefined;
+    }
+    let offset = 0;
+    socket.send(fileResponse(0));
+    return () => {
+      // the client asks for each block with a null byte
+      consume(1);
+      const block = content.slice(offset, offset + GET_BLOCK_LENGTH);
+      offset += block.length;
+      const length = Buffer.alloc(2);
+      length.writeUInt16LE(block.length, 0);
+      socket.send(Buffer.concat([length, block]));
+      if (block.length) {
+        return false;
+      }
+      socket.send(fileResponse(0));
+      return true;
+    };
+  }
+}
@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import SerialClientAdapter, {
+  SerialClientAdapter as SerialClientAdapterClass,
+} from '../adapters/SerialClientAdapter';
+import { SerialUploadError } from '../serial/errors';
+import { SerialBackend } from '../serial/SerialBackend';
+import SerialManager from '../serial/SerialManager';
+import { defaultOpts, UploadProgress } from '../serial/types';
+import M5Simulator from './M5Simulator';
+import { SimulatedSdkClient } from './SimulatedSdk';
+import { SimulatedSerialPort } from './SimulatedSerialPort';
+
+jest.mock('serialport', () => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  SerialPort: jest.requireActual('./SimulatedSerialPort').SimulatedSerialPort,
+}));
+
+const PORT = '/dev/ttySIM1';
+
+// the real mpy-sdk can only run once the packages/mpy-sdk submodule is checked out
+const SDK_AVAILABLE = fs.existsSync(path.join(__dirname, '../../packages/mpy-sdk/src/index.ts'));
+
+const BACKENDS: [string, SerialBackend, boolean][] = [
+  ['SerialManager', SerialManager, true],
+  [
+    'SerialClientAdapter on a simulated mpy-sdk',
+    new SerialClientAdapterClass(() => new SimulatedSdkClient()),
+    true,
+  ],
+  ['SerialClientAdapter', SerialClientAdapter, SDK_AVAILABLE],
+];
+
+BACKENDS.forEach(([name, backend, available]) => {
+  (available ? describe : describe.skip)(`${name} backend contract`, () => {
+    let device: M5Simulator;
+
+    const connect = (settings = defaultOpts) =>
+      new Promise<void>((resolve, reject) => {
+        backend.connect(PORT, (err) => (err ? reject(err) : resolve()), settings);
+      });
+
+    beforeEach(async () => {
+      device = new M5Simulator();
+      device.writeFile('/flash/main.py', 'print("hello")');
+      device.writeFile('/flash/res/logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      SimulatedSerialPort.attach(PORT, device);
+      await connect();
+    });
+
+    // the port closes asynchronously
+    const disconnect = async () => {
+      backend.disconnect(PORT);
+      await new Promise((resolve) => setImmediate(resolve));
+    };
+
+    afterEach(async () => {
+      await disconnect();
+      SimulatedSerialPort.detach(PORT);
+    });
+
+    test('should connect and disconnect', async () => {
+      // ASSERT
+      expect(backend.has(PORT)).toBe(true);
+      expect(backend.state(PORT)).toBe('connected');
+
+      // ACT
+      await disconnect();
+
+      // ASSERT
+      expect(backend.has(PORT)).toBe(false);
+      expect(backend.state(PORT)).toBe('disconnected');
+    });
+
+    test('should ping device and retrieve its info', async () => {
+      // ACT
+      const online = await backend.ping(PORT);
+      const info = await backend.getInfo(PORT);
+
+      // ASSERT
+      expect(online).toBe(true);
+      expect(info.firmware).toBe('v1.7.5');
+      expect(info.board).toBe('M5Stack-Core');
+      expect(backend.deviceInfo(PORT)).toStrictEqual(info);
+    });
+
+    test('should list entries with their type', async () => {
+      // ACT
+      const entries = await backend.listDir(PORT, '/flash');
+
+      // ASSERT
+      expect(entries.map(({ name, type }) => `${type} ${name}`).sort()).toStrictEqual([
+        'directory res',
+        'file main.py',
+      ]);
+      expect(entries.find(({ name }) => name === 'main.py')?.size).toBe(14);
+    });
+
+    test('should stat files', async () => {
+      // ACT
+      const entry = await backend.stat(PORT, '/flash/main.py');
+      const missing = await backend.stat(PORT, '/flash/missing.py');
+
+      // ASSERT
+      expect(entry?.type).toBe('file');
+      expect(entry?.size).toBe(14);
+      expect(missing).toBe(undefined);
+    });
+
+    test('should read binary files byte for byte', async () => {
+      // ACT
+      const content = await backend.readFile(PORT, '/flash/res/logo.png');
+
+      // ASSERT
+      expect(content).toStrictEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    });
+
+    test('should write and append to files', async () => {
+      // ACT
+      await backend.download(PORT, '/flash/test.py', 'a = 1\n', 0x01);
+      await backend.download(PORT, '/flash/test.py', 'b = 2\n', 0x00);
+
+      // ASSERT
+      expect(device.readFile('/flash/test.py')?.toString()).toBe('a = 1\nb = 2\n');
+    });
+
+    test('should upload files with progress', async () => {
+      // ARRANGE
+      const content = Buffer.alloc(1000, 'a');
+      const progress: UploadProgress[] = [];
+
+      // ACT
+      await backend.bulkDownload(PORT, '/flash/big.bin', content, true, (p) => progress.push(p));
+
+      // ASSERT
+      expect(device.readFile('/flash/big.bin')).toStrictEqual(content);
+      expect(progress[progress.length - 1].sent).toBe(1000);
+      expect(progress[progress.length - 1].total).toBe(1000);
+    });
+
+    test('should resume an upload from the offset it reached', async () => {
+      // ARRANGE
+      const content = Buffer.from(Array.from({ length: 1000 }, (_, i) => i & 0xff));
+      device.writeFile('/flash/big.bin', content.slice(0, 400));
+      const progress: UploadProgress[] = [];
+
+      // ACT
+      await backend.bulkDownload(PORT, '/flash/big.bin', content, true, (p) => progress.push(p), undefined, {
+        resumeFrom: 400,
+      });
+
+      // ASSERT
+      expect(device.readFile('/flash/big.bin')).toStrictEqual(content);
+      expect(progress[0].sent > 400).toBe(true);
+    });
+
+    test('should stop an upload when cancelled', async () => {
+      // ARRANGE
+      const content = Buffer.alloc(20000, 'a');
+      const listeners: ((e: unknown) => void)[] = [];
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: (listener: (e: unknown) => void) => {
+          listeners.push(listener);
+          return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+        },
+      };
+      const cancel = () => {
+        token.isCancellationRequested = true;
+        listeners.slice().forEach((listener) => listener(undefined));
+      };
+
+      // ACT
+      const upload = backend.bulkDownload(PORT, '/flash/big.bin', content, true, cancel, token);
+
+      // ASSERT
+      await expect(upload).rejects.toThrow(SerialUploadError);
+      expect(device.readFile('/flash/big.bin')).not.toStrictEqual(content);
+    });
+
+    test('should remove files', async () => {
+      // ACT
+      await backend.removeFile(PORT, '/flash/main.py');
+
+      // ASSERT
+      expect(device.readFile('/flash/main.py')).toBe(undefined);
+    });
+
+    test('should hash files under a folder', async () => {
+      // ACT
+      const hashes = await backend.hashDir(PORT, '/flash');
+      const missing = await backend.hashDir(PORT, '/flash/missing');
+
+      // ASSERT
+      expect(Array.from(hashes.keys()).sort()).toStrictEqual(['main.py', 'res/logo.png']);
+      expect(hashes.get('main.py')).toBe(createHash('sha256').update('print("hello")').digest('hex'));
+      expect(missing.size).toBe(0);
+    });
+
+    test('should create folders with their parents', async () => {
+      // ACT
+      await backend.mkdir(PORT, '/flash/lib/sensors');
+
+      // ASSERT
+      expect(device.directories.has('/flash/lib')).toBe(true);
+      expect(device.directories.has('/flash/lib/sensors')).toBe(true);
+    });
+
+    test('should rename files and folders', async () => {
+      // ACT
+      await backend.rename(PORT, '/flash/main.py', '/flash/test.py');
+      await backend.rename(PORT, '/flash/res', '/flash/images');
+
+      // ASSERT
+      expect(device.readFile('/flash/main.py')).toBe(undefined);
+      expect(device.readFile('/flash/test.py')?.toString()).toBe('print("hello")');
+      expect(device.readFile('/flash/images/logo.png')).toStrictEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      expect(device.directories.has('/flash/res')).toBe(false);
+    });
+
+    test('should remove empty folders only', async () => {
+      // ARRANGE
+      device.mkdir('/flash/empty');
+
+      // ACT
+      await backend.rmdir(PORT, '/flash/empty');
+      const error = await backend.rmdir(PORT, '/flash/res').catch((e) => e);
+
+      // ASSERT
+      expect(device.directories.has('/flash/empty')).toBe(false);
+      expect(error instanceof Error).toBe(true);
+      expect(device.directories.has('/flash/res')).toBe(true);
+    });
+
+    test('should report the space left on the flash', async () => {
+      // ACT
+      const flash = await backend.statvfs(PORT, '/flash');
+      const sd = await backend.statvfs(PORT, '/sd');
+
+      // ASSERT
+      expect(flash).toStrictEqual({ total: 2 * 1024 * 1024, free: 2 * 1024 * 1024 - 2 * 4096 });
+      expect(sd).toBe(undefined);
+    });
+
+    test('should run code', async () => {
+      // ARRANGE
+      device.onExec((code) => (code === 'print("hello")' ? 'hello\r\n' : undefined));
+
+      // ACT
+      const output = await backend.exec(PORT, 'print("hello")');
+
+      // ASSERT
+      expect(output.toString()).toBe('hello\r\n');
+    });
+
+    test('should tell code printing output from code failing', async () => {
+      // ARRANGE
+      device.onExec((code) =>
+        code === 'print("done")'
+          ? 'done\r\n'
+          : code === 'x'
+          ? "Traceback (most recent call last):\r\nNameError: name 'x' isn't defined\r\n"
+          : undefined
+      );
+
+      // ACT
+      const printed = await backend.execute(PORT, 'print("done")');
+      const failed = await backend.execute(PORT, 'x');
+
+      // ASSERT
+      expect(printed).toStrictEqual({ output: Buffer.from('done\r\n'), error: '' });
+      expect(failed.error).toBe("Traceback (most recent call last):\r\nNameError: name 'x' isn't defined");
+    });
+  });
+});
+
+describe('SerialClientAdapter', () => {
+  const backend = new SerialClientAdapterClass(() => new SimulatedSdkClient());
+
+  beforeEach(() => {
+    SimulatedSerialPort.attach(PORT, new M5Simulator());
+  });
+
+  afterEach(() => {
+    SimulatedSerialPort.detach(PORT);
+  });
+
+  test('should refuse serial settings mpy-sdk cannot apply', async () => {
+    // ACT
+    const connected = new Promise<void>((resolve, reject) => {
+      backend.connect(PORT, (err) => (err ? reject(err) : resolve()), { ...defaultOpts, baudRate: 9600 });
+    });
+
+    // ASSERT
+    await expect(connected).rejects.toThrow(
+      'mpy-sdk opens ports at 115200 baud 8N1, other serial settings need the legacy backend.'
+    );
+    expect(backend.has(PORT)).toBe(false);
+  });
+});
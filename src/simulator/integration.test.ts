@@ -0,0 +1,753 @@
+import * as vscode from 'vscode';
+import { SerialError, SerialFrameError, SerialTimeoutError, SerialUploadError } from '../serial/errors';
+import M5FileSystemProvider from '../providers/M5FileSystemProvider';
+import SerialManager from '../serial/SerialManager';
+import { ConnectionState, defaultOpts, SerialSettings, UploadProgress } from '../serial/types';
+import PortList from '../ui/PortList';
+import { COM, FILE, FOLDER, M5FSResource, M5TreeDataProvider } from '../ui/TreeDataProvider';
+import M5Simulator from './M5Simulator';
+import { SimulatedSerialPort } from './SimulatedSerialPort';
+import { WebReplServer } from './WebReplServer';
+
+jest.mock('serialport', () => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  SerialPort: jest.requireActual('./SimulatedSerialPort').SimulatedSerialPort,
+}));
+jest.mock('../ui/FileTree');
+
+const PORT = '/dev/ttySIM0';
+
+const connect = (settings?: SerialSettings) =>
+  new Promise<void>((resolve, reject) => {
+    SerialManager.connect(PORT, (err) => (err ? reject(err) : resolve()), settings);
+  });
+
+const waitForState = (com: string, expected: ConnectionState) =>
+  new Promise<void>((resolve) => {
+    const listener = SerialManager.onStateChange((changed, state) => {
+      if (changed === com && state === expected) {
+        listener.dispose();
+        resolve();
+      }
+    });
+  });
+
+const disconnect = () =>
+  new Promise<void>((resolve) => {
+    SerialManager.disconnect(PORT);
+    setImmediate(resolve);
+  });
+
+describe('Simulated device', () => {
+  let device: M5Simulator;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    device = new M5Simulator({ chunkSize: 7 });
+    device.writeFile('/flash/boot.py', 'import machine');
+    device.writeFile('/flash/main.py', 'print("hello")');
+    device.writeFile('/flash/res/logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    SimulatedSerialPort.attach(PORT, device);
+    await connect();
+  });
+
+  afterEach(async () => {
+    await disconnect();
+    SimulatedSerialPort.detach(PORT);
+  });
+
+  describe('SerialManager', () => {
+    test('should ping device and retrieve its info', async () => {
+      // ACT
+      const online = await SerialManager.ping(PORT);
+      const info = await SerialManager.getInfo(PORT);
+
+      // ASSERT
+      expect(online).toBe(true);
+      expect(info).toStrictEqual({ firmware: 'v1.7.5', board: 'M5Stack-Core', raw: 'v1.7.5,M5Stack-Core' });
+    });
+
+    test('should open the port with the serial settings', async () => {
+      // ARRANGE
+      await disconnect();
+
+      // ACT
+      await connect({ ...defaultOpts, baudRate: 9600, parity: 'even', dtr: false });
+
+      // ASSERT
+      const port = SimulatedSerialPort.opened(PORT);
+      expect(port?.options.baudRate).toBe(9600);
+      expect(port?.options.parity).toBe('even');
+      expect(port?.signals).toStrictEqual({ dtr: false });
+    });
+
+    test('should read binary files byte for byte', async () => {
+      // ACT
+      const content = await SerialManager.readFile(PORT, '/flash/res/logo.png');
+
+      // ASSERT
+      expect(content).toStrictEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    });
+
+    test('should upload files larger than a chunk', async () => {
+      // ARRANGE
+      const content = Buffer.alloc(1000, 'a');
+      const progress: UploadProgress[] = [];
+
+      // ACT
+      await SerialManager.bulkDownload(PORT, '/flash/big.py', content, true, (p) => progress.push(p));
+
+      // ASSERT
+      expect(device.readFile('/flash/big.py')).toStrictEqual(content);
+      expect(progress.map(({ sent, total }) => [sent, total])).toStrictEqual([[1000, 1000]]);
+    });
+
+    test('should negotiate the chunk length and append the next chunks', async () => {
+      // ARRANGE
+      const content = Buffer.from(Array.from({ length: 20000 }, (_, i) => i % 251));
+      const progress: UploadProgress[] = [];
+
+      // ACT
+      await SerialManager.bulkDownload(PORT, '/flash/res/image.bin', content, true, (p) => progress.push(p));
+
+      // ASSERT
+      expect(device.readFile('/flash/res/image.bin')).toStrictEqual(content);
+      expect(progress.map(({ sent }) => sent)).toStrictEqual([4096, 8192, 12288, 16384, 20000]);
+      expect(progress[4].bytesPerSecond > 0).toBe(true);
+    });
+
+    test('should fall back to the longest chunk accepted by the firmware', async () => {
+      // ARRANGE
+      await disconnect();
+      device = new M5Simulator({ maxRequestLength: 1000 });
+      SimulatedSerialPort.attach(PORT, device);
+      await connect();
+      const content = Buffer.alloc(3000, 'b');
+
+      // ACT
+      await SerialManager.bulkDownload(PORT, '/flash/big.py', content, true, () => {});
+      const negotiated = device.requests.length;
+      await SerialManager.bulkDownload(PORT, '/flash/big.py', content, true, () => {});
+
+      // ASSERT
+      expect(device.readFile('/flash/big.py')).toStrictEqual(content);
+      // protocol probe, 256, 512, 1024 refused, 512 again then 5 appended chunks
+      expect(negotiated).toBe(10);
+      expect(device.requests.length - negotiated).toBe(6);
+    });
+
+    test('should pipeline appended chunks', async () => {
+      // ARRANGE
+      await disconnect();
+      await connect({ ...defaultOpts, pipelineDepth: 3 });
+      const content = Buffer.from(Array.from({ length: 30000 }, (_, i) => i % 13));
+
+      // ACT
+      await SerialManager.bulkDownload(PORT, '/flash/big.py', content, true, () => {});
+
+      // ASSERT
+      expect(device.readFile('/flash/big.py')).toStrictEqual(content);
+    });
+
+    test('should process concurrent commands in order', async () => {
+      // ACT
+      const [list, main, boot] = await Promise.all([
+        SerialManager.listDir(PORT, '/flash'),
+        SerialManager.readFile(PORT, '/flash/main.py'),
+        SerialManager.readFile(PORT, '/flash/boot.py'),
+      ]);
+
+      // ASSERT
+      expect(list.map(({ name }) => name)).toStrictEqual(['res', 'boot.py', 'main.py']);
+      expect(main.toString()).toBe('print("hello")');
+      expect(boot.toString()).toBe('import machine');
+    });
+
+    test('should tell code printing output from code failing', async () => {
+      // ARRANGE
+      device.onExec((code) =>
+        code === 'print("done")'
+          ? 'done\r\n'
+          : code === 'x'
+          ? "Traceback (most recent call last):\r\nNameError: name 'x' isn't defined\r\n"
+          : undefined
+      );
+
+      // ACT
+      const printed = await SerialManager.execute(PORT, 'print("done")');
+      const failed = await SerialManager.execute(PORT, 'x');
+
+      // ASSERT
+      expect(printed).toStrictEqual({ output: Buffer.from('done\r\n'), error: '' });
+      expect(failed).toStrictEqual({
+        output: Buffer.from(''),
+        error: "Traceback (most recent call last):\r\nNameError: name 'x' isn't defined",
+      });
+    });
+
+    test('should remove files', async () => {
+      // ACT
+      await SerialManager.removeFile(PORT, '/flash/main.py');
+
+      // ASSERT
+      expect(device.readFile('/flash/main.py')).toBe(undefined);
+    });
+    test('should list entries with their size and modification time', async () => {
+      // ARRANGE
+      const before = Date.now() - 1000;
+
+      // ACT
+      const entries = await SerialManager.listDir(PORT, '/flash');
+      const stat = await SerialManager.stat(PORT, '/flash/main.py');
+      const missing = await SerialManager.stat(PORT, '/flash/missing.py');
+
+      // ASSERT
+      expect(entries.map(({ name, type, size }) => [name, type, size])).toStrictEqual([
+        ['res', 'directory', 0],
+        ['boot.py', 'file', 14],
+        ['main.py', 'file', 14],
+      ]);
+      expect(entries[1].mtime >= before && entries[1].mtime <= Date.now()).toBe(true);
+      expect(stat).toStrictEqual(entries[2]);
+      expect(missing).toBe(undefined);
+    });
+
+    test('should reject listing a missing directory', async () => {
+      // ACT
+      const failed = SerialManager.listDir(PORT, '/flash/missing');
+
+      // ASSERT
+      await expect(failed).rejects.toBeInstanceOf(SerialError);
+    });
+  });
+
+  describe('faults', () => {
+    test('should reject a response with a bad CRC and recover', async () => {
+      // ARRANGE
+      device.injectFault({ type: 'badCrc' });
+
+      // ACT
+      const failed = SerialManager.readFile(PORT, '/flash/main.py');
+
+      // ASSERT
+      await expect(failed).rejects.toBeInstanceOf(SerialFrameError);
+      expect((await SerialManager.readFile(PORT, '/flash/main.py')).toString()).toBe('print("hello")');
+    });
+
+    test('should time out on dropped bytes and recover', async () => {
+      // ARRANGE
+      device.injectFault({ type: 'drop', count: 3 });
+
+      // ACT
+      const failed = SerialManager.readFile(PORT, '/flash/main.py', { timeout: 100 });
+
+      // ASSERT
+      await expect(failed).rejects.toBeInstanceOf(SerialTimeoutError);
+      expect(await SerialManager.ping(PORT)).toBe(true);
+    });
+
+    test('should time out on slow responses', async () => {
+      // ARRANGE
+      device.injectFault({ type: 'delay', ms: 200 });
+
+      // ACT
+      const failed = SerialManager.listDir(PORT, '/flash', { timeout: 50 });
+
+      // ASSERT
+      await expect(failed).rejects.toBeInstanceOf(SerialTimeoutError);
+    });
+
+    test('should recover after a reset in the middle of a transfer', async () => {
+      // ARRANGE
+      device.injectFault({ type: 'reset', afterBytes: 8 });
+
+      // ACT
+      const failed = SerialManager.readFile(PORT, '/flash/main.py', { timeout: 100 });
+
+      // ASSERT
+      await expect(failed).rejects.toBeInstanceOf(SerialTimeoutError);
+      expect((await SerialManager.readFile(PORT, '/flash/boot.py')).toString()).toBe('import machine');
+    });
+
+    test('should resume an upload whose reply was lost without duplicating data', async () => {
+      // ARRANGE
+      const content = Buffer.from(Array.from({ length: 20000 }, (_, i) => i % 251));
+      // second appended chunk, written by the device
+      device.injectFault({ type: 'badCrc' }, 6);
+
+      // ACT
+      await SerialManager.bulkDownload(PORT, '/flash/main.py', content, true, () => {});
+
+      // ASSERT
+      expect(device.readFile('/flash/main.py')).toStrictEqual(content);
+    });
+
+    test('should start over when a pipelined chunk was refused', async () => {
+      // ARRANGE
+      const content = Buffer.from(Array.from({ length: 20000 }, (_, i) => i % 251));
+      // second appended chunk, the next one is already sent
+      device.injectFault({ type: 'fail' }, 6);
+
+      // ACT
+      await SerialManager.bulkDownload(PORT, '/flash/main.py', content, true, () => {});
+
+      // ASSERT
+      expect(device.readFile('/flash/main.py')).toStrictEqual(content);
+    });
+
+    test('should give up after the configured retries and resume later', async () => {
+      // ARRANGE
+      await disconnect();
+      await connect({ ...defaultOpts, pipelineDepth: 1 });
+      const content = Buffer.from(Array.from({ length: 20000 }, (_, i) => i % 251));
+      device.injectFault({ type: 'fail' }, 6);
+
+      // ACT
+      const failed = SerialManager.bulkDownload(PORT, '/flash/main.py', content, true, () => {}, undefined, {
+        retries: 0,
+      });
+      const error: SerialUploadError = await failed.catch((e) => e);
+      const requests = device.requests.length;
+      await SerialManager.bulkDownload(PORT, '/flash/main.py', content, true, () => {}, undefined, {
+        resumeFrom: error.written,
+      });
+
+      // ASSERT
+      expect(error instanceof SerialUploadError).toBe(true);
+      expect(error.written).toBe(8192);
+      expect(device.readFile('/flash/main.py')).toStrictEqual(content);
+      // size check then the missing chunks only, with the safe chunk length
+      expect(device.requests.length - requests).toBe(1 + Math.ceil((20000 - 8192) / 256));
+    });
+  });
+
+  describe('reconnect', () => {
+    test('should reject pending commands when device is unplugged', async () => {
+      // ARRANGE
+      device.injectFault({ type: 'delay', ms: 100 });
+      const pending = SerialManager.readFile(PORT, '/flash/main.py');
+
+      // ACT
+      SimulatedSerialPort.unplug(PORT);
+
+      // ASSERT
+      await expect(pending).rejects.toBeInstanceOf(SerialError);
+      expect(SerialManager.state(PORT)).toBe('disconnected');
+      await expect(SerialManager.listDir(PORT, '/flash')).rejects.toBeInstanceOf(SerialError);
+    });
+
+    test('should reopen the port when device is plugged back', async () => {
+      // ARRANGE
+      const states: ConnectionState[] = [];
+      const listener = SerialManager.onStateChange((com, state) => states.push(state));
+      SimulatedSerialPort.unplug(PORT);
+      const connected = waitForState(PORT, 'connected');
+
+      // ACT
+      SimulatedSerialPort.attach(PORT, device);
+      await connected;
+      listener.dispose();
+
+      // ASSERT
+      expect(states).toStrictEqual(['disconnected', 'reconnecting', 'connected']);
+      expect(await SerialManager.ping(PORT)).toBe(true);
+    });
+
+    test('should connect a device plugged after being selected', async () => {
+      // ARRANGE
+      const opened = jest.fn();
+      const ready = new Promise<void>((resolve) =>
+        SerialManager.connect('/dev/ttySIM1', (err) => {
+          opened(err);
+          resolve();
+        })
+      );
+      await waitForState('/dev/ttySIM1', 'disconnected');
+      const connected = waitForState('/dev/ttySIM1', 'connected');
+
+      // ACT
+      SimulatedSerialPort.attach('/dev/ttySIM1', new M5Simulator());
+      await connected;
+      await ready;
+
+      // ASSERT
+      expect(opened).toHaveBeenCalledTimes(1);
+      SerialManager.disconnect('/dev/ttySIM1');
+      SimulatedSerialPort.detach('/dev/ttySIM1');
+    });
+  });
+
+  describe('UI', () => {
+    test('should build the device tree', async () => {
+      // ARRANGE
+      const provider = new M5TreeDataProvider([PORT]);
+      const comNode = new M5FSResource(PORT, '', '', PORT, COM, vscode.TreeItemCollapsibleState.Collapsed);
+
+      // ACT
+      const children = await provider._getChildrenCom(comNode);
+      const folder = children.find((child) => child.label === 'res') as M5FSResource;
+      const resources = await provider._getChildrenCom(folder);
+
+      // ASSERT
+      expect(children.map((child) => [child.label, child.contextValue])).toStrictEqual([
+        ['res', FOLDER],
+        ['boot.py', FILE],
+        ['main.py', FILE],
+      ]);
+      expect(resources.map((child) => child.label)).toStrictEqual(['logo.png']);
+    });
+
+    test('should tell files from folders by their type', async () => {
+      // ARRANGE
+      device.mkdir('/flash/v1.2');
+      device.writeFile('/flash/LICENSE', 'MIT');
+      device.writeFile('/flash/a, b.py', 'print(1)');
+      const provider = new M5TreeDataProvider([PORT]);
+      const comNode = new M5FSResource(PORT, '', '', PORT, COM, vscode.TreeItemCollapsibleState.Collapsed);
+
+      // ACT
+      const children = await provider._getChildrenCom(comNode);
+
+      // ASSERT
+      expect(children.map((child) => [child.label, child.contextValue])).toStrictEqual([
+        ['res', FOLDER],
+        ['v1.2', FOLDER],
+        ['boot.py', FILE],
+        ['main.py', FILE],
+        ['LICENSE', FILE],
+        ['a, b.py', FILE],
+      ]);
+      expect(children[4].entry?.size).toBe(3);
+    });
+
+    test('should create a file from the tree', async () => {
+      // ARRANGE
+      jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('new.py');
+
+      // ACT
+      await PortList.create({ contextValue: COM, label: PORT });
+
+      // ASSERT
+      expect(device.readFile('/flash/new.py')).toStrictEqual(Buffer.from(''));
+    });
+
+    test('should remove a file from the tree', async () => {
+      // ARRANGE
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showInformationMessage').mockResolvedValue('Yes');
+      vscode.window.visibleTextEditors = [];
+
+      // ACT
+      await PortList.remove({ com: PORT, parent: '/flash', label: 'main.py' });
+
+      // ASSERT
+      expect(device.readFile('/flash/main.py')).toBe(undefined);
+    });
+  });
+
+  describe('raw REPL', () => {
+    beforeEach(async () => {
+      await disconnect();
+      device = new M5Simulator({
+        protocol: 'rawRepl',
+        firmware: 'v1.19.1',
+        board: 'ESP32 module with ESP32',
+      });
+      device.writeFile('/flash/main.py', 'print("hello")');
+      device.writeFile('/flash/res/logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      SimulatedSerialPort.attach(PORT, device);
+    });
+
+    test('should probe the raw REPL of stock firmwares', async () => {
+      // ACT
+      await connect();
+      const online = await SerialManager.ping(PORT);
+      const info = await SerialManager.getInfo(PORT);
+
+      // ASSERT
+      expect(SerialManager.transport(PORT)).toBe('rawRepl');
+      expect(online).toBe(true);
+      expect(info.firmware).toBe('MicroPython v1.19.1');
+      expect(info.board).toBe('ESP32 module with ESP32');
+    });
+
+    test('should use the configured transport without probing', async () => {
+      // ACT
+      await connect({ ...defaultOpts, transport: 'rawRepl' });
+
+      // ASSERT
+      expect(SerialManager.transport(PORT)).toBe('rawRepl');
+      expect(device.requests.length).toBe(0);
+    });
+
+    test('should build the device tree', async () => {
+      // ARRANGE
+      await connect({ ...defaultOpts, transport: 'rawRepl' });
+      const provider = new M5TreeDataProvider([PORT]);
+      const comNode = new M5FSResource(PORT, '', '', PORT, COM, vscode.TreeItemCollapsibleState.Collapsed);
+
+      // ACT
+      const children = await provider._getChildrenCom(comNode);
+
+      // ASSERT
+      expect(children.map((child) => [child.label, child.contextValue])).toStrictEqual([
+        ['res', FOLDER],
+        ['main.py', FILE],
+      ]);
+    });
+
+    test('should read, upload and remove files', async () => {
+      // ARRANGE
+      await connect({ ...defaultOpts, transport: 'rawRepl' });
+      const content = Buffer.from(Array.from({ length: 3000 }, (_, i) => i % 251));
+
+      // ACT
+      const logo = await SerialManager.readFile(PORT, '/flash/res/logo.png');
+      await SerialManager.bulkDownload(PORT, '/flash/data.bin', content, true, () => {});
+      await SerialManager.removeFile(PORT, '/flash/main.py');
+
+      // ASSERT
+      expect(logo).toStrictEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      expect(device.readFile('/flash/data.bin')).toStrictEqual(content);
+      expect(device.readFile('/flash/main.py')).toBe(undefined);
+    });
+
+    test('should run code and report python errors', async () => {
+      // ARRANGE
+      await connect({ ...defaultOpts, transport: 'rawRepl' });
+
+      // ACT
+      const run = await SerialManager.exec(PORT, 'import machine');
+      const read = SerialManager.readFile(PORT, '/flash/missing.py');
+
+      // ASSERT
+      expect(run.toString()).toBe('done');
+      await expect(read).rejects.toThrow('OSError: [Errno 2] ENOENT');
+    });
+
+    test('should tell code printing output from code failing', async () => {
+      // ARRANGE
+      await connect({ ...defaultOpts, transport: 'rawRepl' });
+      device.onExec((code) =>
+        code === 'print("done")'
+          ? 'done\r\n'
+          : code === 'x'
+          ? "Traceback (most recent call last):\r\nNameError: name 'x' isn't defined\r\n"
+          : undefined
+      );
+
+      // ACT
+      const printed = await SerialManager.execute(PORT, 'print("done")');
+      const failed = await SerialManager.execute(PORT, 'x');
+
+      // ASSERT
+      expect(printed).toStrictEqual({ output: Buffer.from('done\r\n'), error: '' });
+      expect(failed).toStrictEqual({
+        output: Buffer.from(''),
+        error: "Traceback (most recent call last):\r\nNameError: name 'x' isn't defined",
+      });
+    });
+
+    test('should map /flash to the root of firmwares without it', async () => {
+      // ARRANGE
+      device.directories.clear();
+      device.files.clear();
+      device.directories.add('/');
+      device.writeFile('/boot.py', 'import machine');
+      device.writeFile('/lib/util.py', 'x = 1');
+      await connect();
+
+      // ACT
+      const entries = await SerialManager.listDir(PORT, '/flash');
+      const boot = await SerialManager.readFile(PORT, '/flash/boot.py');
+      await SerialManager.download(PORT, '/flash/lib/util.py', 'x = 2', 0x01);
+
+      // ASSERT
+      expect(entries.map(({ name, type }) => [name, type])).toStrictEqual([
+        ['lib', 'directory'],
+        ['boot.py', 'file'],
+      ]);
+      expect(boot.toString()).toBe('import machine');
+      expect(device.readFile('/lib/util.py')).toStrictEqual(Buffer.from('x = 2'));
+    });
+  });
+
+  describe('firmware without exec output', () => {
+    // m5stackfs uri of a file of the simulated device
+    const deviceUri = (filepath: string) => vscode.Uri.file(`/${PORT.split('/').slice(-1)[0]}${filepath}`);
+
+    beforeEach(async () => {
+      await disconnect();
+      device = new M5Simulator({ execOutput: false });
+      device.writeFile('/flash/main.py', 'print("hello")');
+      SimulatedSerialPort.attach(PORT, device);
+      await connect();
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'withProgress').mockImplementation((options, task) =>
+        // @ts-ignore
+        task(
+          { report: jest.fn() },
+          { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => {} }) }
+        )
+      );
+    });
+
+    test('should open and save files without their metadata', async () => {
+      // ARRANGE
+      const uri = deviceUri('/flash/main.py');
+      M5FileSystemProvider.removeCache(uri.path);
+
+      // ACT
+      const stat = await M5FileSystemProvider.stat(uri);
+      const content = await M5FileSystemProvider.readFile(uri);
+      await M5FileSystemProvider.writeFile(uri, Buffer.from('print("bye")'), {
+        create: false,
+        overwrite: true,
+      });
+
+      // ASSERT
+      expect(stat.type).toBe(vscode.FileType.File);
+      expect(Buffer.from(content).toString()).toBe('print("hello")');
+      expect(device.readFile('/flash/main.py')?.toString()).toBe('print("bye")');
+    });
+
+    test('should not find missing files in the listing', async () => {
+      // ACT
+      const error = await M5FileSystemProvider.stat(deviceUri('/flash/missing.py')).catch((e) => e);
+
+      // ASSERT
+      expect(error.code).toBe('FileNotFound');
+    });
+  });
+});
+
+describe('WebREPL device', () => {
+  const PASSWORD = 'secret';
+  let device: M5Simulator;
+  let server: WebReplServer;
+
+  const connectWebRepl = (password = PASSWORD) =>
+    new Promise<void>((resolve, reject) => {
+      SerialManager.connectWebRepl(server.id, password, (err) => (err ? reject(err) : resolve()));
+    });
+
+  beforeEach(async () => {
+    device = new M5Simulator({ protocol: 'rawRepl', firmware: 'v1.19.1', board: 'ESP32 module with ESP32' });
+    device.writeFile('/flash/main.py', 'print("hello")');
+    device.writeFile('/flash/res/logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    server = await WebReplServer.start(device, PASSWORD);
+  });
+
+  afterEach(async () => {
+    SerialManager.disconnect(server.id);
+    await server.close();
+  });
+
+  test('should log in and run code', async () => {
+    // ACT
+    await connectWebRepl();
+    const info = await SerialManager.getInfo(server.id);
+    const run = await SerialManager.exec(server.id, 'import machine');
+
+    // ASSERT
+    expect(SerialManager.transport(server.id)).toBe('webRepl');
+    expect(SerialManager.state(server.id)).toBe('connected');
+    expect(info.firmware).toBe('MicroPython v1.19.1');
+    expect(run.toString()).toBe('done');
+  });
+
+  test('should report a wrong password', async () => {
+    // ACT
+    const connected = connectWebRepl('wrong');
+
+    // ASSERT
+    await expect(connected).rejects.toThrow('check the WebREPL password');
+  });
+
+  test('should report an unreachable device instead of reconnecting', async () => {
+    // ARRANGE
+    const id = server.id;
+    await server.close();
+    const states: ConnectionState[] = [];
+    const listener = SerialManager.onStateChange((com, state) => com === id && states.push(state));
+
+    // ACT
+    const connected = new Promise<void>((resolve, reject) => {
+      SerialManager.connectWebRepl(id, PASSWORD, (err) => (err ? reject(err) : resolve()));
+    });
+
+    // ASSERT
+    await expect(connected).rejects.toThrow(`Connecting to ${id} failed`);
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    listener.dispose();
+    SerialManager.disconnect(id);
+    server = await WebReplServer.start(device, PASSWORD);
+    expect(states).toStrictEqual(['disconnected']);
+  });
+
+  test('should build the device tree', async () => {
+    // ARRANGE
+    await connectWebRepl();
+    const provider = new M5TreeDataProvider([server.id]);
+    const comNode = new M5FSResource(
+      server.id,
+      '',
+      '',
+      server.id,
+      COM,
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+
+    // ACT
+    const children = await provider._getChildrenCom(comNode);
+
+    // ASSERT
+    expect(children.map((child) => [child.label, child.contextValue])).toStrictEqual([
+      ['res', FOLDER],
+      ['main.py', FILE],
+    ]);
+  });
+
+  test('should transfer files with the WebREPL file requests', async () => {
+    // ARRANGE
+    await connectWebRepl();
+    const content = Buffer.from(Array.from({ length: 3000 }, (_, i) => i % 251));
+
+    // ACT
+    await SerialManager.bulkDownload(server.id, '/flash/data.bin', content, true, () => {});
+    const read = await SerialManager.readFile(server.id, '/flash/data.bin');
+    await SerialManager.removeFile(server.id, '/flash/main.py');
+
+    // ASSERT
+    expect(device.readFile('/flash/data.bin')).toStrictEqual(content);
+    expect(read).toStrictEqual(content);
+    expect(device.readFile('/flash/main.py')).toBe(undefined);
+  });
+
+  test('should reject reading missing files', async () => {
+    // ARRANGE
+    await connectWebRepl();
+
+    // ACT
+    const read = SerialManager.readFile(server.id, '/flash/missing.py');
+
+    // ASSERT
+    await expect(read).rejects.toThrow('Reading /flash/missing.py failed (WebREPL status 1).');
+  });
+
+  test('should reconnect when the device drops the connection', async () => {
+    // ARRANGE
+    await connectWebRepl();
+    const lost = waitForState(server.id, 'disconnected');
+    const back = waitForState(server.id, 'connected');
+
+    // ACT
+    server.dropClients();
+    await lost;
+    await back;
+    const online = await SerialManager.ping(server.id);
+
+    // ASSERT
+    expect(online).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import * as vscode from 'vscode';
+import SerialConnection from '../serial/SerialConnection';
+import ConnectionSettings from './ConnectionSettings';
+import ProjectConfig from './ProjectConfig';
+
+const mockConfiguration = (values: { [key: string]: unknown }) => {
+  const config = {
+    get: jest.fn((key: string, defaultValue?: unknown) => (key in values ? values[key] : defaultValue)),
+    update: jest.fn(() => Promise.resolve()),
+  };
+  // @ts-ignore
+  jest.spyOn(vscode.workspace, 'getConfiguration').mockReturnValue(config);
+  return config;
+};
+
+describe('ConnectionSettings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('get', () => {
+    test('should default to 115200 8N1 without touching control lines', () => {
+      // ARRANGE
+      mockConfiguration({});
+
+      // ACT
+      const settings = ConnectionSettings.get({ path: '/dev/device' });
+
+      // ASSERT
+      expect(settings).toStrictEqual({
+        baudRate: 115200,
+        dataBits: 8,
+        parity: 'none',
+        rtscts: false,
+        dtr: undefined,
+        rts: undefined,
+        pipelineDepth: 1,
+        transport: 'auto',
+      });
+    });
+
+    test('should override extension settings by port path then serial number', () => {
+      // ARRANGE
+      mockConfiguration({
+        baudRate: 921600,
+        dtr: 'low',
+        overrides: {
+          '/dev/device': { baudRate: 460800, parity: 'even' },
+          ABC123: { baudRate: 1500000, rts: 'high', transport: 'rawRepl' },
+        },
+      });
+
+      // ACT
+      const settings = ConnectionSettings.get({ path: '/dev/device', serialNumber: 'ABC123' });
+
+      // ASSERT
+      expect(settings).toStrictEqual({
+        baudRate: 1500000,
+        dataBits: 8,
+        parity: 'even',
+        rtscts: false,
+        dtr: false,
+        rts: true,
+        pipelineDepth: 1,
+        transport: 'rawRepl',
+      });
+    });
+    test('should apply the project settings to the project device only', () => {
+      // ARRANGE
+      mockConfiguration({ baudRate: 921600, overrides: { ABC123: { parity: 'odd' } } });
+      const project = {
+        device: { serialNumber: 'ABC123' },
+        serial: { baudRate: 460800, parity: 'even' as const },
+      };
+      jest.spyOn(ProjectConfig, 'get').mockReturnValueOnce(project).mockReturnValueOnce(project);
+
+      // ACT
+      const target = ConnectionSettings.get({ path: '/dev/device', serialNumber: 'ABC123' });
+      const other = ConnectionSettings.get({ path: '/dev/other' });
+
+      // ASSERT
+      expect(target.baudRate).toBe(460800);
+      expect(target.parity).toBe('odd');
+      expect(other.baudRate).toBe(921600);
+    });
+  });
+
+  describe('edit', () => {
+    test('should save the setting of a device in overrides', async () => {
+      // ARRANGE
+      const config = mockConfiguration({ overrides: { ABC123: { parity: 'odd' } } });
+      jest.spyOn(SerialConnection, 'getCOMs').mockResolvedValue([
+        {
+          path: '/dev/device',
+          manufacturer: undefined,
+          serialNumber: 'ABC123',
+          pnpId: undefined,
+          locationId: undefined,
+          productId: undefined,
+          vendorId: undefined,
+        },
+      ]);
+      jest
+        .spyOn(vscode.window, 'showQuickPick')
+        // @ts-ignore
+        .mockImplementationOnce((items: any[]) => Promise.resolve(items[1]))
+        // @ts-ignore
+        .mockImplementationOnce((items: any[]) => Promise.resolve(items[0]))
+        // @ts-ignore
+        .mockResolvedValueOnce('921600');
+
+      // ACT
+      await ConnectionSettings._edit('/dev/device');
+
+      // ASSERT
+      expect(config.update).toHaveBeenCalledWith(
+        'overrides',
+        { ABC123: { parity: 'odd', baudRate: 921600 } },
+        vscode.ConfigurationTarget.Global
+      );
+    });
+
+    test('should save the setting of all devices in extension settings', async () => {
+      // ARRANGE
+      const config = mockConfiguration({});
+      jest.spyOn(SerialConnection, 'getCOMs').mockResolvedValue([]);
+      jest
+        .spyOn(vscode.window, 'showQuickPick')
+        // @ts-ignore
+        .mockImplementationOnce((items: any[]) => Promise.resolve(items[items.length - 1]))
+        // @ts-ignore
+        .mockImplementationOnce((items: any[]) => Promise.resolve(items[4]))
+        // @ts-ignore
+        .mockResolvedValueOnce('low');
+
+      // ACT
+      await ConnectionSettings._edit('/dev/device');
+
+      // ASSERT
+      expect(config.update).toHaveBeenCalledWith('dtr', 'low', vscode.ConfigurationTarget.Global);
+    });
+  });
+});
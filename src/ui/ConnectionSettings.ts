@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import SerialConnection from '../serial/SerialConnection';
+import { defaultOpts, SerialSettings } from '../serial/types';
+import ProjectConfig from './ProjectConfig';
+
+export const CONFIGURATION_SECTION = 'm5stack.serial';
+
+type Level = 'unchanged' | 'high' | 'low';
+
+// Settings as stored in the configuration
+export type ConfiguredSettings = {
+  baudRate?: number;
+  dataBits?: SerialSettings['dataBits'];
+  parity?: SerialSettings['parity'];
+  rtscts?: boolean;
+  dtr?: Level;
+  rts?: Level;
+  pipelineDepth?: number;
+  transport?: SerialSettings['transport'];
+};
+
+// Keyed by port path or USB serial number
+type Overrides = {
+  [key: string]: ConfiguredSettings;
+};
+
+type PortIdentity = {
+  path: string;
+  serialNumber?: string;
+};
+
+const LEVELS: Level[] = ['unchanged', 'high', 'low'];
+
+const FIELDS: { key: keyof ConfiguredSettings; label: string; values: string[] }[] = [
+  {
+    key: 'baudRate',
+    label: 'Baud rate',
+    values: ['115200', '230400', '460800', '921600', '1500000', '9600'],
+  },
+  { key: 'dataBits', label: 'Data bits', values: ['8', '7', '6', '5'] },
+  { key: 'parity', label: 'Parity', values: ['none', 'even', 'odd', 'mark', 'space'] },
+  { key: 'rtscts', label: 'RTS/CTS flow control', values: ['false', 'true'] },
+  { key: 'dtr', label: 'DTR on open', values: LEVELS },
+  { key: 'rts', label: 'RTS on open', values: LEVELS },
+  { key: 'pipelineDepth', label: 'Upload pipeline depth', values: ['1', '2', '3', '4'] },
+  { key: 'transport', label: 'Firmware protocol', values: ['auto', 'uiflow', 'rawRepl'] },
+];
+
+const OTHER_BAUD_RATE = 'Other…';
+
+const toLevel = (level: Level | undefined): boolean | undefined =>
+  level === 'high' ? true : level === 'low' ? false : undefined;
+
+const parseValue = (key: keyof ConfiguredSettings, value: string) => {
+  switch (key) {
+    case 'baudRate':
+    case 'dataBits':
+    case 'pipelineDepth':
+      return parseInt(value, 10);
+    case 'rtscts':
+      return value === 'true';
+    default:
+      return value;
+  }
+};
+
+class ConnectionSettings {
+  /**
+   * Resolve the serial settings of a port: extension settings overridden by the ones of
+   * .m5stack.json for the project device, then the ones of its path and of its USB serial number
+   */
+  get(port: PortIdentity): SerialSettings {
+    const configured = this._configured(port);
+    return {
+      baudRate: configured.baudRate ?? defaultOpts.baudRate,
+      dataBits: configured.dataBits ?? defaultOpts.dataBits,
+      parity: configured.parity ?? defaultOpts.parity,
+      rtscts: configured.rtscts ?? defaultOpts.rtscts,
+      dtr: toLevel(configured.dtr),
+      rts: toLevel(configured.rts),
+      pipelineDepth: configured.pipelineDepth ?? defaultOpts.pipelineDepth,
+      transport: configured.transport ?? defaultOpts.transport,
+    };
+  }
+
+  _configured(port: PortIdentity): ConfiguredSettings {
+    const config = vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
+    const overrides = config.get<Overrides>('overrides', {});
+    const global: ConfiguredSettings = {};
+    FIELDS.forEach(({ key }) => {
+      const value = config.get(key);
+      if (value !== undefined) {
+        Object.assign(global, { [key]: value });
+      }
+    });
+    const project = ProjectConfig.get();
+    // without a device, the project settings apply to any device
+    const projectSettings = !project.device || ProjectConfig.isTarget(port, project) ? project.serial : {};
+    return {
+      ...global,
+      ...projectSettings,
+      ...overrides[port.path],
+      ...(port.serialNumber ? overrides[port.serialNumber] : {}),
+    };
+  }
+
+  edit(com: string) {
+    this._edit(com);
+  }
+
+  async _edit(com: string) {
+    const info = (await SerialConnection.getCOMs()).find((port) => port.path === com);
+    const scopes = [
+      { label: `Port ${com}`, description: 'Only when connecting to this port', key: com },
+      ...(info?.serialNumber
+        ? [
+            {
+              label: `Device ${info.serialNumber}`,
+              description: 'This USB device on any port',
+              key: info.serialNumber,
+            },
+          ]
+        : []),
+      { label: 'All devices', description: 'Default settings', key: '' },
+    ];
+    const scope = await vscode.window.showQuickPick(scopes, { placeHolder: 'Apply connection settings to' });
+    if (!scope) {
+      return;
+    }
+
+    const current = this._configured({ path: com, serialNumber: info?.serialNumber });
+    const field = await vscode.window.showQuickPick(
+      FIELDS.map((f) => ({ label: f.label, description: `${current[f.key] ?? ''}`, field: f })),
+      { placeHolder: 'Select the setting to change' }
+    );
+    if (!field) {
+      return;
+    }
+
+    let value = await vscode.window.showQuickPick(
+      field.field.key === 'baudRate' ? [...field.field.values, OTHER_BAUD_RATE] : field.field.values,
+      { placeHolder: field.label }
+    );
+    if (value === OTHER_BAUD_RATE) {
+      value = await vscode.window.showInputBox({
+        placeHolder: 'Baud rate',
+        validateInput: (input) => (/^\d+$/.test(input) ? undefined : 'Baud rate must be a number'),
+      });
+    }
+    if (value === undefined) {
+      return;
+    }
+
+    await this._save(scope.key, field.field.key, parseValue(field.field.key, value));
+    vscode.window.showInformationMessage(`${field.label} saved, reconnect ${com} to apply it.`);
+  }
+
+  async _save(scopeKey: string, key: keyof ConfiguredSettings, value: string | number | boolean) {
+    const config = vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
+    if (!scopeKey) {
+      await config.update(key, value, vscode.ConfigurationTarget.Global);
+      return;
+    }
+    const overrides = { ...config.get<Overrides>('overrides', {}) };
+    overrides[scopeKey] = { ...overrides[scopeKey], [key]: value };
+    await config.update('overrides', overrides, vscode.ConfigurationTarget.Global);
+  }
+}
+
+export default new ConnectionSettings();
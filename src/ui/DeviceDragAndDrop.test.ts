@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
+import DeviceDragAndDrop from './DeviceDragAndDrop';
+import PortList from './PortList';
+import { COM, FILE, FOLDER, M5FSResource } from './TreeDataProvider';
+import { mockProgress, NEVER_CANCELLED, node } from './__fixtures__/deviceTree';
+
+jest.mock('../serial/SerialManager', () => ({
+  bulkDownload: jest.fn(() => Promise.resolve(Buffer.from('done'))),
+  mkdir: jest.fn(),
+  stat: jest.fn(),
+}));
+jest.mock('./PortList', () => ({
+  _deviceUri: (port: string, filepath: string) => ({ path: `${port}${filepath}` }),
+  _fits: jest.fn(() => Promise.resolve(true)),
+  _move: jest.fn(),
+  refreshTree: jest.fn(),
+}));
+
+describe('DeviceDragAndDrop', () => {
+  let directory: string;
+  let uploads: Map<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'm5stack-drop-'));
+    fs.mkdirSync(path.join(directory, 'lib'));
+    fs.writeFileSync(path.join(directory, 'main.py'), 'print("hello")');
+    fs.writeFileSync(path.join(directory, 'lib', 'util.py'), 'x = 1');
+    uploads = new Map();
+    // @ts-ignore
+    jest.spyOn(vscode.Uri, 'parse').mockImplementation((value: string) => ({
+      scheme: 'file',
+      fsPath: value.replace(/^file:\/\//, ''),
+    }));
+    mockProgress();
+    jest.spyOn(SerialManager, 'stat').mockResolvedValue(undefined);
+    jest.spyOn(SerialManager, 'bulkDownload').mockImplementation((com, filename, content) => {
+      uploads.set(filename, content.toString());
+      return Promise.resolve(Buffer.from('done'));
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const dropLocal = (target: M5FSResource, ...names: string[]) => {
+    const dataTransfer = new vscode.DataTransfer();
+    const uriList = names.map((name) => `file://${path.join(directory, name)}`).join('\r\n');
+    dataTransfer.set('text/uri-list', new vscode.DataTransferItem(uriList));
+    return DeviceDragAndDrop.handleDrop(target, dataTransfer);
+  };
+
+  test('should upload dropped files and folders into the target folder', async () => {
+    // ARRANGE
+    const spy = jest.spyOn(vscode.window, 'showInformationMessage');
+
+    // ACT
+    await dropLocal(node('/dev/device', '', COM), 'main.py', 'lib');
+
+    // ASSERT
+    expect(uploads).toStrictEqual(
+      new Map([
+        ['/flash/main.py', 'print("hello")'],
+        ['/flash/lib/util.py', 'x = 1'],
+      ])
+    );
+    expect(SerialManager.mkdir).toHaveBeenCalledWith('/dev/device', '/flash/lib', {
+      token: NEVER_CANCELLED,
+    });
+    expect(spy).toHaveBeenCalledWith('Uploaded 2 files to /dev/device.');
+    expect(PortList.refreshTree).toHaveBeenCalled();
+  });
+
+  test('should skip existing files when asked to', async () => {
+    // ARRANGE
+    jest
+      .spyOn(SerialManager, 'stat')
+      .mockImplementation((com, filepath) =>
+        Promise.resolve(
+          filepath === '/flash/lib/main.py' ? { name: 'main.py', type: 'file', size: 1, mtime: 0 } : undefined
+        )
+      );
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue('Skip');
+
+    // ACT
+    await dropLocal(node('util.py', '/flash/lib', FILE), 'main.py', 'lib/util.py');
+
+    // ASSERT
+    expect(Array.from(uploads.keys())).toStrictEqual(['/flash/lib/util.py']);
+  });
+
+  test('should not upload files the user declined for lack of space', async () => {
+    // ARRANGE
+    // main.py is checked first
+    jest.spyOn(PortList, '_fits').mockImplementationOnce(() => Promise.resolve(false));
+    const spy = jest.spyOn(vscode.window, 'showInformationMessage');
+
+    // ACT
+    await dropLocal(node('/dev/device', '', COM), 'main.py', 'lib');
+
+    // ASSERT
+    expect(Array.from(uploads.keys())).toStrictEqual(['/flash/lib/util.py']);
+    expect(spy).toHaveBeenCalledWith('Uploaded 1 file to /dev/device.');
+  });
+
+  test('should report a failure to check the targets', async () => {
+    // ARRANGE
+    jest
+      .spyOn(SerialManager, 'stat')
+      .mockImplementation(() => Promise.reject(new Error('Connection to /dev/device lost.')));
+    const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+    // ACT
+    await dropLocal(node('/dev/device', '', COM), 'main.py');
+
+    // ASSERT
+    expect(spy).toHaveBeenCalledWith('Uploading failed: Connection to /dev/device lost.');
+    expect(uploads.size).toBe(0);
+  });
+
+  test('should move tree items dropped on another folder', async () => {
+    // ARRANGE
+    const dataTransfer = new vscode.DataTransfer();
+    DeviceDragAndDrop.handleDrag(
+      [node('test.py', '/flash', FILE), node('lib', '/flash', FOLDER), node('/dev/device', '', COM)],
+      dataTransfer
+    );
+    const spy = jest.spyOn(vscode.window, 'showInformationMessage');
+
+    // ACT
+    await DeviceDragAndDrop.handleDrop(node('lib', '/flash', FOLDER), dataTransfer);
+
+    // ASSERT
+    // @ts-ignore
+    expect((PortList._move as jest.Mock).mock.calls).toEqual([
+      ['/dev/device', '/flash/test.py', '/flash/lib/test.py', false],
+    ]);
+    expect(SerialManager.bulkDownload).not.toHaveBeenCalled();
+    expect(PortList._fits).not.toHaveBeenCalled();
+    expect(spy).toHaveBeenCalledWith('Moved 1 item to /dev/device.');
+  });
+});
@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import Backend from '../adapters/Backend';
+import M5FileSystemProvider from '../providers/M5FileSystemProvider';
+import { describeFailures, errorMessage, Failure } from '../utils/errors';
+import { plural } from '../utils/text';
+import { getUploadOptions } from '../utils/vscode';
+import PortList from './PortList';
+import { COM, FILE, M5FSResource } from './TreeDataProvider';
+
+// nodes dragged inside the device tree
+export const TREE_MIME_TYPE = 'application/vnd.code.tree.m5stack';
+// files dragged from the explorer or the OS
+const URI_LIST_MIME_TYPE = 'text/uri-list';
+
+const REPLACE = 'Replace';
+const REPLACE_ALL = 'Replace All';
+const SKIP = 'Skip';
+const SKIP_EXISTING = 'Skip Existing';
+
+type TransferKind = 'move' | 'upload';
+
+// moves take folders as a whole, uploads the files of the dropped folders
+const VERBS: { [kind in TransferKind]: { progress: string; done: string; noun: string } } = {
+  move: { progress: 'Moving', done: 'Moved', noun: 'item' },
+  upload: { progress: 'Uploading', done: 'Uploaded', noun: 'file' },
+};
+
+type DraggedNode = {
+  com: string;
+  filepath: string;
+  label: string;
+};
+
+type Transfer = {
+  // local path of an uploaded file, undefined for a move on the device
+  local?: string;
+  from?: string;
+  // path on the device
+  to: string;
+  name: string;
+};
+
+/**
+ * Drops local files on a device or a folder of the tree to upload them, and nodes of the tree
+ * on another folder to move them on the device
+ */
+class DeviceDragAndDrop implements vscode.TreeDragAndDropController<M5FSResource> {
+  readonly dragMimeTypes = [TREE_MIME_TYPE];
+  readonly dropMimeTypes = [TREE_MIME_TYPE, URI_LIST_MIME_TYPE];
+
+  handleDrag(source: readonly M5FSResource[], dataTransfer: vscode.DataTransfer) {
+    const nodes: DraggedNode[] = source
+      .filter(({ contextValue }) => contextValue !== COM)
+      .map(({ com, parent, label }) => ({ com, filepath: `${parent}/${label}`, label }));
+    dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(nodes));
+  }
+
+  async handleDrop(target: M5FSResource | undefined, dataTransfer: vscode.DataTransfer) {
+    if (!target) {
+      return;
+    }
+    const port = target.contextValue === COM ? target.label : target.com;
+    // files dropped on a file go to its folder
+    const dirname =
+      target.contextValue === COM
+        ? '/flash'
+        : target.contextValue === FILE
+        ? target.parent
+        : `${target.parent}/${target.label}`;
+
+    const nodes: DraggedNode[] | undefined = dataTransfer.get(TREE_MIME_TYPE)?.value;
+    if (nodes?.length) {
+      await this._move(port, dirname, nodes);
+      return;
+    }
+    const uris = await dataTransfer.get(URI_LIST_MIME_TYPE)?.asString();
+    if (uris) {
+      await this._upload(port, dirname, this._parseUriList(uris));
+    }
+  }
+
+  _parseUriList(uriList: string): string[] {
+    return uriList
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'))
+      .map((line) => vscode.Uri.parse(line))
+      .filter((uri) => uri.scheme === 'file')
+      .map((uri) => uri.fsPath);
+  }
+
+  async _move(port: string, dirname: string, nodes: DraggedNode[]) {
+    if (nodes.some(({ com }) => com !== port)) {
+      vscode.window.showErrorMessage(
+        'Files cannot be moved between devices, download and upload them instead.'
+      );
+      return;
+    }
+    const transfers: Transfer[] = nodes
+      // a folder cannot go into itself
+      .filter(({ filepath }) => dirname !== filepath && !dirname.startsWith(`${filepath}/`))
+      .map(({ filepath, label }) => ({ from: filepath, to: `${dirname}/${label}`, name: label }))
+      .filter(({ from, to }) => from !== to);
+    await this._transfer(port, dirname, transfers, 'move');
+  }
+
+  async _upload(port: string, dirname: string, locals: string[]) {
+    const transfers: Transfer[] = [];
+    try {
+      for (const local of locals) {
+        transfers.push(...(await this._listLocal(local, `${dirname}/${path.basename(local)}`)));
+      }
+    } catch (e) {
+      vscode.window.showErrorMessage(`Upload failed: ${errorMessage(e)}`);
+      return;
+    }
+    await this._transfer(
+      port,
+      dirname,
+      // files of dropped folders are named by their path in the target folder
+      transfers.map((transfer) => ({ ...transfer, name: transfer.to.slice(dirname.length + 1) })),
+      'upload'
+    );
+  }
+
+  /**
+   * Files of a local file or folder with their path on the device
+   */
+  async _listLocal(local: string, remote: string): Promise<Transfer[]> {
+    const stat = await fs.promises.stat(local);
+    if (!stat.isDirectory()) {
+      return [{ local, to: remote, name: path.basename(local) }];
+    }
+    const transfers: Transfer[] = [];
+    for (const name of await fs.promises.readdir(local)) {
+      transfers.push(...(await this._listLocal(path.join(local, name), `${remote}/${name}`)));
+    }
+    return transfers;
+  }
+
+  async _transfer(port: string, dirname: string, transfers: Transfer[], kind: TransferKind) {
+    const backend = Backend.get(port);
+    let existing: Set<string>;
+    try {
+      existing = await this._findExisting(port, transfers);
+    } catch (e) {
+      vscode.window.showErrorMessage(`${VERBS[kind].progress} failed: ${errorMessage(e)}`);
+      return;
+    }
+    const confirmed = await this._resolveConflicts(dirname, transfers, existing);
+    if (!confirmed?.length) {
+      return;
+    }
+
+    const failures: Failure[] = [];
+    let done = 0;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        cancellable: true,
+        title: `${VERBS[kind].progress} to ${port}:${dirname}`,
+      },
+      async (progress, token) => {
+        for (const transfer of confirmed) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({ message: transfer.name });
+          try {
+            if (transfer.from) {
+              await PortList._move(port, transfer.from, transfer.to, existing.has(transfer.to));
+            } else {
+              const content = await fs.promises.readFile(transfer.local as string);
+              if (!(await PortList._fits(port, transfer.to, content))) {
+                progress.report({ increment: 100 / confirmed.length });
+                continue;
+              }
+              await backend.mkdir(port, transfer.to.split('/').slice(0, -1).join('/'), { token });
+              await backend.bulkDownload(
+                port,
+                transfer.to,
+                content,
+                true,
+                () => {},
+                token,
+                getUploadOptions()
+              );
+              M5FileSystemProvider.removeCache(PortList._deviceUri(port, transfer.to).path);
+            }
+            done++;
+          } catch (e) {
+            failures.push({ name: transfer.name, error: e });
+          }
+          progress.report({ increment: 100 / confirmed.length });
+        }
+      }
+    );
+    PortList.refreshTree();
+    this._report(kind, port, done, failures);
+  }
+
+  /**
+   * Targets already on the device
+   */
+  async _findExisting(port: string, transfers: Transfer[]): Promise<Set<string>> {
+    const backend = Backend.get(port);
+    const existing = new Set<string>();
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Checking ${plural(transfers.length, 'target')} on ${port}`,
+      },
+      async (progress) => {
+        for (const { to, name } of transfers) {
+          progress.report({ message: name });
+          if (await backend.stat(port, to)) {
+            existing.add(to);
+          }
+          progress.report({ increment: 100 / transfers.length });
+        }
+      }
+    );
+    return existing;
+  }
+
+  /**
+   * Transfers to go on with once the user chose to replace or skip the existing targets,
+   * undefined when cancelled
+   */
+  async _resolveConflicts(
+    dirname: string,
+    transfers: Transfer[],
+    existing: Set<string>
+  ): Promise<Transfer[] | undefined> {
+    if (!existing.size) {
+      return transfers;
+    }
+    const conflicts = Array.from(existing).map((to) => to.slice(dirname.length + 1));
+    const action =
+      conflicts.length === 1
+        ? await vscode.window.showWarningMessage(
+            `'${conflicts[0]}' already exists in ${dirname}, replace it?`,
+            { modal: true },
+            REPLACE,
+            SKIP
+          )
+        : await vscode.window.showWarningMessage(
+            `${conflicts.length} items already exist in ${dirname}.`,
+            { modal: true, detail: conflicts.join('\n') },
+            REPLACE_ALL,
+            SKIP_EXISTING
+          );
+    switch (action) {
+      case REPLACE:
+      case REPLACE_ALL:
+        return transfers;
+      case SKIP:
+      case SKIP_EXISTING:
+        return transfers.filter(({ to }) => !existing.has(to));
+      default:
+        return undefined;
+    }
+  }
+
+  _report(kind: TransferKind, port: string, done: number, failures: Failure[]) {
+    const summary = `${VERBS[kind].done} ${plural(done, VERBS[kind].noun)} to ${port}`;
+    if (!failures.length) {
+      vscode.window.showInformationMessage(`${summary}.`);
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `${summary}, failed: ${describeFailures(VERBS[kind].progress.toLowerCase(), failures)}.`
+    );
+  }
+}
+
+export default new DeviceDragAndDrop();
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
+import DeviceFolders from './DeviceFolders';
+import PortList from './PortList';
+import { COM, FOLDER } from './TreeDataProvider';
+import { mockDevice, mockProgress, node } from './__fixtures__/deviceTree';
+
+jest.mock('../serial/SerialManager', () => ({
+  listDir: jest.fn(),
+  mkdir: jest.fn(),
+  readFile: jest.fn(),
+  removeFile: jest.fn(),
+  rmdir: jest.fn(),
+  stat: jest.fn(),
+}));
+jest.mock('./PortList', () => ({
+  _deviceUri: (port: string, filepath: string) => ({ path: `${port}${filepath}` }),
+  refreshTree: jest.fn(),
+}));
+
+const DEVICE = new Map([
+  ['/flash/lib/a.py', Buffer.from('a = 1')],
+  ['/flash/lib/sub/b.py', Buffer.from('b = 2')],
+]);
+
+describe('DeviceFolders', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProgress();
+    mockDevice(DEVICE);
+  });
+
+  describe('create', () => {
+    test('should create the folder and its parents', async () => {
+      // ARRANGE
+      jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('lib/sensors/');
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(undefined);
+
+      // ACT
+      await DeviceFolders._create(node('/dev/device', '', COM));
+
+      // ASSERT
+      expect(SerialManager.mkdir).toHaveBeenCalledWith('/dev/device', '/flash/lib/sensors');
+      expect(PortList.refreshTree).toHaveBeenCalled();
+    });
+
+    test('should not create an existing folder', async () => {
+      // ARRANGE
+      jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('sub');
+      jest
+        .spyOn(SerialManager, 'stat')
+        .mockResolvedValue({ name: 'sub', type: 'directory', size: 0, mtime: 0 });
+      const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      await DeviceFolders._create(node('lib', '/flash', FOLDER));
+
+      // ASSERT
+      expect(spy).toHaveBeenCalledWith(`'sub' already exists in /flash/lib.`);
+      expect(SerialManager.mkdir).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    test('should delete the content of the folder then the folder once confirmed', async () => {
+      // ARRANGE
+      let detail: string | undefined;
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showWarningMessage').mockImplementation((message, options: any) => {
+        detail = options.detail;
+        return Promise.resolve('Delete');
+      });
+      const removed: string[] = [];
+      jest.spyOn(SerialManager, 'removeFile').mockImplementation((com, filepath) => {
+        removed.push(filepath);
+        return Promise.resolve(Buffer.from('done'));
+      });
+      jest.spyOn(SerialManager, 'rmdir').mockImplementation((com, dirname) => {
+        removed.push(`${dirname}/`);
+        return Promise.resolve();
+      });
+      const spy = jest.spyOn(vscode.window, 'showInformationMessage');
+
+      // ACT
+      await DeviceFolders._remove(node('lib', '/flash', FOLDER));
+
+      // ASSERT
+      expect(detail).toBe('lib/a.py\nlib/sub/b.py\nlib/sub/\nlib/');
+      expect(removed).toStrictEqual([
+        '/flash/lib/a.py',
+        '/flash/lib/sub/b.py',
+        '/flash/lib/sub/',
+        '/flash/lib/',
+      ]);
+      expect(spy).toHaveBeenCalledWith(`Deleted folder 'lib'.`);
+      expect(PortList.refreshTree).toHaveBeenCalled();
+    });
+
+    test('should not delete anything without confirmation', async () => {
+      // ARRANGE
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue(undefined);
+
+      // ACT
+      await DeviceFolders._remove(node('lib', '/flash', FOLDER));
+
+      // ASSERT
+      expect(SerialManager.removeFile).not.toHaveBeenCalled();
+      expect(SerialManager.rmdir).not.toHaveBeenCalled();
+    });
+
+    test('should report the entries that could not be deleted', async () => {
+      // ARRANGE
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue('Delete');
+      jest
+        .spyOn(SerialManager, 'removeFile')
+        .mockImplementation((com, filepath) =>
+          filepath === '/flash/lib/a.py'
+            ? Promise.reject(new Error('OSError: [Errno 13] EACCES'))
+            : Promise.resolve(Buffer.from('done'))
+        );
+      jest
+        .spyOn(SerialManager, 'rmdir')
+        .mockImplementation((com, dirname) =>
+          dirname === '/flash/lib'
+            ? Promise.reject(new Error('OSError: [Errno 39] ENOTEMPTY'))
+            : Promise.resolve()
+        );
+      const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      await DeviceFolders._remove(node('lib', '/flash', FOLDER));
+
+      // ASSERT
+      expect(spy).toHaveBeenCalledWith(
+        `Deleted 2 of 4 entries of folder 'lib', failed: 'lib/a.py' (OSError: [Errno 13] EACCES), 'lib' (OSError: [Errno 39] ENOTEMPTY).`
+      );
+    });
+  });
+});
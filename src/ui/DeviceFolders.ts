@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import Backend from '../adapters/Backend';
+import M5FileSystemProvider from '../providers/M5FileSystemProvider';
+import { describeFailures, errorMessage, Failure } from '../utils/errors';
+import { listLines, plural } from '../utils/text';
+import PortList from './PortList';
+import { COM, M5FSResource } from './TreeDataProvider';
+
+export const DELETE = 'Delete';
+
+export type DeviceEntry = {
+  com: string;
+  // path on the device
+  filepath: string;
+  // path relative to the parent of the deleted folder
+  relative: string;
+  isDirectory: boolean;
+};
+
+/**
+ * Creates device folders and deletes them with their content
+ */
+class DeviceFolders {
+  create(ev: M5FSResource) {
+    this._create(ev);
+  }
+
+  async _create(ev: M5FSResource) {
+    const port = ev.contextValue === COM ? ev.label : ev.com;
+    const parent = ev.contextValue === COM ? '/flash' : `${ev.parent}/${ev.label}`;
+    const value = await vscode.window.showInputBox({
+      placeHolder: 'Folder Name',
+      prompt: `New folder in ${parent}, like lib or lib/sensors`,
+      validateInput: (input) =>
+        input.split('/').some((name) => name === '.' || name === '..')
+          ? 'Folder names cannot be . or ..'
+          : undefined,
+    });
+    const name = value?.trim().replace(/^\/+|\/+$/g, '');
+    if (!name) {
+      return;
+    }
+    const dirname = `${parent}/${name}`;
+    const backend = Backend.get(port);
+    try {
+      if (await backend.stat(port, dirname)) {
+        vscode.window.showErrorMessage(`'${name}' already exists in ${parent}.`);
+        return;
+      }
+      await backend.mkdir(port, dirname);
+    } catch (e) {
+      vscode.window.showErrorMessage(`Creating folder '${name}' failed: ${errorMessage(e)}`);
+      return;
+    }
+    vscode.window.showInformationMessage(`Folder '${name}' created.`);
+    PortList.refreshTree();
+  }
+
+  remove(ev: M5FSResource) {
+    this._remove(ev);
+  }
+
+  async _remove(ev: M5FSResource) {
+    const dirname = `${ev.parent}/${ev.label}`;
+    let entries: DeviceEntry[];
+    try {
+      entries = await this._walk(ev.com, dirname, ev.label);
+    } catch (e) {
+      vscode.window.showErrorMessage(`Listing '${ev.label}' failed: ${errorMessage(e)}`);
+      return;
+    }
+    entries.push({ com: ev.com, filepath: dirname, relative: ev.label, isDirectory: true });
+
+    const files = entries.filter(({ isDirectory }) => !isDirectory).length;
+    const folders = entries.length - files - 1;
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete folder '${ev.label}' with ${plural(files, 'file')} and ${plural(folders, 'subfolder')} from ${
+        ev.com
+      }?`,
+      {
+        modal: true,
+        detail: listLines(
+          entries.map(({ relative, isDirectory }) => (isDirectory ? `${relative}/` : relative))
+        ),
+      },
+      DELETE
+    );
+    if (confirm !== DELETE) {
+      return;
+    }
+
+    const { deleted, failures } = await this._delete(`Deleting '${ev.label}'`, entries);
+    M5FileSystemProvider.removeCache(PortList._deviceUri(ev.com, dirname).path);
+    PortList.refreshTree();
+    this._report(`folder '${ev.label}'`, deleted, entries.length, failures);
+  }
+
+  /**
+   * Delete entries in order under a single progress notification, going on after a failure
+   */
+  async _delete(title: string, entries: DeviceEntry[]): Promise<{ deleted: number; failures: Failure[] }> {
+    const failures: Failure[] = [];
+    let deleted = 0;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        cancellable: true,
+        title,
+      },
+      async (progress, token) => {
+        for (const entry of entries) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({ message: entry.relative });
+          try {
+            const backend = Backend.get(entry.com);
+            if (entry.isDirectory) {
+              await backend.rmdir(entry.com, entry.filepath, { token });
+            } else {
+              await backend.removeFile(entry.com, entry.filepath, { token });
+            }
+            deleted++;
+          } catch (e) {
+            failures.push({ name: entry.relative, error: e });
+          }
+          progress.report({ increment: 100 / entries.length });
+        }
+      }
+    );
+    return { deleted, failures };
+  }
+
+  /**
+   * Entries of a device folder and its subfolders, the content of a folder before the folder
+   * so that they can be deleted in order
+   */
+  async _walk(com: string, dirname: string, relative: string): Promise<DeviceEntry[]> {
+    const entries: DeviceEntry[] = [];
+    for (const entry of await Backend.get(com).listDir(com, dirname)) {
+      const filepath = `${dirname}/${entry.name}`;
+      const name = `${relative}/${entry.name}`;
+      if (entry.type === 'directory') {
+        entries.push(...(await this._walk(com, filepath, name)));
+      }
+      entries.push({ com, filepath, relative: name, isDirectory: entry.type === 'directory' });
+    }
+    return entries;
+  }
+
+  /**
+   * @param subject What was deleted, like "folder 'lib'"
+   */
+  _report(subject: string, deleted: number, total: number, failures: Failure[]) {
+    if (!failures.length) {
+      vscode.window.showInformationMessage(
+        deleted === total
+          ? `Deleted ${subject}.`
+          : `Deletion of ${subject} stopped, ${deleted} of ${total} entries deleted.`
+      );
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `Deleted ${deleted} of ${total} entries of ${subject}, failed: ${describeFailures(
+        'deleting',
+        failures
+      )}.`
+    );
+  }
+}
+
+export default new DeviceFolders();
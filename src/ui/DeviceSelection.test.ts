@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
+import DeviceSelection from './DeviceSelection';
+import PortList from './PortList';
+import { FILE, FOLDER } from './TreeDataProvider';
+import { mockDevice, mockProgress, node } from './__fixtures__/deviceTree';
+
+jest.mock('../serial/SerialManager', () => ({
+  execute: jest.fn(),
+  listDir: jest.fn(),
+  readFile: jest.fn(),
+  removeFile: jest.fn(),
+  rmdir: jest.fn(),
+}));
+jest.mock('./PortList', () => ({
+  _deviceUri: (port: string, filepath: string) => ({ path: `${port}${filepath}` }),
+  _run: jest.fn(),
+  refreshTree: jest.fn(),
+  remove: jest.fn(),
+  run: jest.fn(),
+}));
+
+const DEVICE = new Map([
+  ['/flash/boot.py', Buffer.from("print('/flash/boot.py')")],
+  ['/flash/main.py', Buffer.from("print('/flash/main.py')")],
+  ['/flash/test.py', Buffer.from("print('/flash/test.py')")],
+  ['/flash/lib/a.py', Buffer.from('a = 1')],
+  ['/flash/lib/sub/b.py', Buffer.from('b = 2')],
+]);
+
+describe('DeviceSelection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProgress();
+    mockDevice(DEVICE);
+  });
+
+  describe('remove', () => {
+    test('should delete a single node through the usual command', () => {
+      // ARRANGE
+      const ev = node('test.py', '/flash', FILE);
+
+      // ACT
+      DeviceSelection.remove(ev, [ev]);
+
+      // ASSERT
+      expect(PortList.remove).toHaveBeenCalledWith(ev);
+    });
+
+    test('should delete the selected files and folders after a single confirmation', async () => {
+      // ARRANGE
+      const spyWarning = jest
+        .spyOn(vscode.window, 'showWarningMessage')
+        // @ts-ignore
+        .mockResolvedValue('Delete');
+      const removed: string[] = [];
+      jest.spyOn(SerialManager, 'removeFile').mockImplementation((com, filepath) => {
+        removed.push(filepath);
+        return Promise.resolve(Buffer.from('done'));
+      });
+      jest.spyOn(SerialManager, 'rmdir').mockImplementation((com, dirname) => {
+        removed.push(`${dirname}/`);
+        return Promise.resolve();
+      });
+      const spyInfo = jest.spyOn(vscode.window, 'showInformationMessage');
+
+      // ACT
+      await DeviceSelection._remove([
+        node('test.py', '/flash', FILE),
+        node('lib', '/flash', FOLDER),
+        // already deleted with its folder
+        node('a.py', '/flash/lib', FILE),
+      ]);
+
+      // ASSERT
+      expect(spyWarning).toHaveBeenCalledTimes(1);
+      expect(spyWarning).toHaveBeenCalledWith(
+        'Delete 2 selected items (3 files and 2 folders)?',
+        { modal: true, detail: '/flash/test.py\n/flash/lib/' },
+        'Delete'
+      );
+      expect(removed).toStrictEqual([
+        '/flash/test.py',
+        '/flash/lib/a.py',
+        '/flash/lib/sub/b.py',
+        '/flash/lib/sub/',
+        '/flash/lib/',
+      ]);
+      expect(spyInfo).toHaveBeenCalledWith('Deleted 2 items.');
+      expect(PortList.refreshTree).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not delete anything without confirmation', async () => {
+      // ARRANGE
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue(undefined);
+
+      // ACT
+      await DeviceSelection._remove([node('test.py', '/flash', FILE), node('main.py', '/flash', FILE)]);
+
+      // ASSERT
+      expect(SerialManager.removeFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run', () => {
+    test('should run the editor code when not called from the tree', () => {
+      // ACT
+      DeviceSelection.run(undefined);
+
+      // ASSERT
+      expect(PortList.run).toHaveBeenCalled();
+    });
+
+    test('should run the selected files in order and report the failures', async () => {
+      // ARRANGE
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue('Run');
+      const executed: string[] = [];
+      jest.spyOn(SerialManager, 'execute').mockImplementation((com, code) => {
+        executed.push(code);
+        return Promise.resolve({
+          output: Buffer.from(code),
+          error: code.includes('boot.py') ? 'Traceback (most recent call last):\r\nOSError: 19' : '',
+        });
+      });
+      const spyError = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      await DeviceSelection._run([node('boot.py', '/flash', FILE), node('main.py', '/flash', FILE)]);
+
+      // ASSERT
+      expect(executed).toStrictEqual(["print('/flash/boot.py')", "print('/flash/main.py')"]);
+      expect(spyError).toHaveBeenCalledWith(`Ran 1 of 2 files, failed: 'boot.py' (OSError: 19).`);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import Backend from '../adapters/Backend';
+import { describeFailure } from '../serial/DirectoryEntry';
+import { SerialError } from '../serial/errors';
+import M5FileSystemProvider from '../providers/M5FileSystemProvider';
+import { describeFailures, errorMessage, Failure } from '../utils/errors';
+import { listLines, plural, trimComments } from '../utils/text';
+import DeviceFolders, { DELETE, DeviceEntry } from './DeviceFolders';
+import PortList from './PortList';
+import { COM, FILE, FOLDER, M5FSResource, selectedNodes, topmostNodes } from './TreeDataProvider';
+
+const RUN = 'Run';
+
+/**
+ * Deletes and runs the nodes selected in the device tree at once, with a single confirmation,
+ * progress notification and report. A single node goes through the usual command.
+ */
+class DeviceSelection {
+  remove(ev: any, selected?: M5FSResource[]) {
+    const nodes = selectedNodes(ev, selected);
+    if (nodes.length > 1) {
+      this._remove(nodes);
+    } else if (ev.contextValue === FOLDER) {
+      DeviceFolders.remove(ev);
+    } else {
+      PortList.remove(ev);
+    }
+  }
+
+  async _remove(nodes: M5FSResource[]) {
+    const roots = topmostNodes(nodes.filter(({ contextValue }) => contextValue !== COM));
+    const entries: DeviceEntry[] = [];
+    try {
+      for (const { com, parent, label, contextValue } of roots) {
+        const filepath = `${parent}/${label}`;
+        if (contextValue === FOLDER) {
+          entries.push(...(await DeviceFolders._walk(com, filepath, label)));
+        }
+        entries.push({ com, filepath, relative: label, isDirectory: contextValue === FOLDER });
+      }
+    } catch (e) {
+      vscode.window.showErrorMessage(`Listing the selected items failed: ${errorMessage(e)}`);
+      return;
+    }
+
+    const files = entries.filter(({ isDirectory }) => !isDirectory).length;
+    const folders = entries.length - files;
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete ${plural(roots.length, 'selected item')} (${plural(files, 'file')} and ${plural(
+        folders,
+        'folder'
+      )})?`,
+      {
+        modal: true,
+        detail: listLines(
+          roots.map(({ parent, label, contextValue }) =>
+            contextValue === FOLDER ? `${parent}/${label}/` : `${parent}/${label}`
+          )
+        ),
+      },
+      DELETE
+    );
+    if (confirm !== DELETE) {
+      return;
+    }
+
+    const items = plural(roots.length, 'item');
+    const { deleted, failures } = await DeviceFolders._delete(`Deleting ${items}`, entries);
+    roots.forEach(({ com, parent, label }) =>
+      M5FileSystemProvider.removeCache(PortList._deviceUri(com, `${parent}/${label}`).path)
+    );
+    PortList.refreshTree();
+    DeviceFolders._report(items, deleted, entries.length, failures);
+  }
+
+  run(ev: any, selected?: M5FSResource[]) {
+    // run from the editor rather than the tree
+    if (!ev || ev.contextValue !== FILE) {
+      PortList.run();
+      return;
+    }
+    this._run(selectedNodes(ev, selected).filter(({ contextValue }) => contextValue === FILE));
+  }
+
+  async _run(nodes: M5FSResource[]) {
+    if (nodes.length === 1) {
+      const [{ com, parent, label }] = nodes;
+      try {
+        const code = await Backend.get(com).readFile(com, `${parent}/${label}`);
+        await PortList._run(com, code.toString());
+      } catch (e) {
+        vscode.window.showErrorMessage(`Running '${label}' failed: ${errorMessage(e)}`);
+      }
+      return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+      `Run ${plural(nodes.length, 'file')} one after the other?`,
+      { modal: true, detail: listLines(nodes.map(({ com, parent, label }) => `${com}:${parent}/${label}`)) },
+      RUN
+    );
+    if (confirm !== RUN) {
+      return;
+    }
+
+    const failures: Failure[] = [];
+    let ran = 0;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        cancellable: true,
+        title: `Running ${plural(nodes.length, 'file')}`,
+      },
+      async (progress, token) => {
+        for (const { com, parent, label } of nodes) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({ message: label });
+          try {
+            const backend = Backend.get(com);
+            const code = await backend.readFile(com, `${parent}/${label}`, { token });
+            const { error } = await backend.execute(com, trimComments(code.toString()));
+            if (error) {
+              throw new SerialError(describeFailure(error));
+            }
+            ran++;
+          } catch (e) {
+            failures.push({ name: label, error: e });
+          }
+          progress.report({ increment: 100 / nodes.length });
+        }
+      }
+    );
+    if (!failures.length) {
+      vscode.window.showInformationMessage(
+        ran === nodes.length
+          ? `Ran ${plural(ran, 'file')}.`
+          : `Running stopped, ${ran} of ${nodes.length} files run.`
+      );
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `Ran ${ran} of ${nodes.length} files, failed: ${describeFailures('running', failures)}.`
+    );
+  }
+}
+
+export default new DeviceSelection();
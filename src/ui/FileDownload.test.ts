@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
+import FileDownload from './FileDownload';
+import { FILE, FOLDER } from './TreeDataProvider';
+import { mockDevice, mockProgress, node } from './__fixtures__/deviceTree';
+
+jest.mock('../serial/SerialManager', () => ({
+  listDir: jest.fn(),
+  readFile: jest.fn(),
+}));
+
+const DEVICE = new Map<string, Buffer>([
+  ['/flash/main.py', Buffer.from('print("hello")')],
+  ['/flash/res/logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00])],
+  ['/flash/res/fonts/big.bin', Buffer.from([0x00, 0x01])],
+]);
+
+describe('FileDownload', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'm5stack-download-'));
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showOpenDialog').mockResolvedValue([{ fsPath: directory }]);
+    mockProgress();
+    mockDevice(DEVICE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should save a file byte for byte', async () => {
+    // ARRANGE
+    const spyShowInfo = jest.spyOn(vscode.window, 'showInformationMessage');
+
+    // ACT
+    await FileDownload._download([node('logo.png', '/flash/res', FILE)]);
+
+    // ASSERT
+    expect(fs.readFileSync(path.join(directory, 'logo.png'))).toStrictEqual(
+      DEVICE.get('/flash/res/logo.png')
+    );
+    expect(spyShowInfo).toHaveBeenCalledWith(`Downloaded 'logo.png' to ${directory} (1 file).`);
+  });
+
+  test('should save folders with their subfolders', async () => {
+    // ACT
+    await FileDownload._download([node('res', '/flash', FOLDER)]);
+
+    // ASSERT
+    expect(fs.readFileSync(path.join(directory, 'res', 'logo.png'))).toStrictEqual(
+      DEVICE.get('/flash/res/logo.png')
+    );
+    expect(fs.readFileSync(path.join(directory, 'res', 'fonts', 'big.bin'))).toStrictEqual(
+      DEVICE.get('/flash/res/fonts/big.bin')
+    );
+  });
+
+  test('should download the selected items together', async () => {
+    // ARRANGE
+    const spyShowInfo = jest.spyOn(vscode.window, 'showInformationMessage');
+    const spyProgress = jest.spyOn(vscode.window, 'withProgress');
+
+    // ACT
+    await FileDownload._download([node('main.py', '/flash', FILE), node('res', '/flash', FOLDER)]);
+
+    // ASSERT
+    expect(fs.readFileSync(path.join(directory, 'main.py'))).toStrictEqual(DEVICE.get('/flash/main.py'));
+    expect(fs.readFileSync(path.join(directory, 'res', 'fonts', 'big.bin'))).toStrictEqual(
+      DEVICE.get('/flash/res/fonts/big.bin')
+    );
+    expect(spyProgress).toHaveBeenCalledTimes(1);
+    expect(spyShowInfo).toHaveBeenCalledWith(`Downloaded 2 items to ${directory} (3 files).`);
+  });
+
+  test('should report the files that failed and save the others', async () => {
+    // ARRANGE
+    DEVICE.set('/flash/res/broken.bin', Buffer.from([]));
+    jest
+      .spyOn(SerialManager, 'readFile')
+      .mockImplementation((com, filepath) =>
+        filepath === '/flash/res/broken.bin'
+          ? Promise.reject(new Error('Timeout'))
+          : Promise.resolve(DEVICE.get(filepath)!)
+      );
+    const spyShowError = jest.spyOn(vscode.window, 'showErrorMessage');
+
+    // ACT
+    await FileDownload._download([node('res', '/flash', FOLDER)]);
+    DEVICE.delete('/flash/res/broken.bin');
+
+    // ASSERT
+    expect(fs.existsSync(path.join(directory, 'res', 'logo.png'))).toBe(true);
+    expect(fs.existsSync(path.join(directory, 'res', 'broken.bin'))).toBe(false);
+    expect(spyShowError).toHaveBeenCalledWith(
+      `Downloaded 2 files of 'res', failed: 'res/broken.bin' (Timeout).`
+    );
+  });
+
+  test('should ask before overwriting local files', async () => {
+    // ARRANGE
+    fs.writeFileSync(path.join(directory, 'main.py'), 'local');
+    jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue(undefined);
+
+    // ACT
+    await FileDownload._download([node('main.py', '/flash', FILE)]);
+
+    // ASSERT
+    expect(fs.readFileSync(path.join(directory, 'main.py')).toString()).toBe('local');
+    expect(SerialManager.readFile).not.toHaveBeenCalled();
+  });
+
+  test('should ask once before overwriting several local files', async () => {
+    // ARRANGE
+    fs.writeFileSync(path.join(directory, 'main.py'), 'local');
+    fs.mkdirSync(path.join(directory, 'res'));
+    const spy = jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue(undefined);
+
+    // ACT
+    await FileDownload._download([node('main.py', '/flash', FILE), node('res', '/flash', FOLDER)]);
+
+    // ASSERT
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy).toHaveBeenCalledWith(
+      `2 items already exist in ${directory}.`,
+      { modal: true, detail: 'main.py\nres' },
+      'Overwrite'
+    );
+    expect(SerialManager.readFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import Backend from '../adapters/Backend';
+import { describeFailures, errorMessage, Failure } from '../utils/errors';
+import { plural } from '../utils/text';
+import { FOLDER, M5FSResource, selectedNodes, topmostNodes } from './TreeDataProvider';
+
+const OVERWRITE = 'Overwrite';
+
+type DeviceFile = {
+  com: string;
+  // path on the device
+  filepath: string;
+  // path relative to the local directory
+  relative: string;
+};
+
+/**
+ * Copies files and folders of the device tree to a local directory. Not to be confused with
+ * SerialManager.download, which writes files to the device.
+ */
+class FileDownload {
+  download(ev: M5FSResource, selected?: M5FSResource[]) {
+    this._download(topmostNodes(selectedNodes(ev, selected)));
+  }
+
+  async _download(nodes: M5FSResource[]) {
+    const target = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      openLabel: 'Download here',
+    });
+    if (!target?.length) {
+      return;
+    }
+    const directory = target[0].fsPath;
+    // a single confirmation for all the selected items already downloaded
+    const existing = nodes
+      .filter(({ label }) => fs.existsSync(path.join(directory, label)))
+      .map(({ label }) => label);
+    if (existing.length) {
+      const action =
+        existing.length === 1
+          ? await vscode.window.showWarningMessage(
+              `'${existing[0]}' already exists in ${directory}.`,
+              { modal: true },
+              OVERWRITE
+            )
+          : await vscode.window.showWarningMessage(
+              `${existing.length} items already exist in ${directory}.`,
+              { modal: true, detail: existing.join('\n') },
+              OVERWRITE
+            );
+      if (action !== OVERWRITE) {
+        return;
+      }
+    }
+    const label = nodes.length === 1 ? `'${nodes[0].label}'` : plural(nodes.length, 'item');
+
+    const failures: Failure[] = [];
+    let downloaded = 0;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        cancellable: true,
+        title: `Downloading ${label}`,
+      },
+      async (progress, token) => {
+        progress.report({ increment: 0 });
+        const files: DeviceFile[] = [];
+        for (const ev of nodes) {
+          const filepath = `${ev.parent}/${ev.label}`;
+          files.push(
+            ...(ev.contextValue === FOLDER
+              ? await this._listFiles(ev.com, filepath, ev.label, failures, token)
+              : [{ com: ev.com, filepath, relative: ev.label }])
+          );
+        }
+
+        for (const file of files) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({ message: file.relative });
+          try {
+            const content = await Backend.get(file.com).readFile(file.com, file.filepath, { token });
+            const local = path.join(directory, file.relative);
+            await fs.promises.mkdir(path.dirname(local), { recursive: true });
+            await fs.promises.writeFile(local, content);
+            downloaded++;
+          } catch (e) {
+            failures.push({ name: file.relative, error: e });
+          }
+          progress.report({ increment: 100 / files.length });
+        }
+      }
+    );
+
+    this._report(label, directory, downloaded, failures);
+  }
+
+  /**
+   * Files of a device folder and its subfolders, folders that cannot be listed are reported
+   * as failures
+   */
+  async _listFiles(
+    com: string,
+    dirname: string,
+    relative: string,
+    failures: Failure[],
+    token: vscode.CancellationToken
+  ): Promise<DeviceFile[]> {
+    let entries;
+    try {
+      entries = await Backend.get(com).listDir(com, dirname, { token });
+    } catch (e) {
+      failures.push({ name: relative, error: e });
+      return [];
+    }
+    const files: DeviceFile[] = [];
+    for (const entry of entries) {
+      const filepath = `${dirname}/${entry.name}`;
+      const name = path.join(relative, entry.name);
+      if (entry.type === 'directory') {
+        files.push(...(await this._listFiles(com, filepath, name, failures, token)));
+      } else {
+        files.push({ com, filepath, relative: name });
+      }
+    }
+    return files;
+  }
+
+  _report(label: string, directory: string, downloaded: number, failures: Failure[]) {
+    if (!failures.length) {
+      vscode.window.showInformationMessage(
+        `Downloaded ${label} to ${directory} (${plural(downloaded, 'file')}).`
+      );
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `Downloaded ${plural(downloaded, 'file')} of ${label}, failed: ${describeFailures(
+        'downloading',
+        failures
+      )}.`
+    );
+  }
+}
+
+export default new FileDownload();
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import DeviceDragAndDrop from './DeviceDragAndDrop';
 import { M5FSResource, M5TreeDataProvider } from './TreeDataProvider';
 import { PickedItem } from './types';
 class FileTree {
@@ -6,6 +7,8 @@ class FileTree {
   constructor(items: PickedItem[]) {
     this.tree = vscode.window.createTreeView('m5stack', {
       treeDataProvider: new M5TreeDataProvider(items.map((item) => item.label)),
+      dragAndDropController: DeviceDragAndDrop,
+      canSelectMany: true,
     });
   }
 }
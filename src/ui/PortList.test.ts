@@ -1,24 +1,39 @@
 import * as fs from 'fs';
 import * as vscode from 'vscode';
-import M5FileSystemProvider from '../providers/M5FileSystemProvider';
 import SerialConnection from '../serial/SerialConnection';
+import { SerialDisconnectedError, SerialTimeoutError } from '../serial/errors';
 import SerialManager from '../serial/SerialManager';
+import FileTree from './FileTree';
 import Portlist from './PortList';
+import ProjectConfig from './ProjectConfig';
 import StatusBar from './StatusBar';
+import WebReplDevices from './WebReplDevices';
 
 jest.mock('../serial/SerialManager', () => ({
   connect: jest.fn(),
+  connectWebRepl: jest.fn(),
   disconnect: jest.fn(),
   download: jest.fn(),
   exec: () => Promise.resolve(Buffer.from('done')),
+  execute: jest.fn(),
+  getInfo: jest.fn(),
   isBusy: jest.fn(() => false),
+  mkdir: jest.fn(),
+  onQueueChange: jest.fn(),
+  onStateChange: jest.fn(),
+  ping: jest.fn(),
   readFile: () => Promise.resolve(Buffer.from('done')),
   removeFile: jest.fn(),
+  stat: jest.fn(),
+  statvfs: jest.fn(),
 }));
 jest.mock('../providers/M5FileSystemProvider', () => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  DOCUMENT_URI_SCHEME: 'm5stackfs',
   disconnect: jest.fn(),
   exec: () => Promise.resolve(Buffer.from('done')),
   removeFile: jest.fn(),
+  toDeviceUri: jest.requireActual('../providers/M5FileSystemProvider').toDeviceUri,
   writeFile: jest.fn(),
 }));
 jest.mock('../serial/SerialConnection', () => ({
@@ -27,6 +42,7 @@ jest.mock('../serial/SerialConnection', () => ({
   getCOMs: () => Promise.resolve([]),
   removeFile: jest.fn(),
 }));
+jest.mock('./FileTree');
 jest.mock('fs', () => ({
   readFileSync: jest.fn(),
 }));
@@ -181,6 +197,76 @@ describe('PortList', () => {
       // ASSERT
       expect(spyConnect).toHaveBeenCalledTimes(1);
     });
+
+    test('should add and connect a WebREPL device', async () => {
+      // ARRANGE
+      const values: { [key: string]: string } = {};
+      WebReplDevices.init({
+        get: (key: string) => Promise.resolve(values[key]),
+        store: (key: string, value: string) => {
+          values[key] = value;
+          return Promise.resolve();
+        },
+      } as unknown as vscode.SecretStorage);
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showQuickPick').mockResolvedValue([
+        {
+          label: '$(add) Add WebREPL device...',
+          picked: true,
+        },
+      ]);
+      jest
+        .spyOn(vscode.window, 'showInputBox')
+        .mockResolvedValueOnce('192.168.4.1')
+        .mockResolvedValueOnce('secret');
+      let connected: string[] = [];
+      jest.spyOn(SerialManager, 'connectWebRepl').mockImplementation((id: string, password: string) => {
+        connected = [id, password];
+      });
+
+      // ACT
+      await Portlist.selectPorts();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // ASSERT
+      expect(connected).toStrictEqual(['webrepl:192.168.4.1:8266', 'secret']);
+      expect(await WebReplDevices.list()).toStrictEqual(['webrepl:192.168.4.1:8266']);
+    });
+  });
+
+  describe('onConnected', () => {
+    test('should build file tree when device answers', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'ping').mockResolvedValueOnce(true);
+      jest
+        .spyOn(SerialManager, 'getInfo')
+        .mockResolvedValueOnce({ firmware: 'v1.7.5', board: 'M5Stack-Core', raw: '' });
+      const spyInfo = jest.spyOn(StatusBar, 'setDeviceInfo');
+
+      // ACT
+      await Portlist._onConnected('/dev/device');
+
+      // ASSERT
+      expect(spyInfo).toHaveBeenCalledWith('/dev/device', {
+        firmware: 'v1.7.5',
+        board: 'M5Stack-Core',
+        raw: '',
+      });
+      expect(FileTree).toHaveBeenCalledTimes(1);
+    });
+
+    test('should show an error when device does not answer', async () => {
+      // ARRANGE
+      jest.spyOn(SerialManager, 'ping').mockResolvedValueOnce(false);
+      const spyShowError = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      await Portlist._onConnected('/dev/device');
+
+      // ASSERT
+      expect(spyShowError).toHaveBeenCalled();
+      expect(FileTree).toHaveBeenCalledTimes(0);
+    });
   });
 
   describe('remove', () => {
@@ -215,6 +301,73 @@ describe('PortList', () => {
     });
   });
 
+  describe('rename', () => {
+    const node = { com: '/dev/device', parent: '/flash', label: 'test.py', contextValue: 'file' };
+
+    beforeEach(() => {
+      // @ts-ignore
+      jest.spyOn(vscode.Uri, 'parse').mockImplementation((value: string) => ({ path: value }));
+      jest.spyOn(Portlist, 'refreshTree').mockImplementation(() => {});
+    });
+
+    test('should rename through the file system provider', async () => {
+      // ARRANGE
+      jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('/flash/lib/main.py');
+      jest.spyOn(SerialManager, 'stat').mockResolvedValue(undefined);
+      let edit: any;
+      jest.spyOn(vscode.workspace, 'applyEdit').mockImplementation((value) => {
+        edit = value;
+        return Promise.resolve(true);
+      });
+
+      // ACT
+      await Portlist._rename(node);
+
+      // ASSERT
+      expect(SerialManager.mkdir).toHaveBeenCalledWith('/dev/device', '/flash/lib');
+      expect(edit.renames).toStrictEqual([
+        {
+          oldUri: { path: 'm5stackfs://dev/device/flash/test.py' },
+          newUri: { path: 'm5stackfs://dev/device/flash/lib/main.py' },
+          options: { overwrite: false },
+        },
+      ]);
+      expect(Portlist.refreshTree).toHaveBeenCalled();
+    });
+
+    test('should not replace an existing file unless confirmed', async () => {
+      // ARRANGE
+      jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('/flash/main.py');
+      jest
+        .spyOn(SerialManager, 'stat')
+        .mockResolvedValue({ name: 'main.py', type: 'file', size: 1, mtime: 0 });
+      // @ts-ignore
+      jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValue(undefined);
+      const spyApplyEdit = jest.spyOn(vscode.workspace, 'applyEdit');
+
+      // ACT
+      await Portlist._rename(node);
+
+      // ASSERT
+      expect(spyApplyEdit).not.toHaveBeenCalled();
+    });
+
+    test('should report a failure to check the target', async () => {
+      // ARRANGE
+      jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('/flash/main.py');
+      jest
+        .spyOn(SerialManager, 'stat')
+        .mockImplementation(() => Promise.reject(new SerialTimeoutError(0x02, 10000)));
+      const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      await Portlist._rename(node);
+
+      // ASSERT
+      expect(spy).toHaveBeenCalledWith("Renaming 'test.py' failed: Command 0x02 timed out after 10000ms.");
+    });
+  });
+
   describe('readFile', () => {
     test('should allow reading image files', async () => {
       // ARRANGE
@@ -252,8 +405,6 @@ describe('PortList', () => {
       jest.spyOn(vscode.window, 'createWebviewPanel').mockImplementation(() => {
         return htmlWebview;
       });
-      jest.spyOn(SerialManager, 'readFile').mockResolvedValue(Buffer.from('done'));
-      const spyWrite = jest.spyOn(M5FileSystemProvider, 'writeFile');
       const spyWorkspaceOpen = jest.spyOn(vscode.workspace, 'openTextDocument');
       const spyShowTextDocument = jest.spyOn(vscode.window, 'showTextDocument');
 
@@ -261,7 +412,6 @@ describe('PortList', () => {
       await Portlist._readFile('/dev/device', '/flash/file.py');
 
       // ASSERT
-      expect(spyWrite).toHaveBeenCalled();
       expect(spyWorkspaceOpen).toHaveBeenCalled();
       expect(spyShowTextDocument).toHaveBeenCalled();
     });
@@ -272,15 +422,32 @@ describe('PortList', () => {
       jest.spyOn(vscode.window, 'createWebviewPanel').mockImplementation(() => {
         return htmlWebview;
       });
-      jest.spyOn(SerialManager, 'readFile').mockResolvedValue(Buffer.from('done'));
       jest.spyOn(SerialManager, 'isBusy').mockImplementationOnce(() => true);
-      const spyWrite = jest.spyOn(M5FileSystemProvider, 'writeFile');
+      const spyWorkspaceOpen = jest.spyOn(vscode.workspace, 'openTextDocument');
 
       // ACT
       await Portlist._readFile('/dev/device', '/flash/file.py');
 
       // ASSERT
-      expect(spyWrite).toHaveBeenCalledTimes(0);
+      expect(spyWorkspaceOpen).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe('addToWorkspace', () => {
+    test('should add the flash of the device as a workspace folder', () => {
+      // ARRANGE
+      // @ts-ignore
+      jest.spyOn(vscode.Uri, 'parse').mockImplementationOnce((value: string) => ({ path: value }));
+      const spy = jest.spyOn(vscode.workspace, 'updateWorkspaceFolders');
+
+      // ACT
+      Portlist.addToWorkspace({ label: 'COM3' });
+
+      // ASSERT
+      expect(spy).toHaveBeenCalledWith(0, 0, {
+        uri: { path: 'm5stackfs:/COM3/flash' },
+        name: 'M5Stack COM3',
+      });
     });
   });
 
@@ -300,6 +467,25 @@ describe('PortList', () => {
       expect(spyShowInfo).toHaveBeenCalled();
     });
 
+    test('should not wait for an answer of the restarting device', async () => {
+      // ARRANGE
+      vscode.window.activeTextEditor = buildActiveTextEditor();
+      const spyExec = jest
+        .spyOn(SerialManager, 'exec')
+        .mockImplementation(() => Promise.reject(new SerialTimeoutError(0x05, 1000)));
+      const spyShowInfo = jest.spyOn(vscode.window, 'showInformationMessage');
+
+      // ACT
+      await Portlist._reset();
+
+      // ASSERT
+      expect(spyExec).toHaveBeenCalledWith('/dev/file.py', 'machine.reset()', {
+        priority: 10,
+        timeout: 1000,
+      });
+      expect(spyShowInfo).toHaveBeenCalledWith('Device is resetting.');
+    });
+
     test('should show an error when resetting device has failed', async () => {
       // ARRANGE
       vscode.window.activeTextEditor = buildActiveTextEditor();
@@ -347,10 +533,12 @@ describe('PortList', () => {
   });
 
   describe('run', () => {
-    test('should allow to run code into device', async () => {
+    test('should allow to run code printing output into device', async () => {
       // ARRANGE
       vscode.window.activeTextEditor = buildActiveTextEditor();
-      const spy = jest.spyOn(SerialManager, 'exec').mockResolvedValue(Buffer.from('done'));
+      const spy = jest
+        .spyOn(SerialManager, 'execute')
+        .mockResolvedValue({ output: Buffer.from('hello\r\n'), error: '' });
       const spy2 = jest.spyOn(vscode.window, 'showInformationMessage');
 
       // ACT
@@ -358,13 +546,16 @@ describe('PortList', () => {
 
       // ASSERT
       expect(spy).toHaveBeenCalledWith('/dev/file.py', 'python code');
-      expect(spy2).toHaveBeenCalled();
+      expect(spy2).toHaveBeenCalledWith('Run successfully.');
     });
 
     test('should show an error when running code into device has failed', async () => {
       // ARRANGE
       vscode.window.activeTextEditor = buildActiveTextEditor();
-      const spy = jest.spyOn(SerialManager, 'exec').mockResolvedValue(Buffer.from('crc error'));
+      const spy = jest.spyOn(SerialManager, 'execute').mockResolvedValue({
+        output: Buffer.from('done\r\n'),
+        error: "Traceback (most recent call last):\r\nNameError: name 'x' isn't defined",
+      });
       const spy2 = jest.spyOn(vscode.window, 'showErrorMessage');
 
       // ACT
@@ -372,7 +563,45 @@ describe('PortList', () => {
 
       // ASSERT
       expect(spy).toHaveBeenCalledWith('/dev/file.py', 'python code');
-      expect(spy2).toHaveBeenCalled();
+      expect(spy2).toHaveBeenCalledWith("Run failed: NameError: name 'x' isn't defined");
+    });
+
+    test('should run the edited python file rather than the project entry file', async () => {
+      // ARRANGE
+      const editor = buildActiveTextEditor();
+      // @ts-ignore
+      editor.document.uri = { scheme: 'file', path: '/project/app.py' };
+      editor.document.fileName = '/project/app.py';
+      vscode.window.activeTextEditor = editor;
+      jest.spyOn(ProjectConfig, 'get').mockReturnValueOnce({ entry: 'main.py' });
+      jest.spyOn(ProjectConfig, 'localRoot').mockReturnValueOnce('/project');
+      jest.spyOn(Portlist, 'pickDevice').mockResolvedValueOnce('/dev/device');
+      const spy = jest
+        .spyOn(SerialManager, 'execute')
+        .mockResolvedValue({ output: Buffer.from(''), error: '' });
+
+      // ACT
+      await Portlist.run();
+
+      // ASSERT
+      expect(spy).toHaveBeenCalledWith('/dev/device', 'python code');
+    });
+
+    test('should show an error when the device is lost while running code', async () => {
+      // ARRANGE
+      vscode.window.activeTextEditor = buildActiveTextEditor();
+      jest
+        .spyOn(SerialManager, 'execute')
+        .mockImplementation(() =>
+          Promise.reject(new SerialDisconnectedError('Connection to /dev/file.py lost.'))
+        );
+      const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      await Portlist.run();
+
+      // ASSERT
+      expect(spy).toHaveBeenCalledWith('Run failed: Connection to /dev/file.py lost.');
     });
   });
 
@@ -406,6 +635,27 @@ describe('PortList', () => {
       expect(spyShowError).toHaveBeenCalled();
     });
 
+    test('should warn before uploading a file larger than the space left', async () => {
+      // ARRANGE
+      jest.spyOn(vscode.window, 'showOpenDialog').mockResolvedValue([vscode.Uri.file('/users/me/python.py')]);
+      jest.spyOn(fs, 'readFileSync').mockReturnValue(Buffer.alloc(2048));
+      jest.spyOn(SerialManager, 'statvfs').mockResolvedValueOnce({ total: 4096, free: 1024 });
+      // @ts-ignore
+      const spyWarning = jest.spyOn(vscode.window, 'showWarningMessage').mockResolvedValueOnce(undefined);
+      const spyWithProgress = jest.spyOn(vscode.window, 'withProgress');
+
+      // ACT
+      await Portlist.upload({ contextValue: 'COM', label: '/dev/device' });
+
+      // ASSERT
+      expect(spyWarning).toHaveBeenCalledWith(
+        `'python.py' (2.0 KB) will not fit in the 1.0 KB left on /flash of /dev/device.`,
+        { modal: true },
+        'Upload Anyway'
+      );
+      expect(spyWithProgress).not.toHaveBeenCalled();
+    });
+
     test('should show an error when uploading and filename is too long', async () => {
       // ARRANGE
       jest
@@ -1,14 +1,28 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import M5FileSystemProvider, { DOCUMENT_URI_SCHEME } from '../providers/M5FileSystemProvider';
+import M5FileSystemProvider, { DOCUMENT_URI_SCHEME, toDeviceUri } from '../providers/M5FileSystemProvider';
+import { describeFailure } from '../serial/DirectoryEntry';
 import SerialConnection from '../serial/SerialConnection';
-import SerialManager, { MAX_CHUNK_LENGTH } from '../serial/SerialManager';
-import { trimComments } from '../utils/text';
-import { getSerialPortAndFileFromUri } from '../utils/vscode';
+import { SerialUploadError } from '../serial/errors';
+import Backend from '../adapters/Backend';
+import { isWebRepl } from '../serial/WebRepl';
+import { errorMessage } from '../utils/errors';
+import { formatBytes, trimComments } from '../utils/text';
+import {
+  getPortFromPathSegment,
+  getSerialPortAndFileFromUri,
+  getUploadOptions,
+  reportUpload,
+} from '../utils/vscode';
+import ConnectionSettings from './ConnectionSettings';
 import FileTree from './FileTree';
+import { FILE } from './TreeDataProvider';
 import StatusBar from './StatusBar';
+import { recoverUpload } from './UploadRecovery';
+import ProjectConfig from './ProjectConfig';
 import { PickedItem } from './types';
+import WebReplDevices from './WebReplDevices';
 
 type ResourceMapCache = {
   [key: string]: string;
@@ -16,6 +30,12 @@ type ResourceMapCache = {
 
 const supportedTextFileTypes = ['py', 'json', 'txt'];
 
+const WEBREPL = 'WebREPL';
+const ADD_WEBREPL = '$(add) Add WebREPL device...';
+const CHANGE_PASSWORD = 'Change password';
+const REPLACE = 'Replace';
+const UPLOAD_ANYWAY = 'Upload Anyway';
+
 class PortList {
   private selectedCOMs: PickedItem[] = [];
   // @ts-ignore
@@ -31,18 +51,6 @@ class PortList {
         return;
       }
     });
-
-    vscode.workspace.onWillSaveTextDocument(async (e) => {
-      if (e.document.isDirty) {
-        if (e.document.uri.scheme !== DOCUMENT_URI_SCHEME) {
-          return;
-        }
-        const result = await M5FileSystemProvider.saveFile(e.document.uri, e.document.getText());
-        if (!result) {
-          vscode.window.showErrorMessage(`Saved ${e.document.uri} failed.`);
-        }
-      }
-    });
   }
 
   removeSelectedComs(com: string) {
@@ -52,17 +60,52 @@ class PortList {
     }
   }
 
+  coms(): string[] {
+    return this.selectedCOMs.map(({ label }) => label);
+  }
+
+  /**
+   * Device a command runs on: the one of .m5stack.json when it is connected, picked by the user
+   * when several are
+   */
+  async pickDevice(): Promise<string | undefined> {
+    const coms = this.coms();
+    if (coms.length > 1) {
+      const target = await ProjectConfig.findTarget(coms);
+      return target ?? vscode.window.showQuickPick(coms, { placeHolder: 'Select the device' });
+    }
+    if (!coms.length) {
+      vscode.window.showErrorMessage('Add an M5Stack device first.');
+    }
+    return coms[0];
+  }
+
   async selectPorts() {
     let coms = await SerialConnection.getCOMs();
+    const webRepls = await WebReplDevices.list();
 
     const self = this;
-    const portList = coms.map(({ path, manufacturer }) => {
-      return {
-        label: path,
-        description: manufacturer,
-        picked: self.selectedCOMs.findIndex((p) => p.label === path) > -1,
-      };
-    });
+    const isSelected = (label: string) => self.selectedCOMs.findIndex((p) => p.label === label) > -1;
+    // the device of the project is preselected until devices are picked
+    const project = ProjectConfig.get();
+    const isTarget = (port: { path: string; serialNumber?: string }) =>
+      !this.selectedCOMs.length && ProjectConfig.isTarget(port, project);
+    const portList = coms
+      .map(({ path, manufacturer, serialNumber }) => {
+        return {
+          label: path,
+          description: manufacturer,
+          picked: isSelected(path) || isTarget({ path, serialNumber }),
+        };
+      })
+      .concat(
+        webRepls.map((id) => ({
+          label: id,
+          description: WEBREPL,
+          picked: isSelected(id) || isTarget({ path: id }),
+        }))
+      )
+      .concat([{ label: ADD_WEBREPL, description: 'Device on Wi-Fi', picked: false }]);
 
     const selected = await vscode.window.showQuickPick(portList, {
       canPickMany: true,
@@ -70,7 +113,7 @@ class PortList {
 
     if (!selected || selected.length === 0) {
       this.selectedCOMs.forEach((com) => {
-        SerialManager.disconnect(com.label);
+        Backend.get(com.label).disconnect(com.label);
       });
       this.selectedCOMs = [];
       StatusBar.clear();
@@ -78,33 +121,84 @@ class PortList {
       return;
     }
 
-    this.selectedCOMs = !selected
-      ? []
-      : selected?.map(({ label, description }) => ({
-          label,
-          description,
-          picked: true,
-        }));
+    const picked = selected.filter(({ label }) => label !== ADD_WEBREPL);
+    if (picked.length < selected.length) {
+      const id = await WebReplDevices.add();
+      if (id && !picked.some(({ label }) => label === id)) {
+        picked.push({ label: id, description: WEBREPL, picked: true });
+      }
+    }
+
+    this.selectedCOMs = picked.map(({ label, description }) => ({
+      label,
+      description,
+      picked: true,
+    }));
 
     this.selectedCOMs.forEach((port) => {
       if (!StatusBar.has(port)) {
         StatusBar.add(port);
-        if (port.picked) {
-          SerialManager.connect(port.label, (err) => {
-            if (!err) {
-              self.tree = new FileTree(this.selectedCOMs);
-            }
-          });
+        if (port.picked && isWebRepl(port.label)) {
+          self._connectWebRepl(port.label);
+        } else if (port.picked) {
+          const info = coms.find(({ path }) => path === port.label);
+          Backend.get(port.label).connect(
+            port.label,
+            (err) => {
+              if (!err) {
+                self._onConnected(port.label);
+              }
+            },
+            ConnectionSettings.get({ path: port.label, serialNumber: info?.serialNumber })
+          );
         }
       }
     });
   }
 
+  async _connectWebRepl(id: string) {
+    const password = (await WebReplDevices.password(id)) ?? '';
+    Backend.get(id).connectWebRepl(id, password, async (err) => {
+      if (!err) {
+        this._onConnected(id);
+        return;
+      }
+      const action = await vscode.window.showErrorMessage(
+        err instanceof Error ? err.message : `Connecting to ${id} failed.`,
+        CHANGE_PASSWORD
+      );
+      // the refused connection is closed already, a new one replaces it
+      if (action === CHANGE_PASSWORD && (await WebReplDevices.askPassword(id)) !== undefined) {
+        this._connectWebRepl(id);
+      }
+    });
+  }
+
+  async _onConnected(com: string) {
+    if (!(await Backend.get(com).ping(com))) {
+      vscode.window.showErrorMessage(
+        `${com} does not respond, make sure the M5Stack is in USB mode or runs MicroPython.`
+      );
+      return;
+    }
+    try {
+      const info = await Backend.get(com).getInfo(com);
+      StatusBar.setDeviceInfo(com, info);
+      const { board } = ProjectConfig.get();
+      if (board && info.board && info.board.toLowerCase().indexOf(board.toLowerCase()) < 0) {
+        vscode.window.showWarningMessage(`${com} is a ${info.board}, the project targets ${board}.`);
+      }
+    } catch (e: any) {
+      console.log('Error while retrieving device info', e.toString());
+    }
+    this.tree = new FileTree(this.selectedCOMs);
+  }
+
   async remove(ev: any) {
     let _ev = Object.assign({}, ev);
     if (ev.path !== undefined) {
       let args = ev.path.split('/');
-      let port = process.platform === 'win32' ? args[1] : `/dev/${args[1]}`;
+      let port = getPortFromPathSegment(args[1], process.platform);
       _ev.com = port;
       _ev.label = args[args.length - 1];
       _ev.parent = `/${args.slice(2, args.length - 1).join('/')}`;
@@ -118,7 +212,7 @@ class PortList {
     );
     const filepath = `${_ev.parent}/${_ev.label}`;
     if (confirm === 'Yes') {
-      let r = await SerialManager.removeFile(_ev.com, `${_ev.parent}/${_ev.label}`);
+      let r = await Backend.get(_ev.com).removeFile(_ev.com, `${_ev.parent}/${_ev.label}`);
       if (!r) {
         vscode.window.showErrorMessage(`Deleting file "${_ev.label}" failed.`);
         return;
@@ -149,7 +243,7 @@ class PortList {
       panel.webview.html = `<h1>Loading</h1>`;
       let base64Image = this.resourceCache[filepath];
       if (!base64Image) {
-        const img = await SerialManager.readFile(port, filepath);
+        const img = await Backend.get(port).readFile(port, filepath);
         base64Image = img.toString('base64');
         this.resourceCache[filepath] = base64Image;
       }
@@ -162,10 +256,9 @@ class PortList {
       panel.webview.html = `<h1>Not supported format</h1>`;
       return;
     }
-    let uri = vscode.Uri.parse(`${DOCUMENT_URI_SCHEME}:/${port}${filepath}`);
+    let uri = this._deviceUri(port, filepath);
 
-    if (!SerialManager.isBusy(port)) {
-      await M5FileSystemProvider.writeFile(uri);
+    if (!Backend.get(port).isBusy(port)) {
       let doc = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(doc, { preview: false });
     } else {
@@ -173,6 +266,74 @@ class PortList {
     }
   }
 
+  /**
+   * Add the flash of a device to the workspace, to browse it in the explorer
+   */
+  addToWorkspace(ev: { label: string }) {
+    const uri = this._deviceUri(ev.label, '/flash');
+    const count = vscode.workspace.workspaceFolders?.length ?? 0;
+    vscode.workspace.updateWorkspaceFolders(count, 0, { uri, name: `M5Stack ${ev.label}` });
+  }
+
+  rename(ev: any) {
+    this._rename(ev);
+  }
+
+  /**
+   * Rename or move a file or folder on the device, through the file system provider so that the
+   * open editors follow it
+   */
+  async _rename(ev: any) {
+    const port = ev.com;
+    const from = `${ev.parent}/${ev.label}`;
+    const extension = ev.contextValue === FILE ? path.extname(ev.label).length : 0;
+    const value = await vscode.window.showInputBox({
+      prompt: `Rename or move '${ev.label}'`,
+      value: from,
+      valueSelection: [ev.parent.length + 1, from.length - extension],
+      validateInput: (input) =>
+        input.trim().startsWith('/') ? undefined : 'Enter a path from the device root, like /flash/main.py',
+    });
+    const to = value?.trim().replace(/\/$/, '');
+    if (!to || to === from) {
+      return;
+    }
+    try {
+      const existing = await Backend.get(port).stat(port, to);
+      if (existing) {
+        const confirm = await vscode.window.showWarningMessage(
+          `'${to}' already exists on ${port}, replace it?`,
+          { modal: true },
+          REPLACE
+        );
+        if (confirm !== REPLACE) {
+          return;
+        }
+      }
+      await this._move(port, from, to, !!existing);
+    } catch (e) {
+      vscode.window.showErrorMessage(`Renaming '${ev.label}' failed: ${errorMessage(e)}`);
+      return;
+    }
+    this.refreshTree();
+  }
+
+  /**
+   * Move a device file or folder through the file system provider, creating the target folder
+   */
+  async _move(port: string, from: string, to: string, overwrite: boolean) {
+    await Backend.get(port).mkdir(port, to.split('/').slice(0, -1).join('/'));
+    const edit = new vscode.WorkspaceEdit();
+    edit.renameFile(this._deviceUri(port, from), this._deviceUri(port, to), { overwrite });
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error(`${from} could not be moved to ${to}`);
+    }
+  }
+
+  _deviceUri(port: string, filepath: string): vscode.Uri {
+    return toDeviceUri(port, filepath);
+  }
+
   reset() {
     this._reset();
   }
@@ -181,13 +342,12 @@ class PortList {
     if (vscode.window.activeTextEditor) {
       const uri = vscode.window.activeTextEditor.document.uri;
       const args = uri.path.split('/');
-      const port = process.platform === 'win32' ? args[1] : `/dev/${args[1]}`;
-      const r = await SerialManager.exec(port, 'machine.reset()');
-
-      if (r?.toString().indexOf('done') < 0) {
-        vscode.window.showErrorMessage('Reset device failed.');
-      } else {
+      const port = getPortFromPathSegment(args[1], process.platform);
+      try {
+        await Backend.reset(port);
         vscode.window.showInformationMessage('Device is resetting.');
+      } catch (e) {
+        vscode.window.showErrorMessage(`Reset device failed: ${errorMessage(e)}`);
       }
     }
   }
@@ -200,10 +360,15 @@ class PortList {
       return;
     }
     let r = Buffer.from([]);
-    if (ev.contextValue === 'COM') {
-      r = await SerialManager.download(ev.label, filename, '', 0x01);
-    } else if (ev.contextValue === 'folder') {
-      r = await SerialManager.download(ev.com, `${ev.parent}/${ev.label}/${filename}`, '', 0x01);
+    try {
+      if (ev.contextValue === 'COM') {
+        r = await Backend.get(ev.label).download(ev.label, filename, '', 0x01);
+      } else if (ev.contextValue === 'folder') {
+        r = await Backend.get(ev.com).download(ev.com, `${ev.parent}/${ev.label}/${filename}`, '', 0x01);
+      }
+    } catch (e) {
+      vscode.window.showErrorMessage(`Create "${filename}" failed: ${errorMessage(e)}`);
+      return;
     }
     if (r?.toString().indexOf('done') < 0) {
       vscode.window.showErrorMessage(`Create "${filename}" failed.`);
@@ -214,7 +379,11 @@ class PortList {
   }
 
   async upload(ev: any) {
-    let file = await vscode.window.showOpenDialog({});
+    const project = ProjectConfig.get();
+    const localRoot = ProjectConfig.localRoot(project);
+    let file = await vscode.window.showOpenDialog(
+      localRoot ? { defaultUri: vscode.Uri.file(localRoot) } : {}
+    );
     if (!file) {
       return;
     }
@@ -224,60 +393,138 @@ class PortList {
       vscode.window.showErrorMessage(`File name is too long (max 28 characters).`);
     }
 
+    let content: Buffer;
     try {
-      const content =
+      content =
         process.platform === 'win32'
           ? fs.readFileSync(path.join(file[0].path.slice(1)))
           : fs.readFileSync(path.join(file[0].path));
+    } catch (e: any) {
+      console.log('Error while uploading', e.toString());
+      vscode.window.showErrorMessage(`Upload failed.`);
+      return;
+    }
 
-      const contextValue = ev.contextValue;
-      const isDirectory = contextValue === 'COM';
-      const port = isDirectory ? ev.label : ev.com;
-      const filepath = isDirectory ? filename : `${ev.parent}/${ev.label}/${filename}`;
+    const contextValue = ev.contextValue;
+    const isDirectory = contextValue === 'COM';
+    const port = isDirectory ? ev.label : ev.com;
+    const root = project.deviceRoot ? `${project.deviceRoot.replace(/\/$/, '')}/` : '';
+    const filepath = isDirectory ? `${root}${filename}` : `${ev.parent}/${ev.label}/${filename}`;
 
+    if (!(await this._fits(port, filepath, content))) {
+      return;
+    }
+    await this._upload(ev, port, filepath, content);
+  }
+
+  /**
+   * Whether to go on with an upload, asking first when the file is larger than the space left
+   */
+  async _fits(port: string, filepath: string, content: Buffer): Promise<boolean> {
+    const mountpoint = filepath.startsWith('/sd/') ? '/sd' : '/flash';
+    let usage;
+    try {
+      usage = await Backend.get(port).statvfs(port, mountpoint);
+    } catch (e: any) {
+      console.log('Error while reading the space left', e.toString());
+    }
+    if (!usage || content.length <= usage.free) {
+      return true;
+    }
+    const filename = filepath.split('/').slice(-1)[0];
+    const action = await vscode.window.showWarningMessage(
+      `'${filename}' (${formatBytes(content.length)}) will not fit in the ${formatBytes(
+        usage.free
+      )} left on ${mountpoint} of ${port}.`,
+      { modal: true },
+      UPLOAD_ANYWAY
+    );
+    return action === UPLOAD_ANYWAY;
+  }
+
+  async _upload(ev: any, port: string, filepath: string, content: Buffer, resumeFrom?: number) {
+    const filename = filepath.split('/').slice(-1)[0];
+    try {
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          cancellable: false,
+          cancellable: true,
           title: `Uploading '${filename}.'`,
         },
-        async (progress) => {
+        async (progress, token) => {
           progress.report({ increment: 0 });
 
-          const numChunks = Math.ceil(content.length / MAX_CHUNK_LENGTH);
-          const increment = +(100 / numChunks).toFixed(2);
-
-          let r = await SerialManager.bulkDownload(port, filepath, content, false, () => {
-            progress.report({ increment });
-          });
+          let r = await Backend.get(port).bulkDownload(
+            port,
+            filepath,
+            content,
+            false,
+            reportUpload(progress),
+            token,
+            getUploadOptions(resumeFrom)
+          );
 
           if (r.toString().indexOf('done') >= 0) {
-            progress.report({ increment: 100 });
             M5FileSystemProvider.removeCache(`/${ev.com}${ev.parent}/${ev.label}/${filename}`);
             this.refreshTree();
           }
         }
       );
     } catch (e: any) {
+      if (e instanceof SerialUploadError) {
+        await recoverUpload(port, e, (offset) => this._upload(ev, port, filepath, content, offset));
+        this.refreshTree();
+        return;
+      }
       console.log('Error while uploading', e.toString());
       vscode.window.showErrorMessage(`Upload failed.`);
     }
   }
 
   async run() {
-    if (vscode.window.activeTextEditor) {
-      const document = vscode.window.activeTextEditor.document;
-      const uri = document.uri;
-      const text = trimComments(document.getText());
-      console.log('executing following code', text);
-      const { port } = getSerialPortAndFileFromUri(uri, process.platform);
-      const r = await SerialManager.exec(port, text);
-      if (r?.toString().indexOf('done') < 0) {
-        vscode.window.showErrorMessage('Run failed.');
-      } else {
-        vscode.window.showInformationMessage('Run successfully.');
+    const document = vscode.window.activeTextEditor?.document;
+    if (document && document.uri.scheme !== 'file') {
+      const { port } = getSerialPortAndFileFromUri(document.uri, process.platform);
+      await this._run(port, document.getText());
+      return;
+    }
+    // workspace code runs on the project device, the project entry file when no python file is edited
+    const { entry } = ProjectConfig.get();
+    const localRoot = ProjectConfig.localRoot();
+    let code = document?.getText();
+    const editingPython = document?.languageId === 'python' || /\.py$/i.test(document?.fileName ?? '');
+    if (entry && localRoot && !editingPython) {
+      try {
+        code = (await fs.promises.readFile(path.join(localRoot, entry))).toString();
+      } catch (e) {
+        vscode.window.showErrorMessage(`Cannot read the entry file ${entry}.`);
+        return;
       }
     }
+    if (code === undefined) {
+      return;
+    }
+    const port = await this.pickDevice();
+    if (port) {
+      await this._run(port, code);
+    }
+  }
+
+  async _run(port: string, code: string) {
+    const text = trimComments(code);
+    console.log('executing following code', text);
+    let error: string;
+    try {
+      ({ error } = await Backend.get(port).execute(port, text));
+    } catch (e) {
+      vscode.window.showErrorMessage(`Run failed: ${errorMessage(e)}`);
+      return;
+    }
+    if (error) {
+      vscode.window.showErrorMessage(`Run failed: ${describeFailure(error)}`);
+    } else {
+      vscode.window.showInformationMessage('Run successfully.');
+    }
   }
 
   refreshTree() {
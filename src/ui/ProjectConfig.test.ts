@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import SerialConnection from '../serial/SerialConnection';
+import ProjectConfig, { PROJECT_FILE } from './ProjectConfig';
+
+describe('ProjectConfig', () => {
+  let directory: string;
+
+  const writeProject = (project: unknown) =>
+    fs.writeFileSync(path.join(directory, PROJECT_FILE), JSON.stringify(project));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'm5stack-project-'));
+    // @ts-ignore
+    vscode.workspace.workspaceFolders = [{ uri: { fsPath: directory } }];
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    // @ts-ignore
+    vscode.workspace.workspaceFolders = [];
+  });
+
+  describe('get', () => {
+    test('should read the project file of the workspace folder', () => {
+      // ARRANGE
+      writeProject({ localRoot: 'src', entry: 'app.py' });
+
+      // ACT
+      const project = ProjectConfig.get();
+
+      // ASSERT
+      expect(project).toStrictEqual({ localRoot: 'src', entry: 'app.py' });
+      expect(ProjectConfig.localRoot(project)).toBe(path.join(directory, 'src'));
+    });
+
+    test('should default without a project file', () => {
+      // ACT
+      const project = ProjectConfig.get();
+
+      // ASSERT
+      expect(project).toStrictEqual({});
+      expect(ProjectConfig.localRoot(project)).toBe(directory);
+    });
+
+    test('should report an invalid project file once', () => {
+      // ARRANGE
+      fs.writeFileSync(path.join(directory, PROJECT_FILE), '{ "entry": ');
+      const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      const project = ProjectConfig.get();
+      ProjectConfig.get();
+
+      // ASSERT
+      expect(project).toStrictEqual({});
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('validation', () => {
+    test('should report a field of the wrong type', () => {
+      // ARRANGE
+      writeProject({ ignore: '*.pyc' });
+      const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      const project = ProjectConfig.get();
+
+      // ASSERT
+      expect(project).toStrictEqual({});
+      expect(spy).toHaveBeenCalledWith('.m5stack.json is ignored: "ignore" should be an array of strings');
+    });
+
+    test('should report a nested field outside its enum', () => {
+      // ARRANGE
+      writeProject({ serial: { baudRate: 9600, parity: 'bad' } });
+      const spy = jest.spyOn(vscode.window, 'showErrorMessage');
+
+      // ACT
+      const project = ProjectConfig.get();
+
+      // ASSERT
+      expect(project).toStrictEqual({});
+      expect(spy).toHaveBeenCalledWith(
+        '.m5stack.json is ignored: "serial.parity" should be one of none, even, odd, mark, space'
+      );
+    });
+  });
+
+  describe('findTarget', () => {
+    test('should find the project device by port', async () => {
+      // ARRANGE
+      writeProject({ device: { port: '/dev/device2' } });
+
+      // ACT
+      const target = await ProjectConfig.findTarget(['/dev/device1', '/dev/device2']);
+
+      // ASSERT
+      expect(target).toBe('/dev/device2');
+    });
+
+    test('should find the project device by USB serial number', async () => {
+      // ARRANGE
+      writeProject({ device: { serialNumber: 'ABC123' } });
+      jest.spyOn(SerialConnection, 'getCOMs').mockResolvedValue([
+        {
+          path: '/dev/device1',
+          manufacturer: undefined,
+          serialNumber: 'ABC123',
+          pnpId: undefined,
+          locationId: undefined,
+          productId: undefined,
+          vendorId: undefined,
+        },
+      ]);
+
+      // ACT
+      const target = await ProjectConfig.findTarget(['/dev/device2', '/dev/device1']);
+
+      // ASSERT
+      expect(target).toBe('/dev/device1');
+    });
+
+    test('should not find a device without one in the project', async () => {
+      // ARRANGE
+      writeProject({ entry: 'main.py' });
+
+      // ACT
+      const target = await ProjectConfig.findTarget(['/dev/device1']);
+
+      // ASSERT
+      expect(target).toBe(undefined);
+    });
+  });
+});
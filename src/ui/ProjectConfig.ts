@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import SerialConnection from '../serial/SerialConnection';
+import { ConfiguredSettings } from './ConnectionSettings';
+
+export const PROJECT_FILE = '.m5stack.json';
+
+// Contents of .m5stack.json, see resources/m5stack.schema.json
+export interface Project {
+  device?: {
+    port?: string;
+    serialNumber?: string;
+  };
+  localRoot?: string;
+  deviceRoot?: string;
+  ignore?: string[];
+  entry?: string;
+  board?: string;
+  serial?: ConfiguredSettings;
+}
+
+// type of a field of the project file, the allowed values of an enum, or the fields of an object
+type FieldRule = 'string' | 'number' | 'boolean' | 'strings' | unknown[] | { [key: string]: FieldRule };
+
+// fields of resources/m5stack.schema.json
+const PROJECT_RULES: { [key: string]: FieldRule } = {
+  device: { port: 'string', serialNumber: 'string' },
+  localRoot: 'string',
+  deviceRoot: 'string',
+  ignore: 'strings',
+  entry: 'string',
+  board: 'string',
+  serial: {
+    baudRate: 'number',
+    dataBits: [5, 6, 7, 8],
+    parity: ['none', 'even', 'odd', 'mark', 'space'],
+    rtscts: 'boolean',
+    dtr: ['unchanged', 'high', 'low'],
+    rts: ['unchanged', 'high', 'low'],
+    pipelineDepth: 'number',
+    transport: ['auto', 'uiflow', 'rawRepl'],
+  },
+};
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && !!value && !Array.isArray(value);
+
+/**
+ * Throw the first field of an object whose value does not have the type of its rule
+ */
+const checkFields = (value: { [key: string]: unknown }, rules: { [key: string]: FieldRule }, prefix = '') => {
+  Object.keys(rules).forEach((key) => {
+    const field = value[key];
+    const rule = rules[key];
+    const name = `"${prefix}${key}"`;
+    if (field === undefined) {
+      return;
+    }
+    if (Array.isArray(rule)) {
+      if (!rule.includes(field)) {
+        throw new Error(`${name} should be one of ${rule.join(', ')}`);
+      }
+    } else if (rule === 'strings') {
+      if (!Array.isArray(field) || field.some((item) => typeof item !== 'string')) {
+        throw new Error(`${name} should be an array of strings`);
+      }
+    } else if (typeof rule === 'object') {
+      if (!isObject(field)) {
+        throw new Error(`${name} should be an object`);
+      }
+      checkFields(field, rule, `${prefix}${key}.`);
+    } else if (typeof field !== rule) {
+      throw new Error(`${name} should be a ${rule}`);
+    }
+  });
+};
+
+type PortIdentity = {
+  path: string;
+  serialNumber?: string;
+};
+
+/**
+ * Device setup stored with the project in the .m5stack.json file of the first workspace folder,
+ * read again on each use so edits apply right away
+ */
+class ProjectConfig {
+  // last error reported, not shown again until the file changes
+  private reported: string | undefined;
+
+  get(): Project {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      return {};
+    }
+    const filename = path.join(workspaceFolder.uri.fsPath, PROJECT_FILE);
+    let text: string;
+    try {
+      text = fs.readFileSync(filename).toString();
+    } catch (e) {
+      return {};
+    }
+    try {
+      const project = JSON.parse(text);
+      if (!isObject(project)) {
+        throw new Error('an object is expected');
+      }
+      checkFields(project, PROJECT_RULES);
+      this.reported = undefined;
+      return project;
+    } catch (e) {
+      const message = `${PROJECT_FILE} is ignored: ${e instanceof Error ? e.message : e}`;
+      if (this.reported !== message) {
+        this.reported = message;
+        vscode.window.showErrorMessage(message);
+      }
+      return {};
+    }
+  }
+
+  /**
+   * Local folder holding the device files, the workspace folder when the project sets none
+   */
+  localRoot(project: Project = this.get()): string | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return workspaceFolder ? path.resolve(workspaceFolder.uri.fsPath, project.localRoot ?? '') : undefined;
+  }
+
+  /**
+   * Whether the port is the device of the project
+   */
+  isTarget(port: PortIdentity, project: Project = this.get()): boolean {
+    const { device } = project;
+    if (!device) {
+      return false;
+    }
+    return (
+      (!!device.port && device.port === port.path) ||
+      (!!device.serialNumber && device.serialNumber === port.serialNumber)
+    );
+  }
+
+  /**
+   * The device of the project among the connected ones
+   */
+  async findTarget(coms: string[]): Promise<string | undefined> {
+    const project = this.get();
+    if (!project.device) {
+      return undefined;
+    }
+    const byPort = coms.find((com) => this.isTarget({ path: com }, project));
+    if (byPort || !project.device.serialNumber) {
+      return byPort;
+    }
+    const ports = await SerialConnection.getCOMs();
+    return coms.find((com) =>
+      this.isTarget(
+        { path: com, serialNumber: ports.find((port) => port.path === com)?.serialNumber },
+        project
+      )
+    );
+  }
+}
+
+export default new ProjectConfig();
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import ProtocolTrace from '../serial/ProtocolTrace';
+import ProtocolTraceChannel from './ProtocolTraceChannel';
+
+jest.mock('fs', () => ({
+  writeFileSync: jest.fn(),
+}));
+
+describe('ProtocolTraceChannel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    ProtocolTrace.verbosity = 'off';
+  });
+
+  test('should log traced frames to the output channel', () => {
+    // ARRANGE
+    const appendLine = jest.fn();
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'createOutputChannel').mockReturnValue({ appendLine, dispose: jest.fn() });
+    jest
+      .spyOn(vscode.workspace, 'getConfiguration')
+      .mockReturnValue({ get: jest.fn(() => 'summary') } as unknown as vscode.WorkspaceConfiguration);
+    const disposable = ProtocolTraceChannel.init();
+
+    // ACT
+    ProtocolTrace.request('COM3', Buffer.from([0x00, 0x12, 0x34]));
+    disposable.dispose();
+    ProtocolTrace.request('COM3', Buffer.from([0x00, 0x12, 0x34]));
+
+    // ASSERT
+    expect(vscode.window.createOutputChannel).toHaveBeenCalledWith('M5Stack Protocol');
+    expect(appendLine).toHaveBeenCalledTimes(1);
+  });
+
+  test('should export the session trace to the chosen file', async () => {
+    // ARRANGE
+    ProtocolTrace.verbosity = 'summary';
+    ProtocolTraceChannel.append({
+      time: 0,
+      com: 'COM3',
+      direction: 'out',
+      code: 0x00,
+      data: Buffer.from([0]),
+      crc: true,
+    });
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showSaveDialog').mockResolvedValue({ fsPath: '/tmp/trace.log' });
+
+    let file = '';
+    let text = '';
+    // @ts-ignore
+    jest.spyOn(fs, 'writeFileSync').mockImplementation((path: string, data: string) => {
+      file = path;
+      text = data;
+    });
+
+    // ACT
+    await ProtocolTraceChannel._exportSession();
+
+    // ASSERT
+    expect(file).toBe('/tmp/trace.log');
+    expect(text.endsWith('1970-01-01T00:00:00.000Z COM3 --> isOnline (0x00) 1 bytes, crc ok\n')).toBe(true);
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'Protocol trace saved to /tmp/trace.log.'
+    );
+  });
+});
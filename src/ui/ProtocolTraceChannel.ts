@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import ProtocolTrace, { formatTraceEntry, TraceEntry, TraceVerbosity } from '../serial/ProtocolTrace';
+
+const CHANNEL_NAME = 'M5Stack Protocol';
+const VERBOSITY_SETTING = 'm5stack.trace.verbosity';
+const LOG_FILTER = 'Log files';
+// entries kept for the session export, older ones are dropped first
+const MAX_SESSION_ENTRIES = 20000;
+
+class ProtocolTraceChannel {
+  private channel: vscode.OutputChannel | undefined;
+  private session: string[] = [];
+
+  init(): vscode.Disposable {
+    this.applyVerbosity();
+    const trace = ProtocolTrace.onTrace((entry) => this.append(entry));
+    const configuration = vscode.workspace.onDidChangeConfiguration((ev) => {
+      if (ev.affectsConfiguration(VERBOSITY_SETTING)) {
+        this.applyVerbosity();
+      }
+    });
+    return {
+      dispose: () => {
+        trace.dispose();
+        configuration.dispose();
+        this.channel?.dispose();
+        this.channel = undefined;
+      },
+    };
+  }
+
+  applyVerbosity() {
+    const config = vscode.workspace.getConfiguration('m5stack.trace');
+    ProtocolTrace.verbosity = config.get<TraceVerbosity>('verbosity', 'off');
+  }
+
+  append(entry: TraceEntry) {
+    const text = formatTraceEntry(entry, ProtocolTrace.verbosity);
+    this.session.push(text);
+    if (this.session.length > MAX_SESSION_ENTRIES) {
+      this.session.shift();
+    }
+    if (!this.channel) {
+      this.channel = vscode.window.createOutputChannel(CHANNEL_NAME);
+    }
+    this.channel.appendLine(text);
+  }
+
+  exportSession() {
+    this._exportSession();
+  }
+
+  async _exportSession() {
+    if (!this.session.length) {
+      vscode.window.showInformationMessage(
+        `No protocol trace recorded yet, set "${VERBOSITY_SETTING}" to trace the next commands.`
+      );
+      return;
+    }
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), `m5stack-trace-${stamp}.log`)),
+      filters: { [LOG_FILTER]: ['log', 'txt'] },
+    });
+    if (!uri) {
+      return;
+    }
+    try {
+      fs.writeFileSync(uri.fsPath, `${this.session.join('\n')}\n`);
+    } catch (e: any) {
+      console.log('Error while exporting protocol trace', e.toString());
+      vscode.window.showErrorMessage(`Export protocol trace to ${uri.fsPath} failed.`);
+      return;
+    }
+    vscode.window.showInformationMessage(`Protocol trace saved to ${uri.fsPath}.`);
+  }
+}
+
+export default new ProtocolTraceChannel();
@@ -5,6 +5,8 @@ import StatusBar, { DISCONNECT, RESET } from './StatusBar';
 jest.mock('../serial/SerialManager', () => ({
   disconnect: jest.fn(),
   exec: () => Promise.resolve(Buffer.from('done')),
+  onQueueChange: jest.fn(),
+  onStateChange: jest.fn(),
   removeFile: jest.fn(),
 }));
 jest.mock('./PortList', () => ({
@@ -63,6 +65,58 @@ describe('StatusBar', () => {
     expect(StatusBar.items.length).toBe(0);
   });
 
+  test('should show queue depth on device item', () => {
+    // ARRANGE
+    StatusBar.add({ label: 'm5stack', description: 'my m5', picked: true });
+
+    // ACT
+    StatusBar.updateQueueDepth('m5stack', 3);
+
+    // ASSERT
+    expect(StatusBar.items[0].text).toBe('$(sync~spin) m5stack (3)');
+    expect(StatusBar.items[0].tooltip).toBe('2 command(s) waiting for m5stack');
+  });
+
+  test('should restore device item when queue is empty', () => {
+    // ARRANGE
+    StatusBar.add({ label: 'm5stack', description: 'my m5', picked: true });
+    StatusBar.updateQueueDepth('m5stack', 3);
+
+    // ACT
+    StatusBar.updateQueueDepth('m5stack', 0);
+
+    // ASSERT
+    expect(StatusBar.items[0].text).toBe('m5stack');
+  });
+
+  test('should show device info in item tooltip', () => {
+    // ARRANGE
+    StatusBar.add({ label: 'm5stack', description: 'my m5', picked: true });
+
+    // ACT
+    StatusBar.setDeviceInfo('m5stack', { firmware: 'v1.7.5', board: 'M5Stack-Core', raw: '' });
+
+    // ASSERT
+    expect(StatusBar.items[0].tooltip).toBe('M5Stack-Core v1.7.5');
+  });
+
+  test('should show disconnected and reconnecting devices', () => {
+    // ARRANGE
+    StatusBar.add({ label: 'm5stack', description: 'my m5', picked: true });
+
+    // ACT
+    StatusBar.updateState('m5stack', 'disconnected');
+    const disconnected = StatusBar.items[0].text;
+    StatusBar.updateState('m5stack', 'reconnecting');
+    const reconnecting = StatusBar.items[0].text;
+    StatusBar.updateState('m5stack', 'connected');
+
+    // ASSERT
+    expect(disconnected).toBe('$(debug-disconnect) m5stack');
+    expect(reconnecting).toBe('$(plug) m5stack');
+    expect(StatusBar.items[0].text).toBe('m5stack');
+  });
+
   describe('actions', () => {
     test('should reset device', async () => {
       // ARRANGE
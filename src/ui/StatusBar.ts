@@ -1,16 +1,32 @@
 import * as vscode from 'vscode';
-import SerialManager from '../serial/SerialManager';
+import { describeDevice } from '../serial/DeviceInfo';
+import Backend from '../adapters/Backend';
+import { ConnectionState, DeviceInfo } from '../serial/types';
+import { errorMessage } from '../utils/errors';
+import { isWebRepl } from '../serial/WebRepl';
+import ConnectionSettings from './ConnectionSettings';
 import PortList from './PortList';
 import { PickedItem } from './types';
+import WifiConfig from './WifiConfig';
 
 export const RESET = 'Reset';
 export const DISCONNECT = 'Disconnect';
+export const CONFIGURE_WIFI = 'Configure Wi-Fi';
+export const CONNECTION_SETTINGS = 'Connection settings';
 
 const options = [
   {
     label: RESET,
     description: 'Reset device',
   },
+  {
+    label: CONFIGURE_WIFI,
+    description: 'Set the Wi-Fi network of the device',
+  },
+  {
+    label: CONNECTION_SETTINGS,
+    description: 'Baud rate, parity, flow control...',
+  },
   {
     label: DISCONNECT,
     description: 'Disconnect M5Stack',
@@ -20,12 +36,18 @@ const options = [
 class StatusBar {
   private comList: vscode.StatusBarItem[] = [];
   private comListCommands: vscode.Disposable[] = [];
+  private queueDepths: { [com: string]: number } = {};
+  private deviceInfos: { [com: string]: DeviceInfo } = {};
+  private states: { [com: string]: ConnectionState } = {};
 
   constructor() {
     const item = vscode.window.createStatusBarItem();
     item.text = `Add M5Stack`;
     item.command = `vscode-m5stack-mpyreader.selectPorts`;
     item.show();
+
+    Backend.onQueueChange((com, depth) => this.updateQueueDepth(com, depth));
+    Backend.onStateChange((com, state) => this.updateState(com, state));
   }
 
   add(com: PickedItem) {
@@ -52,6 +74,9 @@ class StatusBar {
     const index = this.comList.findIndex((comElt) => comElt.name === com);
     if (index > -1) {
       this.comList[index].dispose();
+      delete this.queueDepths[com];
+      delete this.deviceInfos[com];
+      delete this.states[com];
       this.comListCommands[index].dispose();
       this.comList.splice(index, 1);
       this.comListCommands.splice(index, 1);
@@ -63,33 +88,85 @@ class StatusBar {
     this.comListCommands.forEach((item) => item.dispose());
     this.comList = [];
     this.comListCommands = [];
+    this.queueDepths = {};
+    this.deviceInfos = {};
+    this.states = {};
   }
 
   has(com: PickedItem) {
     return (
       this.comList.findIndex((comElt) => {
-        return comElt.text === com.label;
+        return comElt.name === com.label;
       }) > -1
     );
   }
 
+  updateQueueDepth(com: string, depth: number) {
+    this.queueDepths[com] = depth;
+    this._refresh(com);
+  }
+
+  updateState(com: string, state: ConnectionState) {
+    this.states[com] = state;
+    this._refresh(com);
+  }
+
+  setDeviceInfo(com: string, info: DeviceInfo) {
+    this.deviceInfos[com] = info;
+    this._refresh(com);
+  }
+
+  _refresh(com: string) {
+    const item = this.comList.find((comElt) => comElt.name === com);
+    if (!item) {
+      return;
+    }
+    const depth = this.queueDepths[com] || 0;
+    const tooltip = [describeDevice(this.deviceInfos[com])];
+    switch (this.states[com]) {
+      case 'disconnected':
+        item.text = `$(debug-disconnect) ${com}`;
+        tooltip.push(`${com} is disconnected, waiting for it to come back`);
+        break;
+      case 'reconnecting':
+        item.text = `$(plug) ${com}`;
+        tooltip.push(`Reconnecting to ${com}`);
+        break;
+      default:
+        item.text = depth > 0 ? `$(sync~spin) ${com} (${depth})` : com;
+        if (depth > 1) {
+          tooltip.push(`${depth - 1} command(s) waiting for ${com}`);
+        }
+        break;
+    }
+    item.tooltip = tooltip.filter((line) => !!line).join('\n') || undefined;
+  }
+
   async _selectAction(com: string) {
-    const deviceSelectedAction = await vscode.window.showQuickPick(options);
+    // serial port settings do not apply to WebREPL devices
+    const deviceSelectedAction = await vscode.window.showQuickPick(
+      isWebRepl(com) ? options.filter(({ label }) => label !== CONNECTION_SETTINGS) : options
+    );
     if (!deviceSelectedAction) {
       return;
     }
     switch (deviceSelectedAction.label) {
       case RESET:
-        const r = await SerialManager.exec(com, 'machine.reset()');
-
-        if (!r) {
-          vscode.window.showErrorMessage('Reset device failed.');
-        } else {
+        try {
+          await Backend.reset(com);
           vscode.window.showInformationMessage('Device is resetting.');
+        } catch (e) {
+          vscode.window.showErrorMessage(`Reset device failed: ${errorMessage(e)}`);
         }
         break;
+      case CONFIGURE_WIFI:
+        await WifiConfig._configure(com);
+        break;
+      case CONNECTION_SETTINGS:
+        await ConnectionSettings._edit(com);
+        break;
       case DISCONNECT:
-        SerialManager.disconnect(com);
+        Backend.get(com).disconnect(com);
         this.remove(com);
         PortList.removeSelectedComs(com);
         PortList.refreshTree();
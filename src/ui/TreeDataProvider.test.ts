@@ -1,7 +1,15 @@
 import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
 import { COM, FILE, FOLDER, Icons, M5FSResource, M5TreeDataProvider } from './TreeDataProvider';
 jest.mock('../serial/SerialManager', () => ({
-  listDir: () => Promise.resolve(['file1.py', 'directory']),
+  deviceInfo: jest.fn(),
+  listDir: () =>
+    Promise.resolve([
+      { name: 'file1.py', type: 'file', size: 12, mtime: 0 },
+      { name: 'v1.2', type: 'directory', size: 0, mtime: 0 },
+      { name: 'LICENSE', type: 'file', size: 1024, mtime: 0 },
+    ]),
+  statvfs: jest.fn(),
 }));
 
 describe('TreeDataProvider', () => {
@@ -60,6 +68,21 @@ describe('TreeDataProvider', () => {
       expect(res.parent).toBe('');
       expect(res.tooltip).toBe('file.jpg-version');
     });
+    test('should give files without an icon their device uri', () => {
+      // ACT
+      const res = new M5FSResource(
+        'LICENSE',
+        '',
+        '/flash',
+        'COM3',
+        FILE,
+        vscode.TreeItemCollapsibleState.None
+      );
+
+      // ASSERT
+      expect(res.iconPath).toBe(vscode.ThemeIcon.File);
+      expect(vscode.Uri.parse).toHaveBeenCalledWith('m5stackfs:/COM3/flash/LICENSE');
+    });
     test('should create folder fs resource', () => {
       // ACT
       const res = new M5FSResource(
@@ -136,6 +159,41 @@ describe('TreeDataProvider', () => {
         new M5FSResource('device2', '', '', 'device2', COM, vscode.TreeItemCollapsibleState.Collapsed),
       ]);
     });
+    test('should show device info on tree roots', async () => {
+      // ARRANGE
+      jest
+        .spyOn(SerialManager, 'deviceInfo')
+        .mockReturnValueOnce({ firmware: 'v1.7.5', board: 'M5Stack-Core', raw: '' });
+      const provider = new M5TreeDataProvider(['device1']);
+
+      // ACT
+      const rootNode = await provider._getChildrenCom(undefined);
+
+      // ASSERT
+      expect(rootNode[0].description).toBe('M5Stack-Core v1.7.5');
+    });
+    test('should show the used and free space on tree roots once read', async () => {
+      // ARRANGE
+      jest
+        .spyOn(SerialManager, 'statvfs')
+        .mockImplementation((com, mountpoint) =>
+          Promise.resolve(mountpoint === '/flash' ? { total: 2 * 1024 * 1024, free: 1536 * 1024 } : undefined)
+        );
+      const provider = new M5TreeDataProvider(['device3']);
+      const changes: unknown[] = [];
+      provider.onDidChangeTreeData((node) => changes.push(node));
+
+      // ACT
+      const pending = await provider._getChildrenCom(undefined);
+      await new Promise((resolve) => setImmediate(resolve));
+      const rootNode = await provider._getChildrenCom(undefined);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // ASSERT
+      expect(pending[0].description).toBe('');
+      expect(rootNode[0].description).toBe('flash 512.0 KB used, 1.5 MB free');
+      expect(changes).toStrictEqual([undefined]);
+    });
     test('should build resource children', async () => {
       // ARRANGE
       const provider = new M5TreeDataProvider(['device1']);
@@ -153,21 +211,50 @@ describe('TreeDataProvider', () => {
 
       // ASSERT
       const expectedChildResources = [
-        new M5FSResource('file1.py', '', '/flash', '/dev/tty', FILE, vscode.TreeItemCollapsibleState.None, {
-          command: 'extension.openSelection',
-          title: 'readFile',
-          arguments: ['/dev/tty', `/flash/file1.py`],
-        }),
         new M5FSResource(
-          'directory',
+          'file1.py',
+          '',
+          '/flash',
+          '/dev/tty',
+          FILE,
+          vscode.TreeItemCollapsibleState.None,
+          {
+            command: 'extension.openSelection',
+            title: 'readFile',
+            arguments: ['/dev/tty', `/flash/file1.py`],
+          },
+          { name: 'file1.py', type: 'file', size: 12, mtime: 0 }
+        ),
+        new M5FSResource(
+          'v1.2',
           '',
           '/flash',
           '/dev/tty',
           FOLDER,
-          vscode.TreeItemCollapsibleState.Collapsed
+          vscode.TreeItemCollapsibleState.Collapsed,
+          undefined,
+          { name: 'v1.2', type: 'directory', size: 0, mtime: 0 }
+        ),
+        new M5FSResource(
+          'LICENSE',
+          '',
+          '/flash',
+          '/dev/tty',
+          FILE,
+          vscode.TreeItemCollapsibleState.None,
+          {
+            command: 'extension.openSelection',
+            title: 'readFile',
+            arguments: ['/dev/tty', `/flash/LICENSE`],
+          },
+          { name: 'LICENSE', type: 'file', size: 1024, mtime: 0 }
         ),
       ];
       expect(rootNode).toStrictEqual(expectedChildResources);
+      expect(rootNode[0].tooltip).toBe('file1.py (12 B)');
+      expect(rootNode[0].description).toBe('12 B');
+      expect(rootNode[1].description).toBe('');
+      expect(rootNode[2].iconPath).toBe(vscode.ThemeIcon.File);
     });
   });
 });
@@ -1,6 +1,10 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import SerialManager from '../serial/SerialManager';
+import { describeDevice } from '../serial/DeviceInfo';
+import Backend from '../adapters/Backend';
+import { toDeviceUri } from '../providers/M5FileSystemProvider';
+import { DirectoryEntry, StorageUsage } from '../serial/types';
+import { formatBytes } from '../utils/text';
 
 export const FILE = 'file';
 export const FOLDER = 'folder';
@@ -15,6 +19,23 @@ export enum Icons {
 
 type DeviceContext = typeof FILE | typeof FOLDER | typeof COM;
 
+// file systems shown on the device nodes, the SD card only when one is mounted
+const MOUNTPOINTS = ['/flash', '/sd'];
+
+// last space used and free read on each device, the tree is built again on every refresh
+const storages: Map<string, string[]> = new Map();
+
+const describeEntry = (entry: DirectoryEntry): string => {
+  if (entry.type === 'directory') {
+    return entry.name;
+  }
+  const modified = entry.mtime ? `, modified ${new Date(entry.mtime).toLocaleString()}` : '';
+  return `${entry.name} (${formatBytes(entry.size)}${modified})`;
+};
+
+const describeUsage = (mountpoint: string, usage: StorageUsage): string =>
+  `${mountpoint.slice(1)} ${formatBytes(usage.total - usage.free)} used, ${formatBytes(usage.free)} free`;
+
 export class M5FSResource extends vscode.TreeItem {
   public icon: string = '';
   constructor(
@@ -24,11 +45,12 @@ export class M5FSResource extends vscode.TreeItem {
     public com: string,
     public contextValue: DeviceContext,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public command?: vscode.Command
+    public command?: vscode.Command,
+    public readonly entry?: DirectoryEntry
   ) {
     super(label, collapsibleState);
-    this.tooltip = `${this.label}-${this.version}`;
-    this.description = this.version;
+    this.tooltip = entry ? describeEntry(entry) : `${this.label}-${this.version}`;
+    this.description = entry?.type === 'file' ? formatBytes(entry.size) : this.version;
     this.parent = parent;
     this.com = com;
     this.contextValue = contextValue;
@@ -36,7 +58,7 @@ export class M5FSResource extends vscode.TreeItem {
 
     switch (contextValue) {
       case FILE: {
-        if (this.label.indexOf('.py') > -1) {
+        if (/\.py$/.test(this.label.toLowerCase())) {
           this.icon = Icons.python;
         }
         if (/(.jpg)|(.jpeg)|(.bmp)|(.png)|(.gif)/g.test(this.label.toLowerCase())) {
@@ -54,6 +76,12 @@ export class M5FSResource extends vscode.TreeItem {
       }
     }
 
+    if (!this.icon) {
+      // icon of the file type from the icon theme, the uri is the one the file opens with
+      this.resourceUri = toDeviceUri(com, `${parent}/${label}`);
+      this.iconPath = vscode.ThemeIcon.File;
+      return;
+    }
     this.iconPath = {
       light: vscode.Uri.file(path.join(__filename, '..', '..', 'resources', 'light', this.icon)),
       dark: vscode.Uri.file(path.join(__filename, '..', '..', 'resources', 'dark', this.icon)),
@@ -61,7 +89,31 @@ export class M5FSResource extends vscode.TreeItem {
   }
 }
 
+/**
+ * Nodes a tree command applies to: the whole selection when the clicked node is part of it,
+ * the clicked node otherwise
+ */
+export const selectedNodes = (ev: M5FSResource, selected?: M5FSResource[]): M5FSResource[] =>
+  Array.isArray(selected) && selected.includes(ev) ? selected : [ev];
+
+/**
+ * Selected nodes without the ones inside a selected folder, which go with it
+ */
+export const topmostNodes = (nodes: M5FSResource[]): M5FSResource[] =>
+  nodes.filter(
+    (node) =>
+      !nodes.some(
+        (other) =>
+          other.contextValue === FOLDER &&
+          other.com === node.com &&
+          `${node.parent}/`.startsWith(`${other.parent}/${other.label}/`)
+      )
+  );
+
 export class M5TreeDataProvider implements vscode.TreeDataProvider<M5FSResource> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<M5FSResource | undefined>();
+  readonly onDidChangeTreeData: vscode.Event<M5FSResource | undefined> = this._onDidChangeTreeData.event;
+
   constructor(private coms: string[]) {}
 
   getChildren(element?: M5FSResource): Thenable<M5FSResource[]> {
@@ -82,9 +134,15 @@ export class M5TreeDataProvider implements vscode.TreeDataProvider<M5FSResource>
     // Root to display COM devices
     if (!element) {
       for (let i = 0; i < this.coms.length; i++) {
+        // the space is read in the background, a slow device would keep the tree empty
+        this._refreshStorage(this.coms[i]);
+        const description = [
+          describeDevice(Backend.get(this.coms[i]).deviceInfo(this.coms[i])),
+          ...(storages.get(this.coms[i]) ?? []),
+        ];
         const comNode = new M5FSResource(
           this.coms[i],
-          '',
+          description.filter((value) => !!value).join(' · '),
           '',
           this.coms[i],
           COM,
@@ -102,34 +160,73 @@ export class M5TreeDataProvider implements vscode.TreeDataProvider<M5FSResource>
       }
 
       try {
-        const dir = (await SerialManager.listDir(com, extraPath)).toString();
-        dir.split(',').forEach((dir) => {
-          if (!dir) {
-            return [];
-          }
-          const isFile = dir.indexOf('.') > -1;
+        const entries = await Backend.get(com).listDir(com, extraPath);
+        entries.forEach((entry) => {
+          const isFile = entry.type === 'file';
           const collapsibleState = isFile
             ? vscode.TreeItemCollapsibleState.None
             : vscode.TreeItemCollapsibleState.Collapsed;
-          const node = new M5FSResource(dir, '', extraPath, com, isFile ? FILE : FOLDER, collapsibleState);
+          const node = new M5FSResource(
+            entry.name,
+            '',
+            extraPath,
+            com,
+            isFile ? FILE : FOLDER,
+            collapsibleState,
+            undefined,
+            entry
+          );
           // file open command
           if (isFile) {
             node.command = {
               command: 'extension.openSelection',
               title: 'readFile',
-              arguments: [com, `${extraPath}/${dir}`],
+              arguments: [com, `${extraPath}/${entry.name}`],
             };
           }
           tree.push(node);
         });
       } catch (e: any) {
-        vscode.window.showErrorMessage(e);
+        vscode.window.showErrorMessage(e instanceof Error ? e.message : `${e}`);
       }
     }
 
     return tree;
   }
 
+  /**
+   * Read the space of a device again, showing it on the device node once it changed
+   */
+  async _refreshStorage(com: string) {
+    const descriptions = await this._describeStorage(com);
+    if (descriptions.join() === (storages.get(com) ?? []).join()) {
+      return;
+    }
+    storages.set(com, descriptions);
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * Used and free space of the file systems of a device, left out when they cannot be read
+   */
+  async _describeStorage(com: string): Promise<string[]> {
+    const usages = await Promise.all(
+      MOUNTPOINTS.map(async (mountpoint) => {
+        try {
+          const usage = await Backend.get(com).statvfs(com, mountpoint);
+          return usage && describeUsage(mountpoint, usage);
+        } catch (e) {
+          console.log(
+            `Error while reading the space left on ${mountpoint}`,
+            e instanceof Error ? e.message : e
+          );
+          return undefined;
+        }
+      })
+    );
+    return usages.filter((usage): usage is string => !!usage);
+  }
+
   getTreeItem(element: M5FSResource): vscode.TreeItem {
     return element;
   }
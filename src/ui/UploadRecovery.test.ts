@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { SerialCancelledError, SerialStatusError, SerialUploadError } from '../serial/errors';
+import SerialManager from '../serial/SerialManager';
+import { recoverUpload } from './UploadRecovery';
+
+jest.mock('../serial/SerialManager', () => ({
+  removeFile: jest.fn(),
+}));
+
+describe('UploadRecovery', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should resume a failed upload from the written offset', async () => {
+    // ARRANGE
+    const error = new SerialUploadError('/flash/main.py', 8192, 20000, new SerialStatusError(0x01));
+    // @ts-ignore
+    const spyShowError = jest.spyOn(vscode.window, 'showErrorMessage').mockResolvedValue('Resume');
+    const resume = jest.fn(() => Promise.resolve());
+
+    // ACT
+    await recoverUpload('/dev/device', error, resume);
+
+    // ASSERT
+    expect(spyShowError).toHaveBeenCalledWith(
+      "Upload of 'main.py' failed (Communication error, sorry. (status 0x01)), 8.0 KB of 19.5 KB written. The device may not boot until it is uploaded again.",
+      'Resume',
+      'Delete partial file'
+    );
+    expect(resume).toHaveBeenCalledWith(8192);
+  });
+
+  test('should delete the partial file of a cancelled upload', async () => {
+    // ARRANGE
+    const error = new SerialUploadError('/flash/res/logo.png', 4096, 20000, new SerialCancelledError(0x06));
+    const spyShowWarning = jest
+      .spyOn(vscode.window, 'showWarningMessage')
+      // @ts-ignore
+      .mockResolvedValue('Delete partial file');
+    const spyRemove = jest.spyOn(SerialManager, 'removeFile').mockResolvedValue(Buffer.from('done'));
+    const resume = jest.fn(() => Promise.resolve());
+
+    // ACT
+    await recoverUpload('/dev/device', error, resume);
+
+    // ASSERT
+    expect(spyShowWarning).toHaveBeenCalled();
+    expect(spyRemove).toHaveBeenCalledWith('/dev/device', '/flash/res/logo.png');
+    expect(resume).toHaveBeenCalledTimes(0);
+  });
+});
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { SerialUploadError } from '../serial/errors';
+import Backend from '../adapters/Backend';
+import { formatBytes } from '../utils/text';
+
+const RESUME = 'Resume';
+const RETRY = 'Retry';
+const DELETE = 'Delete partial file';
+
+// Files run by the device on boot
+const BOOT_FILES = ['boot.py', 'main.py'];
+
+/**
+ * Tell how much of a stopped upload is left on the device, then resume it from there or
+ * delete the partial file
+ */
+export const recoverUpload = async (
+  com: string,
+  error: SerialUploadError,
+  resume: (resumeFrom: number) => Thenable<unknown> | Promise<unknown>
+) => {
+  const name = error.filename.split('/').slice(-1)[0];
+  const progress = error.written
+    ? `${formatBytes(error.written)} of ${formatBytes(error.total)} written`
+    : 'the file on the device may be incomplete';
+  const boot = BOOT_FILES.includes(name) ? ' The device may not boot until it is uploaded again.' : '';
+  const cause = error.cause instanceof Error ? error.cause.message : `${error.cause}`;
+  const message = error.cancelled
+    ? `Upload of '${name}' cancelled, ${progress}.${boot}`
+    : `Upload of '${name}' failed (${cause}), ${progress}.${boot}`;
+  const actions = [error.written ? RESUME : RETRY, DELETE];
+  const action = error.cancelled
+    ? await vscode.window.showWarningMessage(message, ...actions)
+    : await vscode.window.showErrorMessage(message, ...actions);
+
+  switch (action) {
+    case RESUME:
+    case RETRY:
+      await resume(error.written);
+      break;
+    case DELETE:
+      try {
+        await Backend.get(com).removeFile(com, error.filename);
+        vscode.window.showInformationMessage(`Partial file '${name}' deleted.`);
+      } catch (e) {
+        vscode.window.showErrorMessage(`Could not delete '${name}': ${e instanceof Error ? e.message : e}`);
+      }
+      break;
+    default:
+      break;
+  }
+};
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SerialTimeoutError } from '../serial/errors';
+import SerialManager from '../serial/SerialManager';
+import WatchMode from './WatchMode';
+
+jest.mock('../serial/SerialManager', () => ({
+  bulkDownload: jest.fn(),
+  exec: jest.fn(),
+  mkdir: jest.fn(),
+}));
+jest.mock('./PortList', () => ({
+  pickDevice: () => Promise.resolve('/dev/device'),
+}));
+
+const fileUri = (fsPath: string) => ({ scheme: 'file', fsPath } as vscode.Uri);
+
+describe('WatchMode', () => {
+  let directory: string;
+  let settings: { [key: string]: unknown };
+  let item: { text: string; tooltip: string; show: jest.Mock; dispose: jest.Mock };
+  let uploads: string[];
+
+  // saves are uploaded once the debounce delay elapsed
+  const uploaded = async () => {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await WatchMode.idle();
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'm5stack-watch-'));
+    fs.mkdirSync(path.join(directory, 'lib'));
+    fs.writeFileSync(path.join(directory, 'main.py'), 'print("hello")');
+    fs.writeFileSync(path.join(directory, 'lib', 'util.py'), 'x = 1');
+    settings = { debounce: 5 };
+    item = { text: '', tooltip: '', show: jest.fn(), dispose: jest.fn() };
+    uploads = [];
+    // @ts-ignore
+    vscode.workspace.workspaceFolders = [{ uri: { fsPath: directory } }];
+    // @ts-ignore
+    vscode.workspace.onDidSaveTextDocument = jest.fn(() => ({ dispose: jest.fn() }));
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'createStatusBarItem').mockReturnValue(item);
+    jest.spyOn(vscode.workspace, 'getConfiguration').mockReturnValue({
+      get: (key: string, defaultValue: unknown) => (key in settings ? settings[key] : defaultValue),
+    } as unknown as vscode.WorkspaceConfiguration);
+    jest.spyOn(SerialManager, 'mkdir').mockResolvedValue();
+    jest.spyOn(SerialManager, 'bulkDownload').mockImplementation((com, filename) => {
+      uploads.push(filename);
+      return Promise.resolve(Buffer.from('done'));
+    });
+    await WatchMode._start();
+  });
+
+  afterEach(() => {
+    WatchMode.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+    // @ts-ignore
+    vscode.workspace.workspaceFolders = [];
+  });
+
+  test('should upload saved files once after quick saves', async () => {
+    // ACT
+    WatchMode.onSave(fileUri(path.join(directory, 'main.py')));
+    WatchMode.onSave(fileUri(path.join(directory, 'lib', 'util.py')));
+    WatchMode.onSave(fileUri(path.join(directory, 'main.py')));
+    await uploaded();
+
+    // ASSERT
+    expect(uploads).toStrictEqual(['/flash/main.py', '/flash/lib/util.py']);
+    expect(SerialManager.mkdir).toHaveBeenCalledWith('/dev/device', '/flash/lib');
+    expect(item.text).toBe('$(eye) Watch /dev/device');
+  });
+
+  test('should ignore files outside the synced folder or ignored', async () => {
+    // ACT
+    WatchMode.onSave(fileUri(path.join(os.tmpdir(), 'other.py')));
+    WatchMode.onSave(fileUri(path.join(directory, '.vscode', 'settings.json')));
+    await uploaded();
+
+    // ASSERT
+    expect(uploads).toStrictEqual([]);
+  });
+
+  test('should show the last error', async () => {
+    // ARRANGE
+    jest.spyOn(SerialManager, 'bulkDownload').mockImplementation(() => Promise.reject(new Error('Timeout')));
+
+    // ACT
+    WatchMode.onSave(fileUri(path.join(directory, 'main.py')));
+    await uploaded();
+
+    // ASSERT
+    expect(item.text).toBe('$(warning) Watch /dev/device');
+    expect(item.tooltip.indexOf('Last error: main.py: Timeout') > -1).toBe(true);
+  });
+
+  test('should reset the device after the upload when configured', async () => {
+    // ARRANGE
+    settings.resetAfterSync = true;
+    const spyExec = jest.spyOn(SerialManager, 'exec').mockResolvedValue(Buffer.from('done'));
+
+    // ACT
+    WatchMode.onSave(fileUri(path.join(directory, 'main.py')));
+    await uploaded();
+
+    // ASSERT
+    expect(spyExec).toHaveBeenCalledWith('/dev/device', 'machine.reset()', { priority: 10, timeout: 1000 });
+  });
+
+  test('should not wait for an answer of the restarting device', async () => {
+    // ARRANGE
+    settings.resetAfterSync = true;
+    jest
+      .spyOn(SerialManager, 'exec')
+      .mockImplementation(() => Promise.reject(new SerialTimeoutError(0x05, 1000)));
+
+    // ACT
+    WatchMode.onSave(fileUri(path.join(directory, 'main.py')));
+    await uploaded();
+
+    // ASSERT
+    expect(item.text).toBe('$(eye) Watch /dev/device');
+  });
+});
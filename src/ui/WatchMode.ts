@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import Backend from '../adapters/Backend';
+import { errorMessage } from '../utils/errors';
+import { isIgnored } from '../utils/sync';
+import { getUploadOptions } from '../utils/vscode';
+import PortList from './PortList';
+import WorkspaceSync from './WorkspaceSync';
+
+const DEFAULT_DEBOUNCE = 500;
+
+type WatchState = 'idle' | 'syncing' | 'error';
+
+interface Watch {
+  com: string;
+  localRoot: string;
+  devicePath: string;
+  ignore: string[];
+  // device folders already created
+  folders: Set<string>;
+  subscription: vscode.Disposable;
+}
+
+/**
+ * Uploads the files of the synced workspace folder to the device when they are saved,
+ * saves in quick succession are uploaded together
+ */
+class WatchMode {
+  private watch: Watch | undefined;
+  private item: vscode.StatusBarItem | undefined;
+  private pending: Set<string> = new Set();
+  private timer: NodeJS.Timeout | undefined;
+  // uploads run one after the other
+  private running: Promise<void> = Promise.resolve();
+  private state: WatchState = 'idle';
+  private lastSync: Date | undefined;
+  private lastError: string | undefined;
+
+  toggle(ev?: { com?: string }) {
+    if (this.watch) {
+      this.stop();
+      return;
+    }
+    this._start(ev?.com);
+  }
+
+  async _start(com?: string) {
+    const port = com ?? (await PortList.pickDevice());
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!port) {
+      return;
+    }
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage('Open a workspace folder to watch it.');
+      return;
+    }
+    const { localFolder, devicePath, ignore } = WorkspaceSync.getSettings();
+    this.watch = {
+      com: port,
+      localRoot: path.resolve(workspaceFolder.uri.fsPath, localFolder),
+      devicePath,
+      ignore,
+      folders: new Set(),
+      subscription: vscode.workspace.onDidSaveTextDocument((document) => this.onSave(document.uri)),
+    };
+    this.lastSync = undefined;
+    this.lastError = undefined;
+    this._setState('idle');
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+    this.watch?.subscription.dispose();
+    this.watch = undefined;
+    this.item?.dispose();
+    this.item = undefined;
+  }
+
+  onSave(uri: vscode.Uri) {
+    if (!this.watch || uri.scheme !== 'file') {
+      return;
+    }
+    const relative = path.relative(this.watch.localRoot, uri.fsPath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return;
+    }
+    const name = relative.split(path.sep).join('/');
+    if (isIgnored(name, this.watch.ignore)) {
+      return;
+    }
+    this.pending.add(name);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    const debounce = vscode.workspace.getConfiguration('m5stack.watch').get('debounce', DEFAULT_DEBOUNCE);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.running = this.running.then(() => this._flush());
+    }, debounce);
+  }
+
+  /**
+   * Wait for the saves already debounced to be uploaded
+   */
+  idle(): Promise<void> {
+    return this.running;
+  }
+
+  async _flush() {
+    const watch = this.watch;
+    const files = Array.from(this.pending);
+    this.pending.clear();
+    if (!watch || !files.length) {
+      return;
+    }
+    this._setState('syncing');
+    const backend = Backend.get(watch.com);
+    let failed = false;
+    for (const name of files) {
+      const remote = `${watch.devicePath.replace(/\/$/, '')}/${name}`;
+      try {
+        const folder = remote.split('/').slice(0, -1).join('/');
+        if (folder && !watch.folders.has(folder)) {
+          await backend.mkdir(watch.com, folder);
+          watch.folders.add(folder);
+        }
+        const content = await fs.promises.readFile(path.join(watch.localRoot, ...name.split('/')));
+        await backend.bulkDownload(watch.com, remote, content, true, () => {}, undefined, getUploadOptions());
+      } catch (e) {
+        // the file is uploaded again on its next save
+        console.log(`Error while uploading ${name}`, errorMessage(e));
+        this.lastError = `${name}: ${errorMessage(e)}`;
+        failed = true;
+      }
+    }
+    if (failed) {
+      this._setState('error');
+      return;
+    }
+    this.lastSync = new Date();
+    this.lastError = undefined;
+
+    if (vscode.workspace.getConfiguration('m5stack.watch').get('resetAfterSync', false)) {
+      try {
+        await Backend.reset(watch.com);
+      } catch (e) {
+        this.lastError = `Reset: ${errorMessage(e)}`;
+        this._setState('error');
+        return;
+      }
+    }
+    this._setState('idle');
+  }
+
+  _setState(state: WatchState) {
+    this.state = state;
+    if (!this.watch) {
+      return;
+    }
+    if (!this.item) {
+      this.item = vscode.window.createStatusBarItem();
+      this.item.command = 'm5stack.toggleWatch';
+      this.item.show();
+    }
+    const { com, localRoot, devicePath } = this.watch;
+    const tooltip = [`Uploading ${localRoot} to ${com}:${devicePath} on save, click to stop`];
+    switch (this.state) {
+      case 'syncing':
+        this.item.text = `$(sync~spin) Watch ${com}`;
+        break;
+      case 'error':
+        this.item.text = `$(warning) Watch ${com}`;
+        tooltip.push(`Last error: ${this.lastError}`);
+        break;
+      default:
+        this.item.text = `$(eye) Watch ${com}`;
+        break;
+    }
+    if (this.lastSync) {
+      tooltip.push(`Last upload: ${this.lastSync.toLocaleTimeString()}`);
+    }
+    this.item.tooltip = tooltip.join('\n');
+  }
+}
+
+export default new WatchMode();
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { parseWebReplAddress, toWebReplId } from '../serial/WebRepl';
+
+type SavedDevices = {
+  [id: string]: string;
+};
+
+const SECRET_KEY = 'm5stack.webrepl.devices';
+
+/**
+ * Devices reached over WebREPL, with their password kept in the secret storage
+ */
+class WebReplDevices {
+  private secrets: vscode.SecretStorage | undefined;
+
+  init(secrets: vscode.SecretStorage) {
+    this.secrets = secrets;
+  }
+
+  async list(): Promise<string[]> {
+    return Object.keys(await this._getSavedDevices());
+  }
+
+  async password(id: string): Promise<string | undefined> {
+    return (await this._getSavedDevices())[id];
+  }
+
+  /**
+   * Ask for the address and password of a device, undefined when cancelled
+   */
+  async add(): Promise<string | undefined> {
+    const value = await vscode.window.showInputBox({
+      prompt: 'Address of the device WebREPL',
+      placeHolder: '192.168.4.1 or host:port',
+      validateInput: (input) => (parseWebReplAddress(input) ? undefined : 'Enter a host name or IP address'),
+    });
+    const address = value !== undefined ? parseWebReplAddress(value) : undefined;
+    if (!address) {
+      return undefined;
+    }
+    const id = toWebReplId(address);
+    const password = await this.askPassword(id);
+    return password === undefined ? undefined : id;
+  }
+
+  /**
+   * Ask for the password again, after the device refused it
+   */
+  async askPassword(id: string): Promise<string | undefined> {
+    const password = await vscode.window.showInputBox({
+      prompt: `WebREPL password of ${id}`,
+      password: true,
+      value: (await this.password(id)) || '',
+    });
+    if (password !== undefined) {
+      await this._saveDevice(id, password);
+    }
+    return password;
+  }
+
+  async _getSavedDevices(): Promise<SavedDevices> {
+    const stored = await this.secrets?.get(SECRET_KEY);
+    try {
+      return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      return {};
+    }
+  }
+
+  async _saveDevice(id: string, password: string) {
+    if (!this.secrets) {
+      return;
+    }
+    const saved = await this._getSavedDevices();
+    saved[id] = password;
+    await this.secrets.store(SECRET_KEY, JSON.stringify(saved));
+  }
+}
+
+export default new WebReplDevices();
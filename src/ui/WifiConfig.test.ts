@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
+import WifiConfig from './WifiConfig';
+
+jest.mock('../serial/SerialManager', () => ({
+  scanWifi: jest.fn(),
+  setWifi: jest.fn(),
+}));
+
+const buildSecretStorage = () => {
+  const values: { [key: string]: string } = {};
+  const secrets = {
+    values,
+    get: jest.fn((key: string) => Promise.resolve(values[key])),
+    store: jest.fn((key: string, value: string) => {
+      values[key] = value;
+      return Promise.resolve();
+    }),
+    delete: jest.fn(),
+    onDidChange: jest.fn(),
+  };
+  return secrets as unknown as vscode.SecretStorage & typeof secrets;
+};
+
+describe('WifiConfig', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should configure manually entered network and remember it', async () => {
+    // ARRANGE
+    const secrets = buildSecretStorage();
+    WifiConfig.init(secrets);
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showQuickPick').mockResolvedValue({ label: '$(edit) Enter SSID manually' });
+    jest.spyOn(vscode.window, 'showInputBox').mockResolvedValueOnce('office').mockResolvedValueOnce('secret');
+    const spySetWifi = jest.spyOn(SerialManager, 'setWifi').mockResolvedValue(Buffer.from('done'));
+    const spyShowInfo = jest.spyOn(vscode.window, 'showInformationMessage');
+
+    // ACT
+    await WifiConfig._configure('/dev/device');
+
+    // ASSERT
+    expect(spySetWifi).toHaveBeenCalledWith('/dev/device', 'office', 'secret');
+    expect(spyShowInfo).toHaveBeenCalled();
+    expect(JSON.parse(secrets.values['m5stack.wifi.networks'])).toStrictEqual({ office: 'secret' });
+  });
+
+  test('should prefill password of a saved network', async () => {
+    // ARRANGE
+    const secrets = buildSecretStorage();
+    secrets.values['m5stack.wifi.networks'] = '{"home":"saved"}';
+    WifiConfig.init(secrets);
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showQuickPick').mockResolvedValue({ label: 'home', description: 'saved' });
+    const spyInput = jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('saved');
+    jest.spyOn(SerialManager, 'setWifi').mockResolvedValue(Buffer.from('done'));
+
+    // ACT
+    await WifiConfig._configure('/dev/device');
+
+    // ASSERT
+    expect(spyInput).toHaveBeenCalledWith({ prompt: 'Password for "home"', password: true, value: 'saved' });
+  });
+
+  test('should offer scanned networks', async () => {
+    // ARRANGE
+    WifiConfig.init(buildSecretStorage());
+    jest
+      .spyOn(vscode.window, 'showQuickPick')
+      // @ts-ignore
+      .mockResolvedValueOnce({ label: '$(search) Scan nearby networks' })
+      // @ts-ignore
+      .mockResolvedValueOnce({ label: 'lab', description: '-50 dBm' });
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'withProgress').mockImplementation((options, task) => task({}, {}));
+    jest.spyOn(SerialManager, 'scanWifi').mockResolvedValue([{ ssid: 'lab', rssi: -50 }]);
+    jest.spyOn(vscode.window, 'showInputBox').mockResolvedValue('secret');
+    const spySetWifi = jest.spyOn(SerialManager, 'setWifi').mockResolvedValue(Buffer.from('done'));
+
+    // ACT
+    await WifiConfig._configure('/dev/device');
+
+    // ASSERT
+    expect(spySetWifi).toHaveBeenCalledWith('/dev/device', 'lab', 'secret');
+  });
+
+  test('should show an error and not remember network when configuration failed', async () => {
+    // ARRANGE
+    const secrets = buildSecretStorage();
+    WifiConfig.init(secrets);
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showQuickPick').mockResolvedValue({ label: '$(edit) Enter SSID manually' });
+    jest.spyOn(vscode.window, 'showInputBox').mockResolvedValueOnce('office').mockResolvedValueOnce('secret');
+    jest.spyOn(SerialManager, 'setWifi').mockImplementation(() => Promise.reject(new Error('status')));
+    const spyShowError = jest.spyOn(vscode.window, 'showErrorMessage');
+
+    // ACT
+    await WifiConfig._configure('/dev/device');
+
+    // ASSERT
+    expect(spyShowError).toHaveBeenCalled();
+    expect(secrets.store).toHaveBeenCalledTimes(0);
+  });
+});
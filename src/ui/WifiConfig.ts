@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import Backend from '../adapters/Backend';
+import { WifiNetwork } from '../serial/types';
+
+type SavedNetworks = {
+  [ssid: string]: string;
+};
+
+const SECRET_KEY = 'm5stack.wifi.networks';
+const SCAN = '$(search) Scan nearby networks';
+const MANUAL = '$(edit) Enter SSID manually';
+
+class WifiConfig {
+  private secrets: vscode.SecretStorage | undefined;
+
+  init(secrets: vscode.SecretStorage) {
+    this.secrets = secrets;
+  }
+
+  configure(com: string) {
+    this._configure(com);
+  }
+
+  async _configure(com: string) {
+    const saved = await this._getSavedNetworks();
+    const ssid = await this._pickSsid(com, saved);
+    if (!ssid) {
+      return;
+    }
+    const password = await vscode.window.showInputBox({
+      prompt: `Password for "${ssid}"`,
+      password: true,
+      value: saved[ssid] || '',
+    });
+    if (password === undefined) {
+      return;
+    }
+
+    try {
+      await Backend.get(com).setWifi(com, ssid, password);
+    } catch (e: any) {
+      console.log('Error while configuring Wi-Fi', e.toString());
+      vscode.window.showErrorMessage(`Configure Wi-Fi "${ssid}" on ${com} failed.`);
+      return;
+    }
+    await this._saveNetwork(ssid, password);
+    vscode.window.showInformationMessage(`Wi-Fi "${ssid}" configured on ${com}.`);
+  }
+
+  async _pickSsid(com: string, saved: SavedNetworks): Promise<string | undefined> {
+    const choice = await vscode.window.showQuickPick(
+      [
+        ...Object.keys(saved).map((ssid) => ({ label: ssid, description: 'saved' })),
+        { label: SCAN, description: '' },
+        { label: MANUAL, description: '' },
+      ],
+      { placeHolder: 'Select the Wi-Fi network' }
+    );
+    if (!choice) {
+      return undefined;
+    }
+    if (choice.label === MANUAL) {
+      return vscode.window.showInputBox({ placeHolder: 'SSID' });
+    }
+    if (choice.label === SCAN) {
+      const networks = await this._scan(com);
+      const network = await vscode.window.showQuickPick(
+        networks.map(({ ssid, rssi }) => ({ label: ssid, description: `${rssi} dBm` })),
+        { placeHolder: networks.length ? 'Select the Wi-Fi network' : 'No network found' }
+      );
+      return network?.label;
+    }
+    return choice.label;
+  }
+
+  async _scan(com: string): Promise<WifiNetwork[]> {
+    try {
+      return await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          cancellable: true,
+          title: 'Scanning Wi-Fi networks',
+        },
+        (progress, token) => Backend.get(com).scanWifi(com, { token })
+      );
+    } catch (e: any) {
+      console.log('Error while scanning Wi-Fi', e.toString());
+      vscode.window.showErrorMessage(`Scan Wi-Fi networks on ${com} failed.`);
+      return [];
+    }
+  }
+
+  async _getSavedNetworks(): Promise<SavedNetworks> {
+    const stored = await this.secrets?.get(SECRET_KEY);
+    try {
+      return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      return {};
+    }
+  }
+
+  async _saveNetwork(ssid: string, password: string) {
+    if (!this.secrets) {
+      return;
+    }
+    const saved = await this._getSavedNetworks();
+    saved[ssid] = password;
+    await this.secrets.store(SECRET_KEY, JSON.stringify(saved));
+  }
+}
+
+export default new WifiConfig();
@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import SerialManager from '../serial/SerialManager';
+import WorkspaceSync from './WorkspaceSync';
+import { mockProgress, NEVER_CANCELLED } from './__fixtures__/deviceTree';
+
+jest.mock('../serial/SerialManager', () => ({
+  bulkDownload: jest.fn(),
+  hashDir: jest.fn(),
+  mkdir: jest.fn(),
+  readFile: jest.fn(),
+  removeFile: jest.fn(),
+}));
+jest.mock('./PortList', () => ({
+  pickDevice: () => Promise.resolve('/dev/device'),
+  refreshTree: jest.fn(),
+}));
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+describe('WorkspaceSync', () => {
+  let directory: string;
+  let dryRun: boolean;
+  let picked: (items: any[]) => any[] | undefined;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'm5stack-sync-'));
+    fs.mkdirSync(path.join(directory, 'lib'));
+    fs.writeFileSync(path.join(directory, 'main.py'), 'print("new")');
+    fs.writeFileSync(path.join(directory, 'boot.py'), 'import machine');
+    fs.writeFileSync(path.join(directory, 'lib', 'util.py'), 'x = 1');
+    dryRun = false;
+    picked = (items) => items;
+    // @ts-ignore
+    vscode.workspace.workspaceFolders = [{ uri: { fsPath: directory } }];
+    // @ts-ignore
+    jest.spyOn(vscode.workspace, 'getConfiguration').mockReturnValue({
+      get: (key: string, defaultValue: unknown) => (key === 'dryRun' ? dryRun : defaultValue),
+    } as unknown as vscode.WorkspaceConfiguration);
+    mockProgress();
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showQuickPick').mockImplementation((items) => Promise.resolve(picked(items)));
+    jest.spyOn(SerialManager, 'hashDir').mockResolvedValue(
+      new Map([
+        ['main.py', sha256('print("old")')],
+        ['boot.py', sha256('import machine')],
+        ['old.py', sha256('')],
+      ])
+    );
+    jest.spyOn(SerialManager, 'readFile').mockResolvedValue(Buffer.from('print("old")'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    // @ts-ignore
+    vscode.workspace.workspaceFolders = [];
+  });
+
+  test('should push changed files only', async () => {
+    // ARRANGE
+    const uploads: string[] = [];
+    jest.spyOn(SerialManager, 'bulkDownload').mockImplementation((com, filename) => {
+      uploads.push(filename);
+      return Promise.resolve(Buffer.from('done'));
+    });
+    const spyRemove = jest.spyOn(SerialManager, 'removeFile').mockResolvedValue(Buffer.from('done'));
+    const spyMkdir = jest.spyOn(SerialManager, 'mkdir').mockResolvedValue();
+    const spyShowInfo = jest.spyOn(vscode.window, 'showInformationMessage');
+
+    // ACT
+    await WorkspaceSync._sync('push');
+
+    // ASSERT
+    expect(uploads).toStrictEqual(['/flash/lib/util.py', '/flash/main.py']);
+    expect(spyMkdir).toHaveBeenCalledTimes(2);
+    expect(spyRemove).toHaveBeenCalledWith('/dev/device', '/flash/old.py', {
+      token: NEVER_CANCELLED,
+    });
+    expect(spyShowInfo).toHaveBeenCalledWith('Pushed 3 changes with /dev/device.');
+  });
+
+  test('should pull changed files and delete the ones missing on the device', async () => {
+    // ACT
+    await WorkspaceSync._sync('pull');
+
+    // ASSERT
+    expect(fs.readFileSync(path.join(directory, 'main.py')).toString()).toBe('print("old")');
+    expect(fs.readFileSync(path.join(directory, 'old.py')).toString()).toBe('print("old")');
+    expect(fs.existsSync(path.join(directory, 'lib', 'util.py'))).toBe(false);
+    expect(fs.existsSync(path.join(directory, 'boot.py'))).toBe(true);
+  });
+
+  test('should only transfer the changes kept in the preview', async () => {
+    // ARRANGE
+    picked = (items) => items.filter(({ change }) => change.type !== 'delete');
+
+    // ACT
+    await WorkspaceSync._sync('pull');
+
+    // ASSERT
+    expect(fs.existsSync(path.join(directory, 'lib', 'util.py'))).toBe(true);
+    expect(fs.readFileSync(path.join(directory, 'main.py')).toString()).toBe('print("old")');
+  });
+
+  test('should not delete anything when the preview is accepted as is', async () => {
+    // ARRANGE
+    let placeHolder: string | undefined;
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showQuickPick').mockImplementation((items: any[], options) => {
+      placeHolder = options?.placeHolder;
+      return Promise.resolve(items.filter((item) => item.picked));
+    });
+
+    // ACT
+    await WorkspaceSync._sync('pull');
+
+    // ASSERT
+    expect(placeHolder).toBe(
+      '1 added, 1 modified, 1 deleted on the workspace, uncheck files to skip, check deletions to apply them'
+    );
+    expect(fs.existsSync(path.join(directory, 'lib', 'util.py'))).toBe(true);
+    expect(fs.readFileSync(path.join(directory, 'old.py')).toString()).toBe('print("old")');
+  });
+
+  test('should preview without transferring in dry run mode', async () => {
+    // ARRANGE
+    dryRun = true;
+    let placeHolder: string | undefined;
+    // @ts-ignore
+    jest.spyOn(vscode.window, 'showQuickPick').mockImplementation((items, options) => {
+      placeHolder = options?.placeHolder;
+      return Promise.resolve(items);
+    });
+
+    // ACT
+    await WorkspaceSync._sync('push');
+
+    // ASSERT
+    expect(placeHolder).toBe('Dry run, nothing is transferred: 1 added, 1 modified, 1 deleted on the device');
+    expect(SerialManager.bulkDownload).not.toHaveBeenCalled();
+    expect(SerialManager.removeFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import Backend from '../adapters/Backend';
+import { describeFailures, errorMessage, Failure } from '../utils/errors';
+import { diffHashes, hashLocalDir, SyncChange, SyncChangeType, SyncDirection } from '../utils/sync';
+import { plural } from '../utils/text';
+import { getUploadOptions } from '../utils/vscode';
+import PortList from './PortList';
+import ProjectConfig from './ProjectConfig';
+
+export interface SyncSettings {
+  // local folder, relative to the first workspace folder
+  localFolder: string;
+  devicePath: string;
+  ignore: string[];
+  dryRun: boolean;
+}
+
+const DEFAULT_IGNORE = ['.git', '.vscode', '__pycache__', '*.pyc'];
+
+const ICONS: { [type in SyncChangeType]: string } = {
+  add: '$(diff-added)',
+  modify: '$(diff-modified)',
+  delete: '$(diff-removed)',
+};
+
+type ChangeItem = vscode.QuickPickItem & { change: SyncChange };
+
+const joinDevicePath = (dirname: string, relative: string) => `${dirname.replace(/\/$/, '')}/${relative}`;
+
+/**
+ * Makes a device folder a copy of a workspace folder or the other way round, transferring the
+ * files whose sha256 differ once the changes are confirmed
+ */
+class WorkspaceSync {
+  push(ev?: { com?: string }) {
+    this._sync('push', ev?.com);
+  }
+
+  pull(ev?: { com?: string }) {
+    this._sync('pull', ev?.com);
+  }
+
+  /**
+   * Sync settings, the ones of the .m5stack.json project file first
+   */
+  getSettings(): SyncSettings {
+    const config = vscode.workspace.getConfiguration('m5stack.sync');
+    const project = ProjectConfig.get();
+    return {
+      localFolder: project.localRoot ?? config.get('localFolder', ''),
+      devicePath: project.deviceRoot ?? config.get('devicePath', '/flash'),
+      ignore: project.ignore ?? config.get('ignore', DEFAULT_IGNORE),
+      dryRun: config.get('dryRun', false),
+    };
+  }
+
+  async _sync(direction: SyncDirection, com?: string) {
+    const port = com ?? (await PortList.pickDevice());
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!port) {
+      return;
+    }
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage('Open a workspace folder to sync it with the device.');
+      return;
+    }
+    const settings = this.getSettings();
+    const localRoot = path.resolve(workspaceFolder.uri.fsPath, settings.localFolder);
+
+    let changes: SyncChange[];
+    try {
+      changes = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          cancellable: true,
+          title: `Comparing ${localRoot} with ${port}:${settings.devicePath}`,
+        },
+        async (progress, token) => {
+          const local = await hashLocalDir(localRoot, settings.ignore);
+          const device = await Backend.get(port).hashDir(port, settings.devicePath, { token });
+          return direction === 'push'
+            ? diffHashes(local, device, settings.ignore)
+            : diffHashes(device, local, settings.ignore);
+        }
+      );
+    } catch (e) {
+      vscode.window.showErrorMessage(`Compare with ${port} failed: ${errorMessage(e)}`);
+      return;
+    }
+    if (!changes.length) {
+      vscode.window.showInformationMessage(`${localRoot} and ${port}:${settings.devicePath} are in sync.`);
+      return;
+    }
+
+    const confirmed = await this._preview(direction, changes, settings.dryRun);
+    if (!confirmed?.length) {
+      return;
+    }
+    const { applied, failures } = await this._apply(
+      direction,
+      port,
+      localRoot,
+      settings.devicePath,
+      confirmed
+    );
+    if (direction === 'push') {
+      PortList.refreshTree();
+    }
+    this._report(direction, port, applied, failures);
+  }
+
+  /**
+   * Changes picked by the user in the preview, nothing in dry run mode. Deletions are left
+   * unticked so that accepting the preview as is never deletes files.
+   */
+  async _preview(
+    direction: SyncDirection,
+    changes: SyncChange[],
+    dryRun: boolean
+  ): Promise<SyncChange[] | undefined> {
+    const target = direction === 'push' ? 'device' : 'workspace';
+    const count = (type: SyncChangeType) => changes.filter((change) => change.type === type).length;
+    const [added, modified, deleted] = [count('add'), count('modify'), count('delete')];
+    const summary = `${added} added, ${modified} modified, ${deleted} deleted on the ${target}`;
+    const items: ChangeItem[] = changes.map((change) => ({
+      label: `${ICONS[change.type]} ${change.path}`,
+      description: change.type,
+      picked: change.type !== 'delete',
+      change,
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: dryRun
+        ? `Dry run, nothing is transferred: ${summary}`
+        : `${summary}, uncheck files to skip${deleted ? ', check deletions to apply them' : ''}`,
+    });
+    return dryRun ? undefined : picked?.map(({ change }) => change);
+  }
+
+  async _apply(
+    direction: SyncDirection,
+    port: string,
+    localRoot: string,
+    devicePath: string,
+    changes: SyncChange[]
+  ): Promise<{ applied: number; failures: Failure[] }> {
+    const failures: Failure[] = [];
+    let applied = 0;
+    const backend = Backend.get(port);
+    // device folders already created
+    const folders = new Set<string>();
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        cancellable: true,
+        title: direction === 'push' ? `Pushing to ${port}` : `Pulling from ${port}`,
+      },
+      async (progress, token) => {
+        for (const change of changes) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({ message: change.path });
+          const local = path.join(localRoot, ...change.path.split('/'));
+          const remote = joinDevicePath(devicePath, change.path);
+          try {
+            if (direction === 'push' && change.type === 'delete') {
+              await backend.removeFile(port, remote, { token });
+            } else if (direction === 'push') {
+              const folder = remote.split('/').slice(0, -1).join('/');
+              if (folder && !folders.has(folder)) {
+                await backend.mkdir(port, folder, { token });
+                folders.add(folder);
+              }
+              const content = await fs.promises.readFile(local);
+              await backend.bulkDownload(port, remote, content, true, () => {}, token, getUploadOptions());
+            } else if (change.type === 'delete') {
+              await fs.promises.unlink(local);
+            } else {
+              const content = await backend.readFile(port, remote, { token });
+              await fs.promises.mkdir(path.dirname(local), { recursive: true });
+              await fs.promises.writeFile(local, content);
+            }
+            applied++;
+          } catch (e) {
+            failures.push({ name: change.path, error: e });
+          }
+          progress.report({ increment: 100 / changes.length });
+        }
+      }
+    );
+    return { applied, failures };
+  }
+
+  _report(direction: SyncDirection, port: string, applied: number, failures: Failure[]) {
+    const verb = direction === 'push' ? 'Pushed' : 'Pulled';
+    const changes = plural(applied, 'change');
+    if (!failures.length) {
+      vscode.window.showInformationMessage(`${verb} ${changes} with ${port}.`);
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `${verb} ${changes} with ${port}, failed: ${describeFailures('syncing', failures)}.`
+    );
+  }
+}
+
+export default new WorkspaceSync();
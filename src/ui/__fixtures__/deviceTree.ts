@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import SerialManager from '../../serial/SerialManager';
+import { DirectoryEntry } from '../../serial/types';
+import { COM, FILE, FOLDER, M5FSResource } from '../TreeDataProvider';
+
+// Shared by the tests of the device tree commands, SerialManager has to be mocked by the test
+
+export const PORT = '/dev/device';
+
+export const node = (label: string, parent: string, contextValue: typeof COM | typeof FILE | typeof FOLDER) =>
+  new M5FSResource(label, '', parent, PORT, contextValue, vscode.TreeItemCollapsibleState.None);
+
+// token given to the progress tasks
+export const NEVER_CANCELLED: vscode.CancellationToken = {
+  isCancellationRequested: false,
+  onCancellationRequested: () => ({ dispose: () => {} }),
+};
+
+/**
+ * Runs the progress tasks right away, never cancelled
+ */
+export const mockProgress = () => {
+  const progress: vscode.Progress<{ message?: string; increment?: number }> = { report: jest.fn() };
+  return jest
+    .spyOn(vscode.window, 'withProgress')
+    .mockImplementation((options, task) => task(progress, NEVER_CANCELLED));
+};
+
+/**
+ * Lists and reads the files of a device given by path, folders are the ones containing them
+ */
+export const mockDevice = (files: Map<string, Buffer>) => {
+  jest.spyOn(SerialManager, 'listDir').mockImplementation((com, dirname) => {
+    const entries = new Map<string, DirectoryEntry>();
+    files.forEach((content, filepath) => {
+      if (!filepath.startsWith(`${dirname}/`)) {
+        return;
+      }
+      const [name, ...rest] = filepath.slice(dirname.length + 1).split('/');
+      if (!entries.has(name)) {
+        entries.set(
+          name,
+          rest.length
+            ? { name, type: 'directory', size: 0, mtime: 0 }
+            : { name, type: 'file', size: content.length, mtime: 0 }
+        );
+      }
+    });
+    return Promise.resolve(Array.from(entries.values()));
+  });
+  jest
+    .spyOn(SerialManager, 'readFile')
+    .mockImplementation((com, filepath) =>
+      files.has(filepath) ? Promise.resolve(files.get(filepath)!) : Promise.reject(new Error('ENOENT'))
+    );
+};
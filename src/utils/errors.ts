@@ -0,0 +1,16 @@
+// an item of a batch operation that could not be processed
+export type Failure = {
+  name: string;
+  error: unknown;
+};
+
+export const errorMessage = (e: unknown): string => (e instanceof Error ? e.message : `${e}`);
+
+/**
+ * Log the failures of a batch operation and describe them for its error message
+ * @param action What was done to the items, like "deleting"
+ */
+export const describeFailures = (action: string, failures: Failure[]): string => {
+  failures.forEach(({ name, error }) => console.log(`Error while ${action} ${name}`, errorMessage(error)));
+  return failures.map(({ name, error }) => `'${name}' (${errorMessage(error)})`).join(', ');
+};
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffHashes, globToRegExp, hashLocalDir, isIgnored } from './sync';
+
+describe('sync', () => {
+  describe('globToRegExp', () => {
+    test('should match stars within a folder and globstars across folders', () => {
+      // ASSERT
+      expect(globToRegExp('*.py').test('main.py')).toBe(true);
+      expect(globToRegExp('*.py').test('lib/main.py')).toBe(false);
+      expect(globToRegExp('lib/**/*.mpy').test('lib/a.mpy')).toBe(true);
+      expect(globToRegExp('lib/**/*.mpy').test('lib/sensors/env/a.mpy')).toBe(true);
+      expect(globToRegExp('**/test_?.py').test('tests/test_1.py')).toBe(true);
+      expect(globToRegExp('data.(1).bin').test('data.(1).bin')).toBe(true);
+      expect(globToRegExp('data.bin').test('dataxbin')).toBe(false);
+    });
+  });
+
+  describe('isIgnored', () => {
+    test('should match names at any depth and everything under ignored folders', () => {
+      // ARRANGE
+      const ignore = ['.git', '*.pyc', 'docs/*.md'];
+
+      // ASSERT
+      expect(isIgnored('.git/config', ignore)).toBe(true);
+      expect(isIgnored('lib/__pycache__/a.pyc', ignore)).toBe(true);
+      expect(isIgnored('docs/README.md', ignore)).toBe(true);
+      expect(isIgnored('lib/docs/README.md', ignore)).toBe(false);
+      expect(isIgnored('main.py', ignore)).toBe(false);
+    });
+  });
+
+  describe('diffHashes', () => {
+    test('should list additions, modifications and deletions by path', () => {
+      // ARRANGE
+      const source = new Map([
+        ['main.py', 'a'],
+        ['lib/new.py', 'b'],
+        ['boot.py', 'c'],
+        ['cache.pyc', 'd'],
+      ]);
+      const target = new Map([
+        ['main.py', 'x'],
+        ['boot.py', 'c'],
+        ['old.py', 'e'],
+      ]);
+
+      // ACT
+      const changes = diffHashes(source, target, ['*.pyc']);
+
+      // ASSERT
+      expect(changes).toStrictEqual([
+        { type: 'add', path: 'lib/new.py' },
+        { type: 'modify', path: 'main.py' },
+        { type: 'delete', path: 'old.py' },
+      ]);
+    });
+  });
+
+  describe('hashLocalDir', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'm5stack-sync-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should hash files by relative path without the ignored ones', async () => {
+      // ARRANGE
+      fs.mkdirSync(path.join(directory, 'lib', '__pycache__'), { recursive: true });
+      fs.writeFileSync(path.join(directory, 'main.py'), 'a');
+      fs.writeFileSync(path.join(directory, 'lib', 'b.py'), 'b');
+      fs.writeFileSync(path.join(directory, 'lib', '__pycache__', 'b.pyc'), 'c');
+
+      // ACT
+      const hashes = await hashLocalDir(directory, ['__pycache__']);
+
+      // ASSERT
+      expect(Array.from(hashes.keys()).sort()).toStrictEqual(['lib/b.py', 'main.py']);
+      expect(hashes.get('main.py')).toBe('ca978112ca1bbdcafac231b39a23dc4da786eff8147c4e72b9807785afee48bb');
+    });
+
+    test('should return nothing for a missing folder', async () => {
+      // ACT
+      const hashes = await hashLocalDir(path.join(directory, 'missing'));
+
+      // ASSERT
+      expect(hashes.size).toBe(0);
+    });
+  });
+});
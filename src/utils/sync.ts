@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type SyncDirection = 'push' | 'pull';
+
+export type SyncChangeType = 'add' | 'modify' | 'delete';
+
+export interface SyncChange {
+  type: SyncChangeType;
+  // path relative to the synced folders, '/' separated
+  path: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regular expression of a glob: `**` matches any number of folders, `*` and `?` anything but a `/`
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('/')
+    .map((part) =>
+      part === '**'
+        ? '(?:.*)'
+        : part
+            .split('*')
+            .map((text) => escapeRegExp(text).replace(/\?/g, '[^/]'))
+            .join('[^/]*')
+    )
+    .join('/')
+    // `a/**/b` matches `a/b` as well
+    .replace(/\/\(\?:\.\*\)\//g, '(?:/.*)?/')
+    .replace(/^\(\?:\.\*\)\//, '(?:.*/)?');
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Whether a relative path is excluded, like .gitignore: patterns without a `/` match the name of
+ * any file or folder, and a matching folder excludes everything under it
+ */
+export const isIgnored = (relative: string, patterns: string[]): boolean => {
+  const parts = relative.split('/');
+  return patterns.some((pattern) => {
+    const anywhere = pattern.indexOf('/') < 0;
+    const regExp = globToRegExp(pattern.replace(/^\/|\/$/g, ''));
+    return parts.some((part, i) => regExp.test(anywhere ? part : parts.slice(0, i + 1).join('/')));
+  });
+};
+
+/**
+ * Changes making the target folder a copy of the source one, sorted by path
+ */
+export const diffHashes = (
+  source: Map<string, string>,
+  target: Map<string, string>,
+  ignore: string[] = []
+): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  source.forEach((hash, relative) => {
+    if (!target.has(relative)) {
+      changes.push({ type: 'add', path: relative });
+    } else if (target.get(relative) !== hash) {
+      changes.push({ type: 'modify', path: relative });
+    }
+  });
+  target.forEach((hash, relative) => {
+    if (!source.has(relative)) {
+      changes.push({ type: 'delete', path: relative });
+    }
+  });
+  return changes
+    .filter((change) => !isIgnored(change.path, ignore))
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+};
+
+/**
+ * sha256 of each file under a local directory by relative path, skipping ignored folders
+ */
+export const hashLocalDir = async (
+  dirname: string,
+  ignore: string[] = [],
+  relative: string = ''
+): Promise<Map<string, string>> => {
+  const hashes = new Map<string, string>();
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(path.join(dirname, relative), { withFileTypes: true });
+  } catch (e: any) {
+    if (e.code === 'ENOENT' && !relative) {
+      return hashes;
+    }
+    throw e;
+  }
+  for (const entry of entries) {
+    const name = relative ? `${relative}/${entry.name}` : entry.name;
+    if (isIgnored(name, ignore)) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      (await hashLocalDir(dirname, ignore, name)).forEach((hash, filepath) => hashes.set(filepath, hash));
+    } else if (entry.isFile()) {
+      const content = await fs.promises.readFile(path.join(dirname, name));
+      hashes.set(name, createHash('sha256').update(content).digest('hex'));
+    }
+  }
+  return hashes;
+};
@@ -1,4 +1,4 @@
-import { trimComments } from './text';
+import { formatBytes, formatThroughput, listLines, plural, trimComments } from './text';
 
 describe.only('text', () => {
   test('should replace any comments in code', () => {
@@ -15,4 +15,25 @@ describe.only('text', () => {
     // ASSERT
     expect(result.indexOf('#')).toStrictEqual(-1);
   });
+
+  test('should format sizes with a readable unit', () => {
+    // ASSERT
+    expect(formatBytes(512)).toStrictEqual('512 B');
+    expect(formatBytes(204800)).toStrictEqual('200.0 KB');
+    expect(formatBytes(3 * 1024 * 1024)).toStrictEqual('3.0 MB');
+    expect(formatThroughput(11878.4)).toStrictEqual('11.6 KB/s');
+  });
+
+  test('should count nouns', () => {
+    // ASSERT
+    expect(plural(1, 'file')).toStrictEqual('1 file');
+    expect(plural(0, 'file')).toStrictEqual('0 files');
+    expect(plural(3, 'folder')).toStrictEqual('3 folders');
+  });
+
+  test('should list names and count the ones past the maximum', () => {
+    // ASSERT
+    expect(listLines(['a.py', 'b.py'])).toStrictEqual('a.py\nb.py');
+    expect(listLines(['a.py', 'b.py', 'c.py'], 2)).toStrictEqual('a.py\nb.py\nand 1 more');
+  });
 });
@@ -5,3 +5,28 @@ export const trimComments = (codeAsText: string): string => {
   // side effect of pending comments at the end of a statement
   return codeAsText.replace(reg, '\n').trim();
 };
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${Math.round(bytes)} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export const formatThroughput = (bytesPerSecond: number): string => `${formatBytes(bytesPerSecond)}/s`;
+
+export const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * One name per line for the detail of a confirmation, the ones past `max` are counted
+ */
+export const listLines = (names: string[], max: number = 20): string => {
+  const lines = names.slice(0, max);
+  if (names.length > max) {
+    lines.push(`and ${names.length - max} more`);
+  }
+  return lines.join('\n');
+};
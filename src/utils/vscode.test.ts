@@ -28,4 +28,18 @@ describe('utils', () => {
       port: '/dev/device',
     });
   });
+
+  test('should keep WebREPL device names', () => {
+    // ARRANGE
+    const uri = Uri.file('/webrepl:192.168.4.1:8266/flash/main.py');
+
+    // ACT
+    const result = getSerialPortAndFileFromUri(uri, 'linux');
+
+    // ASSERT
+    expect(result).toStrictEqual({
+      filepath: '/flash/main.py',
+      port: 'webrepl:192.168.4.1:8266',
+    });
+  });
 });
@@ -1,11 +1,20 @@
 import * as vscode from 'vscode';
+import { DEFAULT_UPLOAD_RETRIES, UploadOptions, UploadProgress } from '../serial/types';
+import { isWebRepl } from '../serial/WebRepl';
+import { formatBytes, formatThroughput } from './text';
+
+/**
+ * Port named by the first segment of a device URI path, WebREPL devices keep their name
+ */
+export const getPortFromPathSegment = (segment: string, platform: NodeJS.Platform): string =>
+  platform === 'win32' || isWebRepl(segment) ? segment : `/dev/${segment}`;
 
 export const getSerialPortAndFileFromUri = (
   uri: vscode.Uri,
   platform: NodeJS.Platform
 ): { port: string; filepath: string } => {
   const args = uri.path.split('/');
-  const port = platform === 'win32' ? args[1] : `/dev/${args[1]}`;
+  const port = getPortFromPathSegment(args[1], platform);
   const filepath = `/${args.slice(2).join('/')}`;
 
   return {
@@ -13,3 +22,24 @@ export const getSerialPortAndFileFromUri = (
     filepath,
   };
 };
+
+/**
+ * Progress callback for SerialManager.bulkDownload showing the bytes sent and the throughput
+ */
+export const reportUpload = (progress: vscode.Progress<{ message?: string; increment?: number }>) => {
+  let reported = 0;
+  return ({ sent, total, bytesPerSecond }: UploadProgress) => {
+    // a restarted upload keeps the bar where it was
+    const percent = Math.max(reported, total ? (sent / total) * 100 : 100);
+    progress.report({
+      increment: percent - reported,
+      message: `${formatBytes(sent)} / ${formatBytes(total)} (${formatThroughput(bytesPerSecond)})`,
+    });
+    reported = percent;
+  };
+};
+
+export const getUploadOptions = (resumeFrom?: number): UploadOptions => ({
+  retries: vscode.workspace.getConfiguration('m5stack.upload').get('retries', DEFAULT_UPLOAD_RETRIES),
+  resumeFrom,
+});
@@ -13,8 +13,15 @@ declare namespace jest {
      * Ensures that a mock function is called an exact number of times.
      */
     toHaveBeenCalledTimes(expected: number): R;
+    toBeInstanceOf<E = any>(expected: E): R;
+    toThrow(error?: string | RegExp | Error | (new (...args: any[]) => any)): R;
   }
-  type JestMatchers<T> = Matchers<void, T>;
+  type AndNot<T> = T & { not: T };
+  type JestMatchersShape<TNonPromise extends {} = {}, TPromise extends {} = {}> = {
+    resolves: AndNot<TPromise>;
+    rejects: AndNot<TPromise>;
+  } & AndNot<TNonPromise>;
+  type JestMatchers<T> = JestMatchersShape<Matchers<void, T>, Matchers<Promise<void>, T>>;
 
   interface Request {}
   interface RequestInit {}
@@ -188,6 +195,11 @@ declare namespace jest {
   }
 
   function mock(moduleName: string, factory?: () => unknown, options?: MockOptions): typeof jest;
+  /**
+   * Returns the actual module instead of a mock, bypassing all checks on
+   * whether the module should receive a mock implementation or not.
+   */
+  function requireActual<TModule extends {} = any>(moduleName: string): TModule;
 
   type NonFunctionPropertyNames<T> = {
     [K in keyof T]: T[K] extends (...args: any[]) => any ? never : K;
@@ -216,10 +228,18 @@ declare namespace jest {
      * mock(); // 43
      */
     mockReturnValue(value: T): this;
+    /**
+     * Accepts a value that will be returned for one call to the mock function.
+     */
+    mockReturnValueOnce(value: T): this;
     /**
      * Simple sugar function for: `jest.fn().mockImplementation(() => Promise.resolve(value));`
      */
     mockResolvedValue(value: ResolvedValue<T>): this;
+    /**
+     * Simple sugar function for: `jest.fn().mockImplementationOnce(() => Promise.resolve(value));`
+     */
+    mockResolvedValueOnce(value: ResolvedValue<T>): this;
 
     /**
      * Accepts a function that should be used as the implementation of the mock. The mock itself will still record
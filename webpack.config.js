@@ -2,7 +2,12 @@
 
 'use strict';
 
+const fs = require('fs');
 const path = require('path');
+const webpack = require('webpack');
+
+// the mpy-sdk backend reports the packages/mpy-sdk submodule missing when it is not checked out
+const SDK_AVAILABLE = fs.existsSync(path.join(__dirname, 'packages', 'mpy-sdk', 'src', 'index.ts'));
 
 //@ts-check
 /** @typedef {import('webpack').Configuration} WebpackConfig **/
@@ -22,6 +27,9 @@ const extensionConfig = {
   externals: {
     vscode: 'commonjs vscode', // the vscode-module is created on-the-fly and must be excluded. Add other modules that cannot be webpack'ed, 📖 -> https://webpack.js.org/configuration/externals/
     serialport: 'serialport',
+    // optional native addons of ws, it falls back to javascript without them
+    bufferutil: 'commonjs bufferutil',
+    'utf-8-validate': 'commonjs utf-8-validate',
   },
   resolve: {
     // support reading TypeScript and JavaScript files, 📖 -> https://github.com/TypeStrong/ts-loader
@@ -40,6 +48,7 @@ const extensionConfig = {
       },
     ],
   },
+  plugins: SDK_AVAILABLE ? [] : [new webpack.IgnorePlugin({ resourceRegExp: /packages\/mpy-sdk\/src$/ })],
   devtool: 'nosources-source-map',
   infrastructureLogging: {
     level: 'log', // enables logging required for problem matchers